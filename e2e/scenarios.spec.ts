@@ -0,0 +1,48 @@
+import { test, expect, type Page } from '@playwright/test'
+import { withScenario } from '../src/test/mocks/scenarios'
+
+async function signIn(page: Page) {
+  await page.fill('input[name="email"]', 'test@example.com')
+  await page.fill('input[name="password"]', 'password123')
+  await page.click('button[type="submit"]')
+}
+
+test.describe('Mock scenarios', () => {
+  test('empty tenant shows empty states', async ({ page }) => {
+    await page.goto(withScenario('/login', 'empty'))
+    await signIn(page)
+    await expect(page).toHaveURL('/dashboard')
+
+    await page.goto('/posts')
+    await expect(page.getByText('No posts yet.')).toBeVisible()
+  })
+
+  test('expired session sends the user back to sign in', async ({ page }) => {
+    await page.goto('/login')
+    await signIn(page)
+    await expect(page).toHaveURL('/dashboard')
+
+    // Expires the session of the open page, without a reload
+    await page.getByLabel('Mock scenario').selectOption('expired-session')
+    const rejected = page.waitForResponse(
+      (response) =>
+        response.url().includes('/api/posts') && response.status() === 401
+    )
+    await page.getByRole('link', { name: 'Posts' }).click()
+    await rejected
+
+    // The failed refresh signed the user out, so the guard turns them away
+    await page.getByRole('link', { name: 'Dashboard' }).click()
+    await expect(page).toHaveURL(/\/login\?redirect=/)
+
+    await signIn(page)
+    await expect(page).toHaveURL('/dashboard')
+  })
+
+  test('the scenario survives a reload', async ({ page }) => {
+    await page.goto(withScenario('/login', 'slow'))
+    await page.reload()
+
+    await expect(page.getByLabel('Mock scenario')).toHaveValue('slow')
+  })
+})
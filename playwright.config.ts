@@ -14,8 +14,9 @@ export default defineConfig({
     screenshot: 'only-on-failure',
   },
 
+  // The mock API lets specs pick a backend state with withScenario()
   webServer: {
-    command: 'pnpm run dev',
+    command: 'pnpm run dev:mock',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
   },
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import * as Sentry from '@sentry/react'
+import { server } from '@/test/mocks/server'
+import { useAuthStore } from '@/stores/authStore'
+import { api, ApiContractError, ApiError } from './client'
+import {
+  dashboardDataSchema,
+  userPreferencesSchema,
+  userSchema,
+} from './schemas'
+
+vi.mock('@sentry/react', () => ({ captureException: vi.fn() }))
+
+const user = {
+  id: '1',
+  name: 'Test User',
+  email: 'test@example.com',
+  role: 'admin' as const,
+  verified: true,
+}
+
+// Accepts only the refreshed token, so any request carrying the original
+// token is rejected the way an expired JWT would be
+function protectedHandler() {
+  return http.get('/api/protected', ({ request }) => {
+    if (request.headers.get('Authorization') !== 'Bearer fresh-token') {
+      return HttpResponse.json({ message: 'Token expired' }, { status: 401 })
+    }
+    return HttpResponse.json({ ok: true })
+  })
+}
+
+describe('api client token refresh', () => {
+  beforeEach(() => {
+    useAuthStore.getState().setAuth('expired-token', user)
+  })
+
+  it('refreshes the token and replays the request after a 401', async () => {
+    server.use(
+      protectedHandler(),
+      http.post('/api/auth/refresh', () =>
+        HttpResponse.json({ token: 'fresh-token' })
+      )
+    )
+
+    await expect(api.get('/protected')).resolves.toEqual({ ok: true })
+    expect(useAuthStore.getState().token).toBe('fresh-token')
+    expect(useAuthStore.getState().isAuthenticated).toBe(true)
+  })
+
+  it('shares a single refresh between concurrent requests', async () => {
+    let refreshCalls = 0
+    server.use(
+      protectedHandler(),
+      http.post('/api/auth/refresh', async () => {
+        refreshCalls += 1
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        return HttpResponse.json({ token: 'fresh-token' })
+      })
+    )
+
+    const results = await Promise.all([
+      api.get('/protected'),
+      api.get('/protected'),
+      api.get('/protected'),
+    ])
+
+    expect(results).toEqual([{ ok: true }, { ok: true }, { ok: true }])
+    expect(refreshCalls).toBe(1)
+  })
+
+  it('logs out when the refresh itself fails', async () => {
+    server.use(
+      protectedHandler(),
+      http.post('/api/auth/refresh', () =>
+        HttpResponse.json({ message: 'Session expired' }, { status: 401 })
+      )
+    )
+
+    await expect(api.get('/protected')).rejects.toMatchObject({ status: 401 })
+    expect(useAuthStore.getState().token).toBeNull()
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+  })
+
+  it('does not refresh a 401 on an unauthenticated request', async () => {
+    useAuthStore.getState().logout()
+    let refreshCalls = 0
+    server.use(
+      protectedHandler(),
+      http.post('/api/auth/refresh', () => {
+        refreshCalls += 1
+        return HttpResponse.json({ token: 'fresh-token' })
+      })
+    )
+
+    await expect(api.get('/protected')).rejects.toBeInstanceOf(ApiError)
+    expect(refreshCalls).toBe(0)
+  })
+})
+
+describe('api client response contracts', () => {
+  // A full User record, which has no `verified` flag
+  const { verified: _verified, ...account } = user
+  const validUser = {
+    ...account,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }
+
+  beforeEach(() => {
+    vi.mocked(Sentry.captureException).mockClear()
+  })
+
+  it('returns the parsed body and drops unknown fields', async () => {
+    server.use(
+      http.get('/api/users/1', () =>
+        HttpResponse.json({ ...validUser, passwordHash: 'secret' })
+      )
+    )
+
+    await expect(api.get('/users/1', { schema: userSchema })).resolves.toEqual(
+      validUser
+    )
+    expect(Sentry.captureException).not.toHaveBeenCalled()
+  })
+
+  it('rejects a mismatched body and reports it to Sentry', async () => {
+    server.use(
+      http.get('/api/users/1', () =>
+        HttpResponse.json({ ...validUser, role: 'owner', email: undefined })
+      )
+    )
+
+    const error: unknown = await api
+      .get('/users/1', { schema: userSchema })
+      .catch((reason: unknown) => reason)
+
+    expect(error).toBeInstanceOf(ApiContractError)
+    expect(error).toMatchObject({
+      endpoint: '/users/1',
+      issues: [
+        { path: 'email', message: expect.any(String) as string },
+        { path: 'role', message: expect.any(String) as string },
+      ],
+    })
+    expect(Sentry.captureException).toHaveBeenCalledWith(error, {
+      tags: { endpoint: '/users/1' },
+      extra: { issues: (error as ApiContractError).issues },
+    })
+  })
+
+  it('leaves out list entries of a type this build does not know', async () => {
+    const activity = {
+      id: 'a1',
+      type: 'user_registered',
+      description: 'New user registered',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    }
+    server.use(
+      http.get('/api/dashboard', () =>
+        HttpResponse.json({
+          totalUsers: 1,
+          totalPosts: 0,
+          recentActivity: [
+            { ...activity, id: 'a0', type: 'post_liked' },
+            activity,
+          ],
+        })
+      ),
+      http.get('/api/users/me/preferences', () =>
+        HttpResponse.json({
+          dashboardLayout: [
+            { type: 'weather', size: 'small' },
+            { type: 'metrics', size: 'large' },
+          ],
+        })
+      )
+    )
+
+    await expect(
+      api.get('/dashboard', { schema: dashboardDataSchema })
+    ).resolves.toEqual({
+      totalUsers: 1,
+      totalPosts: 0,
+      recentActivity: [activity],
+    })
+    await expect(
+      api.get('/users/me/preferences', { schema: userPreferencesSchema })
+    ).resolves.toEqual({
+      dashboardLayout: [{ type: 'metrics', size: 'large' }],
+    })
+    expect(Sentry.captureException).not.toHaveBeenCalled()
+  })
+
+  it('validates the refreshed token', async () => {
+    useAuthStore.getState().setAuth('expired-token', user)
+    server.use(
+      protectedHandler(),
+      http.post('/api/auth/refresh', () => HttpResponse.json({ jwt: 'nope' }))
+    )
+
+    await expect(api.get('/protected')).rejects.toBeInstanceOf(ApiError)
+    expect(Sentry.captureException).toHaveBeenCalledWith(
+      expect.any(ApiContractError),
+      {
+        tags: { endpoint: '/auth/refresh' },
+        extra: expect.anything() as object,
+      }
+    )
+  })
+})
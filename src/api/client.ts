@@ -1,9 +1,14 @@
+import * as Sentry from '@sentry/react'
+import type { z } from 'zod'
 import { useAuthStore } from '@/stores/authStore'
+import { tokenResponseSchema } from './schemas'
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+export const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
 
-interface RequestOptions extends RequestInit {
+interface RequestOptions<T> extends RequestInit {
   params?: Record<string, string>
+  // Parses the response body; without one the body is returned unchecked
+  schema?: z.ZodType<T>
 }
 
 export class ApiError extends Error {
@@ -17,11 +22,64 @@ export class ApiError extends Error {
   }
 }
 
-async function request<T>(
+export interface ContractIssue {
+  path: string
+  message: string
+}
+
+// The server answered successfully but the body doesn't match its schema.
+// That's a bug on one side of the contract rather than a network blip, so
+// it is reported to Sentry with the endpoint and the failing paths.
+export class ApiContractError extends Error {
+  constructor(
+    public endpoint: string,
+    public issues: ContractIssue[]
+  ) {
+    super(
+      `Unexpected response from ${endpoint}: ${issues
+        .map((issue) => `${issue.path || '(root)'} ${issue.message}`)
+        .join('; ')}`
+    )
+    this.name = 'ApiContractError'
+  }
+}
+
+// Checks a body against its schema. A mismatch is reported to Sentry with
+// the endpoint and the failing paths, and handed back for the caller to
+// throw or drop.
+export function checkContract<T>(
   endpoint: string,
-  options: RequestOptions = {}
-): Promise<T> {
-  const { params, ...init } = options
+  schema: z.ZodType<T>,
+  data: unknown
+): { data: T } | { error: ApiContractError } {
+  const result = schema.safeParse(data)
+  if (result.success) return { data: result.data }
+
+  const error = new ApiContractError(
+    endpoint,
+    result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    }))
+  )
+  Sentry.captureException(error, {
+    tags: { endpoint },
+    extra: { issues: error.issues },
+  })
+  return { error }
+}
+
+function parseResponse<T>(
+  endpoint: string,
+  schema: z.ZodType<T>,
+  data: unknown
+) {
+  const result = checkContract(endpoint, schema, data)
+  if ('error' in result) throw result.error
+  return result.data
+}
+
+function buildUrl(endpoint: string, params?: Record<string, string>) {
   const url = new URL(`${API_BASE_URL}${endpoint}`, window.location.origin)
 
   if (params) {
@@ -30,49 +88,133 @@ async function request<T>(
     })
   }
 
-  const token = useAuthStore.getState().token
+  return url
+}
+
+// A single in-flight refresh shared by every request that hits a 401,
+// so concurrent requests queue behind it instead of racing to refresh
+let refreshPromise: Promise<string> | null = null
 
-  const headers = new Headers({
-    'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+async function refreshAccessToken(): Promise<string> {
+  // The refresh token lives in an HttpOnly cookie, so send credentials
+  const response = await fetch(buildUrl('/auth/refresh'), {
+    method: 'POST',
+    credentials: 'include',
   })
-  if (init.headers) {
-    new Headers(init.headers).forEach((value, key) => {
-      headers.set(key, value)
-    })
+
+  if (!response.ok) {
+    const data: unknown = await response.json().catch(() => null)
+    throw new ApiError(response.status, response.statusText, data)
   }
 
-  const response = await fetch(url, {
-    ...init,
-    headers,
+  const { token } = parseResponse(
+    '/auth/refresh',
+    tokenResponseSchema,
+    await response.json()
+  )
+  useAuthStore.getState().setToken(token)
+  return token
+}
+
+function refreshSession(): Promise<string> {
+  refreshPromise ??= refreshAccessToken().finally(() => {
+    refreshPromise = null
   })
+  return refreshPromise
+}
+
+async function request<T>(
+  endpoint: string,
+  options: RequestOptions<T> = {}
+): Promise<T> {
+  const { params, schema, ...init } = options
+  const url = buildUrl(endpoint, params)
+
+  // Wait for a refresh that is already running rather than sending a
+  // token we know is about to be replaced
+  if (refreshPromise) {
+    await refreshPromise.catch(() => null)
+  }
+
+  const send = (token: string | null) => {
+    const headers = new Headers({
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    })
+    if (init.headers) {
+      new Headers(init.headers).forEach((value, key) => {
+        headers.set(key, value)
+      })
+    }
+
+    return fetch(url, {
+      ...init,
+      headers,
+    })
+  }
+
+  const token = useAuthStore.getState().token
+  let response = await send(token)
+
+  // Only authenticated requests are retried; a 401 without a token (e.g.
+  // bad credentials on login) is a real failure, not an expired session
+  if (response.status === 401 && token) {
+    // Another request may already have refreshed while this one was in
+    // flight; reuse its token instead of refreshing a second time
+    const currentToken = useAuthStore.getState().token
+    let refreshedToken: string
+    try {
+      refreshedToken =
+        currentToken && currentToken !== token
+          ? currentToken
+          : await refreshSession()
+    } catch {
+      useAuthStore.getState().logout()
+      const data: unknown = await response.json().catch(() => null)
+      throw new ApiError(response.status, response.statusText, data)
+    }
+    response = await send(refreshedToken)
+  }
 
   if (!response.ok) {
     const data: unknown = await response.json().catch(() => null)
     throw new ApiError(response.status, response.statusText, data)
   }
 
-  return response.json() as Promise<T>
+  if (response.status === 204) {
+    return undefined as T
+  }
+
+  const data: unknown = await response.json()
+  return schema ? parseResponse(endpoint, schema, data) : (data as T)
 }
 
 export const api = {
-  get: <T>(endpoint: string, options?: RequestOptions) =>
+  get: <T = unknown>(endpoint: string, options?: RequestOptions<T>) =>
     request<T>(endpoint, { ...options, method: 'GET' }),
 
-  post: <T>(endpoint: string, data?: unknown, options?: RequestOptions) =>
+  post: <T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    options?: RequestOptions<T>
+  ) =>
     request<T>(endpoint, {
       ...options,
       method: 'POST',
       body: JSON.stringify(data),
     }),
 
-  put: <T>(endpoint: string, data?: unknown, options?: RequestOptions) =>
+  put: <T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    options?: RequestOptions<T>
+  ) =>
     request<T>(endpoint, {
       ...options,
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
-  delete: <T>(endpoint: string, options?: RequestOptions) =>
+  delete: <T = unknown>(endpoint: string, options?: RequestOptions<T>) =>
     request<T>(endpoint, { ...options, method: 'DELETE' }),
 }
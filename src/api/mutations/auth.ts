@@ -1,10 +1,24 @@
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../client'
+import {
+  authResponseSchema,
+  authUserSchema,
+  loginResponseSchema,
+  ssoResponseSchema,
+} from '../schemas'
+import {
+  getSsoRedirectUri,
+  readIdTokenNonce,
+  SsoError,
+  type PendingSsoRequest,
+} from '@/lib/sso'
 import { useAuthStore } from '@/stores/authStore'
+import type { SsoTokenInput, VerifyMfaInput } from '@/types'
 
 interface LoginInput {
   email: string
   password: string
+  rememberMe: boolean
 }
 
 interface RegisterInput {
@@ -13,23 +27,36 @@ interface RegisterInput {
   password: string
 }
 
-interface AuthResponse {
-  token: string
-  user: {
-    id: string
-    name: string
-    email: string
-  }
-}
-
+// Resolves with an `mfa_required` challenge instead of signing in when the
+// account has two-factor authentication on; pass it to useVerifyMfa
 export function useLogin() {
   const setAuth = useAuthStore((s) => s.setAuth)
 
   return useMutation({
     mutationFn: (data: LoginInput) =>
-      api.post<AuthResponse>('/auth/login', data),
-    onSuccess: (data) => {
-      setAuth(data.token, data.user)
+      api.post('/auth/login', data, { schema: loginResponseSchema }),
+    onSuccess: (data, variables) => {
+      if ('token' in data) {
+        setAuth(data.token, data.user, variables.rememberMe)
+      }
+    },
+  })
+}
+
+// The second sign-in step. A wrong code is a 422 on `code` or
+// `recoveryCode`; a challenge that has timed out is a 410 with an
+// `mfa_challenge_expired` code, and the user has to start again.
+export function useVerifyMfa() {
+  const setAuth = useAuthStore((s) => s.setAuth)
+
+  return useMutation({
+    mutationFn: ({
+      rememberMe: _rememberMe,
+      ...data
+    }: VerifyMfaInput & { rememberMe: boolean }) =>
+      api.post('/auth/mfa/verify', data, { schema: authResponseSchema }),
+    onSuccess: (data, variables) => {
+      setAuth(data.token, data.user, variables.rememberMe)
     },
   })
 }
@@ -39,9 +66,111 @@ export function useRegister() {
 
   return useMutation({
     mutationFn: (data: RegisterInput) =>
-      api.post<AuthResponse>('/auth/register', data),
+      api.post('/auth/register', data, { schema: authResponseSchema }),
     onSuccess: (data) => {
       setAuth(data.token, data.user)
     },
   })
 }
+
+// Always succeeds for a well-formed email, whether or not it has an account
+export function useRequestPasswordReset() {
+  return useMutation({
+    mutationFn: (data: { email: string }) =>
+      api.post<undefined>('/auth/forgot-password', data),
+  })
+}
+
+// Fails with a 410 and a `reset_token_expired` or `reset_token_used` code
+// when the link can't be used any more
+export function useResetPassword() {
+  return useMutation({
+    mutationFn: (data: { token: string; password: string }) =>
+      api.post<undefined>('/auth/reset-password', data),
+  })
+}
+
+// Resolves with the account the link belongs to. Fails with a 400
+// `verification_token_invalid` or a 410 `verification_token_expired`.
+export function useVerifyEmail() {
+  const updateUser = useAuthStore((s) => s.updateUser)
+
+  return useMutation({
+    mutationFn: (data: { token: string }) =>
+      api.post('/auth/verify-email', data, { schema: authUserSchema }),
+    onSuccess: (verified) => {
+      // The link may have been opened while signed in as someone else
+      if (useAuthStore.getState().user?.id === verified.id) {
+        updateUser({ verified: true })
+      }
+    },
+  })
+}
+
+// Asking again within a minute fails with a 429, whose `retryAfter` says how
+// many seconds are left
+export function useResendVerificationEmail() {
+  return useMutation({
+    mutationFn: () => api.post<undefined>('/auth/verify-email/resend'),
+  })
+}
+
+interface SsoCallbackInput {
+  // The request this tab sent the user off with, if it still has one
+  request: PendingSsoRequest | null
+  code: string
+  state: string | undefined
+}
+
+// Finishes single sign-on once the provider sends the user back. Fails with
+// an SsoError when the state or the ID token's nonce doesn't match what this
+// tab sent, and with a 400 `sso_code_invalid` when the API can't redeem the
+// code.
+export function useSsoSignIn() {
+  const setAuth = useAuthStore((s) => s.setAuth)
+
+  return useMutation({
+    mutationFn: async ({ request, code, state }: SsoCallbackInput) => {
+      if (!request || request.state !== state) {
+        throw new SsoError('state_mismatch')
+      }
+      const body: SsoTokenInput = {
+        provider: request.providerId,
+        code,
+        codeVerifier: request.codeVerifier,
+        redirectUri: getSsoRedirectUri(),
+      }
+      const data = await api.post('/auth/sso/token', body, {
+        schema: ssoResponseSchema,
+      })
+      if (readIdTokenNonce(data.idToken) !== request.nonce) {
+        // The API has already opened a session for the token; end it so it
+        // isn't left behind the error
+        await api
+          .post('/auth/logout', undefined, {
+            headers: { Authorization: `Bearer ${data.token}` },
+          })
+          .catch(() => undefined)
+        throw new SsoError('nonce_mismatch')
+      }
+      return data
+    },
+    onSuccess: (data) => {
+      setAuth(data.token, data.user)
+    },
+  })
+}
+
+export function useLogout() {
+  const queryClient = useQueryClient()
+  const logout = useAuthStore((s) => s.logout)
+
+  return useMutation({
+    // Clears the HttpOnly refresh cookie so the session can't be restored
+    mutationFn: () => api.post<undefined>('/auth/logout'),
+    onSettled: () => {
+      logout()
+      queryClient.clear()
+    },
+  })
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../client'
+import { postSchema } from '../schemas'
+import type { CreatePostInput, Post, UpdatePostInput } from '@/types'
+
+export function useCreatePost() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreatePostInput) =>
+      api.post('/posts', data, { schema: postSchema }),
+    onSuccess: (post) => {
+      queryClient.setQueryData(['posts', post.id], post)
+      void queryClient.invalidateQueries({
+        queryKey: ['users', post.authorId, 'posts'],
+      })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'list'] })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'authors'] })
+      void queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+    },
+  })
+}
+
+export function useUpdatePost() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: UpdatePostInput & { id: string }) =>
+      api.put(`/posts/${id}`, data, { schema: postSchema }),
+    onSuccess: (post) => {
+      queryClient.setQueryData(['posts', post.id], post)
+      void queryClient.invalidateQueries({
+        queryKey: ['users', post.authorId, 'posts'],
+      })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'list'] })
+    },
+  })
+}
+
+export function useDeletePost() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    // Takes the whole post so the author's list can be refreshed afterwards
+    mutationFn: (post: Post) => api.delete(`/posts/${post.id}`),
+    onSuccess: (_, post) => {
+      // Marked stale rather than removed: a page still showing the post
+      // would otherwise refetch it straight into a 404
+      void queryClient.invalidateQueries({
+        queryKey: ['posts', post.id],
+        exact: true,
+        refetchType: 'none',
+      })
+      void queryClient.invalidateQueries({
+        queryKey: ['users', post.authorId, 'posts'],
+      })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'list'] })
+      void queryClient.invalidateQueries({ queryKey: ['posts', 'authors'] })
+      void queryClient.invalidateQueries({ queryKey: ['dashboard'] })
+    },
+  })
+}
@@ -0,0 +1,16 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../client'
+import { userPreferencesSchema } from '../schemas'
+import type { UserPreferences } from '@/types'
+
+export function useUpdatePreferences() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: Partial<UserPreferences>) =>
+      api.put('/me/preferences', data, { schema: userPreferencesSchema }),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(['me', 'preferences'], preferences)
+    },
+  })
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { api } from '../client'
+import { mfaSetupSchema, recoveryCodesSchema } from '../schemas'
+import type { ChangePasswordInput } from '@/types'
+
+// A wrong current password comes back as a 422 on `currentPassword`
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: (data: ChangePasswordInput) =>
+      api.put<undefined>('/me/password', data),
+  })
+}
+
+// Ends every session except the one making the request
+export function useSignOutOtherSessions() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: () => api.post<undefined>('/me/sessions/revoke-others'),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['me', 'sessions'] })
+    },
+  })
+}
+
+// Creates a new secret for the authenticator app. It isn't used for sign-in
+// until a code from it has been confirmed with useEnableMfa.
+export function useStartMfaSetup() {
+  return useMutation({
+    mutationFn: () =>
+      api.post('/me/mfa/setup', undefined, { schema: mfaSetupSchema }),
+  })
+}
+
+// Resolves with the recovery codes, which the server won't show again. A
+// wrong code comes back as a 422 on `code`.
+export function useEnableMfa() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: { code: string }) =>
+      api.post('/me/mfa/enable', data, { schema: recoveryCodesSchema }),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['me', 'mfa'] })
+    },
+  })
+}
+
+// Needs the account password, checked as a 422 on `password`
+export function useDisableMfa() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: { password: string }) =>
+      api.post<undefined>('/me/mfa/disable', data),
+    onSuccess: () => {
+      void queryClient.invalidateQueries({ queryKey: ['me', 'mfa'] })
+    },
+  })
+}
@@ -0,0 +1,225 @@
+import { createElement, type ReactNode } from 'react'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { server } from '@/test/mocks/server'
+import {
+  DELETE_UNDO_WINDOW_MS,
+  undoDeleteUser,
+  useDeleteUser,
+  useUpdateUser,
+} from './users'
+import type { PaginatedResponse, User } from '@/types'
+
+const alice: User = {
+  id: '1',
+  name: 'Alice Smith',
+  email: 'alice@example.com',
+  role: 'user',
+  createdAt: '2024-01-15T00:00:00.000Z',
+  updatedAt: '2024-01-15T00:00:00.000Z',
+}
+
+const listKey = ['users', 'list', { page: 1 }]
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  })
+  queryClient.setQueryData<PaginatedResponse<User>>(listKey, {
+    data: [alice],
+    total: 1,
+    page: 1,
+    pageSize: 10,
+  })
+  queryClient.setQueryData(['users', alice.id], alice)
+  // Keep the seeded data in place of the refetch triggered on settle
+  vi.spyOn(queryClient, 'invalidateQueries').mockResolvedValue()
+
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children)
+  const list = () =>
+    queryClient.getQueryData<PaginatedResponse<User>>(listKey)?.data
+
+  return { queryClient, wrapper, list }
+}
+
+describe('useUpdateUser', () => {
+  it('writes the change into the list and detail caches before the response', async () => {
+    const { queryClient, wrapper, list } = setup()
+    const { result } = renderHook(() => useUpdateUser(), { wrapper })
+
+    act(() => {
+      result.current.mutate({ id: alice.id, role: 'admin' })
+    })
+
+    await waitFor(() => {
+      expect(list()?.[0]?.role).toBe('admin')
+    })
+    expect(queryClient.getQueryData<User>(['users', alice.id])?.role).toBe(
+      'admin'
+    )
+  })
+
+  it('rolls the caches back when the request fails', async () => {
+    server.use(
+      http.put('/api/users/:id', () =>
+        HttpResponse.json({ message: 'Forbidden' }, { status: 403 })
+      )
+    )
+    const { queryClient, wrapper, list } = setup()
+    const { result } = renderHook(() => useUpdateUser(), { wrapper })
+
+    act(() => {
+      result.current.mutate({ id: alice.id, name: 'Renamed' })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true)
+    })
+    expect(list()).toEqual([alice])
+    expect(queryClient.getQueryData(['users', alice.id])).toEqual(alice)
+  })
+})
+
+describe('useDeleteUser', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('removes the user at once and only sends the DELETE after the undo window', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    const onDelete = vi.fn()
+    server.use(
+      http.delete('/api/users/:id', () => {
+        onDelete()
+        return new HttpResponse(null, { status: 204 })
+      })
+    )
+    const { wrapper, list } = setup()
+    const { result } = renderHook(() => useDeleteUser(), { wrapper })
+
+    act(() => {
+      result.current.mutate(alice.id)
+    })
+
+    await waitFor(() => {
+      expect(list()).toEqual([])
+    })
+    expect(onDelete).not.toHaveBeenCalled()
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(DELETE_UNDO_WINDOW_MS)
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(onDelete).toHaveBeenCalledOnce()
+    expect(undoDeleteUser(alice.id)).toBe(false)
+  })
+
+  it('reports the end of the undo window just before sending the DELETE', async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    const onDelete = vi.fn()
+    server.use(
+      http.delete('/api/users/:id', () => {
+        onDelete()
+        return new HttpResponse(null, { status: 204 })
+      })
+    )
+    const onUndoExpired = vi.fn(() => {
+      expect(onDelete).not.toHaveBeenCalled()
+    })
+    const { wrapper } = setup()
+    const { result } = renderHook(() => useDeleteUser({ onUndoExpired }), {
+      wrapper,
+    })
+
+    act(() => {
+      result.current.mutate(alice.id)
+    })
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(DELETE_UNDO_WINDOW_MS - 100)
+    })
+    expect(onUndoExpired).not.toHaveBeenCalled()
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(100)
+    })
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(onUndoExpired).toHaveBeenCalledExactlyOnceWith(alice.id)
+    expect(onDelete).toHaveBeenCalledOnce()
+  })
+
+  it('restores the user and skips the request when undone', async () => {
+    const onDelete = vi.fn()
+    server.use(
+      http.delete('/api/users/:id', () => {
+        onDelete()
+        return new HttpResponse(null, { status: 204 })
+      })
+    )
+    const { queryClient, wrapper, list } = setup()
+    const { result } = renderHook(() => useDeleteUser(), { wrapper })
+
+    act(() => {
+      result.current.mutate(alice.id)
+    })
+    await waitFor(() => {
+      expect(list()).toEqual([])
+    })
+
+    act(() => {
+      expect(undoDeleteUser(alice.id)).toBe(true)
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(list()).toEqual([alice])
+    expect(queryClient.getQueryData(['users', alice.id])).toEqual(alice)
+    expect(onDelete).not.toHaveBeenCalled()
+  })
+
+  it('keeps the row hidden through refetches and undoes only the delete', async () => {
+    const bob: User = { ...alice, id: '2', name: 'Bob Jones' }
+    const { queryClient, wrapper, list } = setup()
+    const { result } = renderHook(() => useDeleteUser(), { wrapper })
+
+    act(() => {
+      result.current.mutate(alice.id)
+    })
+    await waitFor(() => {
+      expect(list()).toEqual([])
+    })
+
+    // A refetch lands with the user still on the server, plus a new row
+    await act(() =>
+      queryClient.fetchQuery({
+        queryKey: listKey,
+        queryFn: () => ({
+          data: [alice, bob],
+          total: 2,
+          page: 1,
+          pageSize: 10,
+        }),
+      })
+    )
+    expect(list()).toEqual([bob])
+
+    act(() => {
+      expect(undoDeleteUser(alice.id)).toBe(true)
+    })
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+    expect(list()).toEqual([alice, bob])
+    expect(
+      queryClient.getQueryData<PaginatedResponse<User>>(listKey)?.total
+    ).toBe(2)
+  })
+})
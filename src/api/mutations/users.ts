@@ -1,13 +1,82 @@
-import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  useMutation,
+  useQueryClient,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query'
 import { api } from '../client'
-import type { User, CreateUserInput, UpdateUserInput } from '@/types'
+import { userSchema } from '../schemas'
+import type {
+  User,
+  CreateUserInput,
+  UpdateUserInput,
+  PaginatedResponse,
+  Role,
+} from '@/types'
+
+type UserList = PaginatedResponse<User>
+type UserCacheSnapshot = [QueryKey, unknown][]
+
+// How long a delete can still be undone before the request is sent
+export const DELETE_UNDO_WINDOW_MS = 5000
+
+// Stops in-flight fetches from overwriting the optimistic write, and returns
+// every cached user query so a failed mutation can put them back
+async function snapshotUserCaches(
+  queryClient: QueryClient
+): Promise<UserCacheSnapshot> {
+  await queryClient.cancelQueries({ queryKey: ['users'] })
+  return queryClient.getQueriesData({ queryKey: ['users'] })
+}
+
+function restoreUserCaches(
+  queryClient: QueryClient,
+  snapshot: UserCacheSnapshot | undefined
+) {
+  snapshot?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data)
+  })
+}
+
+function updateUserLists(
+  queryClient: QueryClient,
+  updater: (list: UserList) => UserList
+) {
+  queryClient.setQueriesData<UserList>(
+    { queryKey: ['users', 'list'] },
+    (list) => list && updater(list)
+  )
+}
 
 export function useCreateUser() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (data: CreateUserInput) => api.post<User>('/users', data),
-    onSuccess: () => {
+    mutationFn: (data: CreateUserInput) =>
+      api.post('/users', data, { schema: userSchema }),
+    onMutate: async ({ password: _password, ...data }) => {
+      const snapshot = await snapshotUserCaches(queryClient)
+      const now = new Date().toISOString()
+      const placeholder: User = {
+        id: `optimistic-${crypto.randomUUID()}`,
+        role: 'user',
+        ...data,
+        createdAt: now,
+        updatedAt: now,
+      }
+      // Shown at the top of the first page until the refetch puts it where
+      // the current sort and filters say it belongs
+      updateUserLists(queryClient, (list) => ({
+        ...list,
+        data: list.page === 1 ? [placeholder, ...list.data] : list.data,
+        total: list.total + 1,
+      }))
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreUserCaches(queryClient, context?.snapshot)
+    },
+    onSettled: () => {
       void queryClient.invalidateQueries({ queryKey: ['users'] })
     },
   })
@@ -18,8 +87,24 @@ export function useUpdateUser() {
 
   return useMutation({
     mutationFn: ({ id, ...data }: UpdateUserInput & { id: string }) =>
-      api.put<User>(`/users/${id}`, data),
-    onSuccess: (_, variables) => {
+      api.put(`/users/${id}`, data, { schema: userSchema }),
+    onMutate: async ({ id, ...data }) => {
+      const snapshot = await snapshotUserCaches(queryClient)
+      const apply = (user: User): User => ({ ...user, ...data })
+      queryClient.setQueryData<User>(
+        ['users', id],
+        (user) => user && apply(user)
+      )
+      updateUserLists(queryClient, (list) => ({
+        ...list,
+        data: list.data.map((user) => (user.id === id ? apply(user) : user)),
+      }))
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      restoreUserCaches(queryClient, context?.snapshot)
+    },
+    onSettled: (_data, _error, variables) => {
       void queryClient.invalidateQueries({
         queryKey: ['users', variables.id],
       })
@@ -28,12 +113,190 @@ export function useUpdateUser() {
   })
 }
 
-export function useDeleteUser() {
+// Deletes waiting out their undo window, keyed by user id
+const pendingDeletes = new Map<string, () => void>()
+
+function waitForUndo(id: string) {
+  return new Promise<boolean>((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingDeletes.delete(id)
+      resolve(false)
+    }, DELETE_UNDO_WINDOW_MS)
+    pendingDeletes.set(id, () => {
+      clearTimeout(timeout)
+      pendingDeletes.delete(id)
+      resolve(true)
+    })
+  })
+}
+
+// Cancels a delete still inside its undo window. Returns false when the
+// request has already been sent.
+export function undoDeleteUser(id: string) {
+  const undo = pendingDeletes.get(id)
+  undo?.()
+  return !!undo
+}
+
+// Where the user sat in each cached list, so an undone or failed delete can
+// put back just that row without touching anything that changed since
+interface DeletedUser {
+  detail: User | undefined
+  positions: [QueryKey, User, number][]
+  stopHiding: () => void
+}
+
+function withoutUser(list: UserList, id: string): UserList {
+  const data = list.data.filter((user) => user.id !== id)
+  return { ...list, data, total: list.total - (list.data.length - data.length) }
+}
+
+// Any refetch during the undo window (the realtime feed invalidates
+// ['users'] whenever someone else edits a user) would bring the row back,
+// so it's taken out of every list that lands until the delete settles
+function hideFromRefetches(queryClient: QueryClient, id: string) {
+  return queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' || event.action.type !== 'success') return
+    const queryKey = event.query.queryKey as QueryKey
+    if (queryKey[0] !== 'users' || queryKey[1] !== 'list') return
+    const list = event.query.state.data as UserList | undefined
+    if (list?.data.some((user) => user.id === id)) {
+      queryClient.setQueryData(queryKey, withoutUser(list, id))
+    }
+  })
+}
+
+function restoreDeletedUser(
+  queryClient: QueryClient,
+  id: string,
+  deleted: DeletedUser
+) {
+  deleted.stopHiding()
+  for (const [queryKey, user, index] of deleted.positions) {
+    queryClient.setQueryData<UserList>(queryKey, (list) => {
+      if (!list || list.data.some((row) => row.id === id)) return list
+      const data = [...list.data]
+      data.splice(Math.min(index, data.length), 0, user)
+      return { ...list, data, total: list.total + 1 }
+    })
+  }
+  if (deleted.detail && !queryClient.getQueryData(['users', id])) {
+    queryClient.setQueryData(['users', id], deleted.detail)
+  }
+}
+
+interface UseDeleteUserOptions {
+  // Runs on the same timer that sends the DELETE, so anything offering an
+  // undo can be taken down exactly when undoing stops working
+  onUndoExpired?: (id: string) => void
+}
+
+export function useDeleteUser({ onUndoExpired }: UseDeleteUserOptions = {}) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    // The user disappears immediately, but the DELETE is held back so it can
+    // still be undone with undoDeleteUser
+    mutationFn: async (id: string) => {
+      const undone = await waitForUndo(id)
+      if (!undone) {
+        onUndoExpired?.(id)
+        await api.delete(`/users/${id}`)
+      }
+      return { undone }
+    },
+    onMutate: async (id): Promise<DeletedUser> => {
+      await queryClient.cancelQueries({ queryKey: ['users'] })
+      const positions: DeletedUser['positions'] = []
+      for (const [queryKey, list] of queryClient.getQueriesData<UserList>({
+        queryKey: ['users', 'list'],
+      })) {
+        const index = list?.data.findIndex((user) => user.id === id) ?? -1
+        const user = list?.data[index]
+        if (user) positions.push([queryKey, user, index])
+      }
+      const detail = queryClient.getQueryData<User>(['users', id])
+
+      queryClient.removeQueries({ queryKey: ['users', id], exact: true })
+      updateUserLists(queryClient, (list) => withoutUser(list, id))
+      return {
+        detail,
+        positions,
+        stopHiding: hideFromRefetches(queryClient, id),
+      }
+    },
+    onSuccess: ({ undone }, id, context) => {
+      if (undone) restoreDeletedUser(queryClient, id, context)
+    },
+    onError: (_error, id, context) => {
+      if (context) restoreDeletedUser(queryClient, id, context)
+    },
+    onSettled: (_data, _error, _id, context) => {
+      context?.stopHiding()
+      void queryClient.invalidateQueries({ queryKey: ['users'] })
+    },
+  })
+}
+
+export interface BulkUserResult {
+  succeeded: User[]
+  failed: { user: User; error: Error }[]
+}
+
+// Bulk actions fan out to the per-user endpoints a few at a time, and report
+// every outcome rather than stopping at the first failure
+const BULK_CONCURRENCY = 5
+
+async function runBulk(
+  users: User[],
+  operation: (user: User) => Promise<unknown>
+): Promise<BulkUserResult> {
+  const result: BulkUserResult = { succeeded: [], failed: [] }
+
+  for (let i = 0; i < users.length; i += BULK_CONCURRENCY) {
+    const batch = users.slice(i, i + BULK_CONCURRENCY)
+    const outcomes = await Promise.allSettled(batch.map(operation))
+    outcomes.forEach((outcome, index) => {
+      const user = batch[index]
+      if (!user) return
+      if (outcome.status === 'fulfilled') {
+        result.succeeded.push(user)
+      } else {
+        result.failed.push({
+          user,
+          error:
+            outcome.reason instanceof Error
+              ? outcome.reason
+              : new Error(String(outcome.reason)),
+        })
+      }
+    })
+  }
+
+  return result
+}
+
+export function useBulkDeleteUsers() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (users: User[]) =>
+      runBulk(users, (user) => api.delete(`/users/${user.id}`)),
+    onSettled: () => {
+      void queryClient.invalidateQueries({ queryKey: ['users'] })
+    },
+  })
+}
+
+export function useBulkUpdateUserRole() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (id: string) => api.delete(`/users/${id}`),
-    onSuccess: () => {
+    mutationFn: ({ users, role }: { users: User[]; role: Role }) =>
+      runBulk(users, (user) =>
+        api.put(`/users/${user.id}`, { role }, { schema: userSchema })
+      ),
+    onSettled: () => {
       void queryClient.invalidateQueries({ queryKey: ['users'] })
     },
   })
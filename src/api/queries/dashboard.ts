@@ -1,22 +1,54 @@
-import { queryOptions } from '@tanstack/react-query'
+import { infiniteQueryOptions, queryOptions } from '@tanstack/react-query'
 import { api } from '../client'
+import {
+  activityListSchema,
+  activitySchema,
+  cursorPageSchema,
+  dashboardDataSchema,
+  dashboardMetricsSchema,
+} from '../schemas'
+import type { ActivityType, MetricsInterval, MetricsRange } from '@/types'
 
-interface DashboardData {
-  totalUsers: number
-  totalPosts: number
-  recentActivity: {
-    id: string
-    type: string
-    description: string
-    createdAt: string
-  }[]
-}
+const ACTIVITY_PAGE_SIZE = 10
+
+const activityPageSchema = cursorPageSchema(activitySchema).extend({
+  data: activityListSchema,
+})
 
 export const dashboardQueryOptions = queryOptions({
   queryKey: ['dashboard'],
-  queryFn: () => api.get<DashboardData>('/dashboard'),
+  queryFn: () => fetchDashboardData(),
 })
 
 export function fetchDashboardData() {
-  return api.get<DashboardData>('/dashboard')
+  return api.get('/dashboard', { schema: dashboardDataSchema })
 }
+
+export const activityQueryOptions = (type?: ActivityType) =>
+  infiniteQueryOptions({
+    queryKey: ['dashboard', 'activity', { type }],
+    queryFn: ({ pageParam }) =>
+      api.get('/dashboard/activity', {
+        schema: activityPageSchema,
+        params: {
+          limit: String(ACTIVITY_PAGE_SIZE),
+          ...(pageParam ? { cursor: pageParam } : {}),
+          ...(type ? { type } : {}),
+        },
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  })
+
+export const metricsQueryOptions = (
+  range: MetricsRange,
+  interval: MetricsInterval
+) =>
+  queryOptions({
+    queryKey: ['dashboard', 'metrics', { range, interval }],
+    queryFn: () =>
+      api.get('/dashboard/metrics', {
+        schema: dashboardMetricsSchema,
+        params: { range, interval },
+      }),
+  })
@@ -0,0 +1,47 @@
+import { infiniteQueryOptions, queryOptions } from '@tanstack/react-query'
+import { z } from 'zod'
+import { api } from '../client'
+import {
+  cursorPageSchema,
+  feedPostSchema,
+  postAuthorSchema,
+  postSchema,
+} from '../schemas'
+import type { PostFeedParams } from '@/types'
+
+const FEED_PAGE_SIZE = 10
+
+const feedPageSchema = cursorPageSchema(feedPostSchema)
+
+export const postQueryOptions = (postId: string) =>
+  queryOptions({
+    queryKey: ['posts', postId],
+    queryFn: () => api.get(`/posts/${postId}`, { schema: postSchema }),
+    enabled: !!postId,
+  })
+
+export const postFeedQueryOptions = ({ q, author, from, to }: PostFeedParams) =>
+  infiniteQueryOptions({
+    queryKey: ['posts', 'list', { q, author, from, to }],
+    queryFn: ({ pageParam }) =>
+      api.get('/posts', {
+        schema: feedPageSchema,
+        params: {
+          limit: String(FEED_PAGE_SIZE),
+          ...(pageParam ? { cursor: pageParam } : {}),
+          ...(q ? { q } : {}),
+          ...(author ? { author } : {}),
+          ...(from ? { from } : {}),
+          ...(to ? { to } : {}),
+        },
+      }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  })
+
+// Everyone who has published at least one post, for the feed's author filter
+export const postAuthorsQueryOptions = queryOptions({
+  queryKey: ['posts', 'authors'],
+  queryFn: () =>
+    api.get('/posts/authors', { schema: z.array(postAuthorSchema) }),
+})
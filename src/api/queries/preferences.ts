@@ -0,0 +1,10 @@
+import { queryOptions } from '@tanstack/react-query'
+import { api } from '../client'
+import { userPreferencesSchema } from '../schemas'
+
+export const preferencesQueryOptions = queryOptions({
+  queryKey: ['me', 'preferences'],
+  queryFn: () => api.get('/me/preferences', { schema: userPreferencesSchema }),
+  // Preferences are a nice-to-have; without them the app uses local state
+  retry: false,
+})
@@ -0,0 +1,28 @@
+import { queryOptions } from '@tanstack/react-query'
+import { z } from 'zod'
+import { api } from '../client'
+import {
+  activeSessionSchema,
+  loginHistoryEntrySchema,
+  mfaStatusSchema,
+} from '../schemas'
+
+export const sessionsQueryOptions = queryOptions({
+  queryKey: ['me', 'sessions'],
+  queryFn: () =>
+    api.get('/me/sessions', { schema: z.array(activeSessionSchema) }),
+})
+
+// The most recent sign-in attempts on the account, newest first
+export const loginHistoryQueryOptions = queryOptions({
+  queryKey: ['me', 'login-history'],
+  queryFn: () =>
+    api.get('/me/login-history', {
+      schema: z.array(loginHistoryEntrySchema),
+    }),
+})
+
+export const mfaStatusQueryOptions = queryOptions({
+  queryKey: ['me', 'mfa'],
+  queryFn: () => api.get('/me/mfa', { schema: mfaStatusSchema }),
+})
@@ -1,22 +1,45 @@
-import { queryOptions } from '@tanstack/react-query'
+import { keepPreviousData, queryOptions } from '@tanstack/react-query'
+import { z } from 'zod'
 import { api } from '../client'
-import type { User, Post } from '@/types'
+import { paginatedResponseSchema, postSchema, userSchema } from '../schemas'
+import type { UserListParams } from '@/types'
 
-export const usersQueryOptions = queryOptions({
-  queryKey: ['users'],
-  queryFn: () => api.get<User[]>('/users'),
-})
+const userPageSchema = paginatedResponseSchema(userSchema)
+
+function toSearchParams({ q, role, ...params }: UserListParams) {
+  return {
+    page: String(params.page),
+    pageSize: String(params.pageSize),
+    sort: params.sort,
+    order: params.order,
+    ...(q ? { q } : {}),
+    ...(role ? { role } : {}),
+  }
+}
+
+export const usersQueryOptions = (params: UserListParams) =>
+  queryOptions({
+    queryKey: ['users', 'list', params],
+    queryFn: () =>
+      api.get('/users', {
+        params: toSearchParams(params),
+        schema: userPageSchema,
+      }),
+    // Keep the current page on screen while the next one loads
+    placeholderData: keepPreviousData,
+  })
 
 export const userQueryOptions = (userId: string) =>
   queryOptions({
     queryKey: ['users', userId],
-    queryFn: () => api.get<User>(`/users/${userId}`),
+    queryFn: () => api.get(`/users/${userId}`, { schema: userSchema }),
     enabled: !!userId,
   })
 
 export const userPostsQueryOptions = (userId: string) =>
   queryOptions({
     queryKey: ['users', userId, 'posts'],
-    queryFn: () => api.get<Post[]>(`/users/${userId}/posts`),
+    queryFn: () =>
+      api.get(`/users/${userId}/posts`, { schema: z.array(postSchema) }),
     enabled: !!userId,
   })
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { QueryClient, type InfiniteData } from '@tanstack/react-query'
+import * as Sentry from '@sentry/react'
+import { MockEventSource } from '@/test/mocks/event-source'
+import {
+  applyActivityEvent,
+  connectRealtime,
+  getReconnectDelay,
+  setEventSourceFactory,
+  type RealtimeStatus,
+} from './realtime'
+import type { Activity, CursorPage, DashboardData } from '@/types'
+
+vi.mock('@sentry/react', () => ({ captureException: vi.fn() }))
+
+function makeActivity(overrides: Partial<Activity> = {}): Activity {
+  return {
+    id: 'live-1',
+    type: 'user_registered',
+    description: 'New user registered',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    userId: '9',
+    userName: 'Ada Lovelace',
+    ...overrides,
+  }
+}
+
+type ActivityFeed = InfiniteData<CursorPage<Activity>>
+
+function feed(...items: Activity[]): ActivityFeed {
+  return {
+    pages: [{ data: items, nextCursor: null }],
+    pageParams: [null],
+  }
+}
+
+describe('applyActivityEvent', () => {
+  let queryClient: QueryClient
+
+  beforeEach(() => {
+    queryClient = new QueryClient()
+    queryClient.setQueryData<DashboardData>(['dashboard'], {
+      totalUsers: 10,
+      totalPosts: 20,
+      recentActivity: [makeActivity({ id: 'old' })],
+    })
+  })
+
+  it('updates the dashboard counts and recent activity', () => {
+    applyActivityEvent(queryClient, makeActivity())
+    applyActivityEvent(
+      queryClient,
+      makeActivity({ id: 'live-2', type: 'post_created' })
+    )
+
+    const data = queryClient.getQueryData<DashboardData>(['dashboard'])
+    expect(data?.totalUsers).toBe(11)
+    expect(data?.totalPosts).toBe(21)
+    // The recent list keeps its length, newest first
+    expect(data?.recentActivity.map((a) => a.id)).toEqual(['live-2'])
+  })
+
+  it('ignores events it has already applied', () => {
+    const activity = makeActivity()
+    applyActivityEvent(queryClient, activity)
+    applyActivityEvent(queryClient, activity)
+
+    expect(
+      queryClient.getQueryData<DashboardData>(['dashboard'])?.totalUsers
+    ).toBe(11)
+  })
+
+  it('prepends to activity feeds whose filter matches', () => {
+    const existing = makeActivity({ id: 'old', type: 'post_created' })
+    queryClient.setQueryData(['dashboard', 'activity', {}], feed(existing))
+    queryClient.setQueryData(
+      ['dashboard', 'activity', { type: 'post_created' }],
+      feed(existing)
+    )
+
+    applyActivityEvent(queryClient, makeActivity())
+
+    const ids = (type?: string) =>
+      queryClient
+        .getQueryData<ActivityFeed>([
+          'dashboard',
+          'activity',
+          type ? { type } : {},
+        ])
+        ?.pages[0]?.data.map((a) => a.id)
+    expect(ids()).toEqual(['live-1', 'old'])
+    expect(ids('post_created')).toEqual(['old'])
+  })
+
+  it('invalidates user queries for user events', () => {
+    const invalidate = vi.spyOn(queryClient, 'invalidateQueries')
+
+    applyActivityEvent(queryClient, makeActivity({ type: 'user_deleted' }))
+
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ['users'] })
+  })
+})
+
+describe('connectRealtime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    MockEventSource.reset()
+    setEventSourceFactory((url) => new MockEventSource(url))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function connect() {
+    const statuses: RealtimeStatus[] = []
+    const onActivity = vi.fn()
+    const disconnect = connectRealtime({
+      onActivity,
+      onStatusChange: (status) => statuses.push(status),
+    })
+    return { statuses, onActivity, disconnect }
+  }
+
+  it('forwards parsed activity events', () => {
+    const { statuses, onActivity } = connect()
+    const source = MockEventSource.latest()!
+
+    expect(source.url).toBe('/api/events')
+    source.open()
+    source.emit('activity', makeActivity())
+
+    expect(statuses).toEqual(['connecting', 'connected'])
+    expect(onActivity).toHaveBeenCalledWith(makeActivity())
+  })
+
+  it('reports malformed events and drops them with unknown types', () => {
+    vi.mocked(Sentry.captureException).mockClear()
+    const { onActivity } = connect()
+    const source = MockEventSource.latest()!
+    source.open()
+
+    source.emit('activity', { ...makeActivity(), createdAt: undefined })
+    expect(Sentry.captureException).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'ApiContractError' }),
+      {
+        tags: { endpoint: '/events' },
+        extra: {
+          issues: [
+            { path: 'createdAt', message: expect.any(String) as string },
+          ],
+        },
+      }
+    )
+
+    source.emit('activity', makeActivity({ type: 'comment_added' as never }))
+    expect(Sentry.captureException).toHaveBeenCalledTimes(1)
+
+    source.emit('activity', makeActivity({ id: 'live-2' }))
+    expect(onActivity).toHaveBeenCalledTimes(1)
+    expect(onActivity).toHaveBeenCalledWith(makeActivity({ id: 'live-2' }))
+  })
+
+  it('reconnects with exponential backoff', () => {
+    const { statuses } = connect()
+
+    MockEventSource.latest()!.fail()
+    expect(statuses).toEqual(['connecting', 'reconnecting'])
+    expect(MockEventSource.instances).toHaveLength(1)
+
+    vi.advanceTimersByTime(getReconnectDelay(0))
+    expect(MockEventSource.instances).toHaveLength(2)
+
+    // A second failure in a row waits twice as long
+    MockEventSource.latest()!.fail()
+    vi.advanceTimersByTime(getReconnectDelay(0))
+    expect(MockEventSource.instances).toHaveLength(2)
+    vi.advanceTimersByTime(getReconnectDelay(1) - getReconnectDelay(0))
+    expect(MockEventSource.instances).toHaveLength(3)
+
+    MockEventSource.latest()!.open()
+    expect(statuses[statuses.length - 1]).toBe('connected')
+  })
+
+  it('caps the backoff delay', () => {
+    expect(getReconnectDelay(0)).toBe(1000)
+    expect(getReconnectDelay(3)).toBe(8000)
+    expect(getReconnectDelay(20)).toBe(30000)
+  })
+
+  it('stops reconnecting once disconnected', () => {
+    const { disconnect } = connect()
+    const source = MockEventSource.latest()!
+
+    source.fail()
+    disconnect()
+    vi.advanceTimersByTime(60000)
+
+    expect(source.closed).toBe(true)
+    expect(MockEventSource.instances).toHaveLength(1)
+  })
+})
@@ -0,0 +1,163 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query'
+import { API_BASE_URL, checkContract } from './client'
+import { activitySchema, anyActivitySchema } from './schemas'
+import type { Activity, ActivityType, CursorPage, DashboardData } from '@/types'
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'reconnecting'
+
+// The subset of EventSource the connection uses, so tests and dev:mock can
+// swap in a fake stream
+export interface EventSourceLike {
+  addEventListener: (type: string, listener: (event: Event) => void) => void
+  close: () => void
+}
+
+export type EventSourceFactory = (url: string) => EventSourceLike
+
+export const REALTIME_URL = `${API_BASE_URL}/events`
+export const RECONNECT_BASE_DELAY = 1000
+export const RECONNECT_MAX_DELAY = 1000 * 30
+
+let createEventSource: EventSourceFactory = (url) =>
+  new EventSource(url, { withCredentials: true })
+
+export function setEventSourceFactory(factory: EventSourceFactory) {
+  createEventSource = factory
+}
+
+export function getReconnectDelay(attempt: number) {
+  return Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY)
+}
+
+// Pushed events get the same contract check as responses: a malformed one
+// is reported and dropped. An activity of a type this build doesn't know is
+// dropped quietly, like in the activity lists.
+function parseActivityEvent(data: string): Activity | null {
+  let body: unknown
+  try {
+    body = JSON.parse(data)
+  } catch {
+    body = data
+  }
+  const result = checkContract('/events', anyActivitySchema, body)
+  if ('error' in result) return null
+  const known = activitySchema.safeParse(result.data)
+  return known.success ? known.data : null
+}
+
+interface ConnectOptions {
+  onActivity: (activity: Activity) => void
+  onStatusChange: (status: RealtimeStatus) => void
+}
+
+// Opens the event stream and keeps it open: any error closes the source and
+// schedules a fresh one with exponential backoff. Returns a disconnect
+// function.
+export function connectRealtime({
+  onActivity,
+  onStatusChange,
+}: ConnectOptions) {
+  let source: EventSourceLike | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let attempt = 0
+  let stopped = false
+
+  const open = () => {
+    const current = createEventSource(REALTIME_URL)
+    source = current
+
+    current.addEventListener('open', () => {
+      attempt = 0
+      onStatusChange('connected')
+    })
+
+    current.addEventListener('activity', (event) => {
+      // A malformed event shouldn't take the stream down with it
+      const activity = parseActivityEvent((event as MessageEvent<string>).data)
+      if (activity) onActivity(activity)
+    })
+
+    current.addEventListener('error', () => {
+      // Events from a source we already replaced are stale
+      if (stopped || current !== source) return
+      current.close()
+      onStatusChange('reconnecting')
+      retryTimer = setTimeout(open, getReconnectDelay(attempt))
+      attempt += 1
+    })
+  }
+
+  onStatusChange('connecting')
+  open()
+
+  return () => {
+    stopped = true
+    clearTimeout(retryTimer)
+    source?.close()
+  }
+}
+
+const COUNT_CHANGES: Record<
+  ActivityType,
+  { totalUsers: number; totalPosts: number }
+> = {
+  user_registered: { totalUsers: 1, totalPosts: 0 },
+  user_updated: { totalUsers: 0, totalPosts: 0 },
+  user_deleted: { totalUsers: -1, totalPosts: 0 },
+  post_created: { totalUsers: 0, totalPosts: 1 },
+}
+
+// Writes a pushed event straight into the caches it affects instead of
+// refetching the whole dashboard
+export function applyActivityEvent(
+  queryClient: QueryClient,
+  activity: Activity
+) {
+  const change = COUNT_CHANGES[activity.type]
+
+  queryClient.setQueryData<DashboardData>(['dashboard'], (data) => {
+    if (!data || data.recentActivity.some((a) => a.id === activity.id)) {
+      return data
+    }
+    return {
+      totalUsers: data.totalUsers + change.totalUsers,
+      totalPosts: data.totalPosts + change.totalPosts,
+      recentActivity: [activity, ...data.recentActivity].slice(
+        0,
+        Math.max(data.recentActivity.length, 1)
+      ),
+    }
+  })
+
+  // Each activity filter has its own feed; only prepend where the type fits
+  const feeds = queryClient.getQueriesData<InfiniteData<CursorPage<Activity>>>({
+    queryKey: ['dashboard', 'activity'],
+  })
+  for (const [queryKey, data] of feeds) {
+    const filter = queryKey[2] as { type?: ActivityType } | undefined
+    const [firstPage, ...rest] = data?.pages ?? []
+    if (!data || !firstPage) continue
+    if (filter?.type && filter.type !== activity.type) continue
+    if (firstPage.data.some((a) => a.id === activity.id)) continue
+
+    queryClient.setQueryData<InfiniteData<CursorPage<Activity>>>(queryKey, {
+      ...data,
+      pages: [{ ...firstPage, data: [activity, ...firstPage.data] }, ...rest],
+    })
+  }
+
+  if (change.totalUsers > 0 || change.totalPosts > 0) {
+    void queryClient.invalidateQueries({ queryKey: ['dashboard', 'metrics'] })
+  }
+
+  if (activity.type === 'post_created') {
+    void queryClient.invalidateQueries({ queryKey: ['posts', 'list'] })
+    if (activity.userId) {
+      void queryClient.invalidateQueries({
+        queryKey: ['users', activity.userId, 'posts'],
+      })
+    }
+  } else {
+    void queryClient.invalidateQueries({ queryKey: ['users'] })
+  }
+}
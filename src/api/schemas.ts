@@ -0,0 +1,202 @@
+import { z } from 'zod'
+import {
+  ACTIVITY_TYPES,
+  METRICS_INTERVALS,
+  METRICS_RANGES,
+} from '@/lib/validators/dashboard'
+
+// The contract with the backend. Every response body is parsed with one of
+// these before it reaches the cache, and the types in src/types are inferred
+// from them. Unknown fields are stripped, missing or mistyped ones raise an
+// ApiContractError.
+
+export const roleSchema = z.enum(['admin', 'user'])
+
+// For lists of typed entries (activity, dashboard widgets): entries of a type
+// this build doesn't know are left out, so the server can add a type without
+// breaking older clients. Entries malformed in any other way still fail.
+function knownTypesOnly<Known extends string>(types: readonly Known[]) {
+  return <T extends { type: string }>(entries: T[]) =>
+    entries.filter((entry): entry is T & { type: Known } =>
+      (types as readonly string[]).includes(entry.type)
+    )
+}
+
+export const userSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  role: roleSchema,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+export const postSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  authorId: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+// Feed entries carry the author's name so the list needs no per-post lookups
+export const feedPostSchema = postSchema.extend({
+  authorName: z.string(),
+})
+
+export const postAuthorSchema = userSchema.pick({ id: true, name: true })
+
+export const activityTypeSchema = z.enum(ACTIVITY_TYPES)
+
+export const activitySchema = z.object({
+  id: z.string(),
+  type: activityTypeSchema,
+  // English summary from the server, used when the details below are missing
+  description: z.string(),
+  createdAt: z.string(),
+  userId: z.string().optional(),
+  userName: z.string().optional(),
+  postTitle: z.string().optional(),
+})
+
+// An activity of any type, for checking the rest of an entry on its own
+export const anyActivitySchema = activitySchema.extend({ type: z.string() })
+
+export const activityListSchema = z
+  .array(anyActivitySchema)
+  .transform(knownTypesOnly(ACTIVITY_TYPES))
+
+export const dashboardDataSchema = z.object({
+  totalUsers: z.number(),
+  totalPosts: z.number(),
+  recentActivity: activityListSchema,
+})
+
+export const metricsRangeSchema = z.enum(METRICS_RANGES)
+export const metricsIntervalSchema = z.enum(METRICS_INTERVALS)
+
+// One bucket of the growth charts; `date` is the UTC day the bucket starts
+export const metricsPointSchema = z.object({
+  date: z.string(),
+  signups: z.number(),
+  posts: z.number(),
+})
+
+export const dashboardMetricsSchema = z.object({
+  range: metricsRangeSchema,
+  interval: metricsIntervalSchema,
+  points: z.array(metricsPointSchema),
+})
+
+export const widgetTypeSchema = z.enum([
+  'totalUsers',
+  'totalPosts',
+  'metrics',
+  'activity',
+  'quickLinks',
+])
+export const widgetSizeSchema = z.enum(['small', 'medium', 'large'])
+
+// Each widget type appears at most once, so the type doubles as its id
+export const dashboardWidgetSchema = z.object({
+  type: widgetTypeSchema,
+  size: widgetSizeSchema,
+})
+
+export const userPreferencesSchema = z.object({
+  dashboardLayout: z
+    .array(dashboardWidgetSchema.extend({ type: z.string() }))
+    .transform(knownTypesOnly(widgetTypeSchema.options))
+    .nullable(),
+})
+
+// `verified` is false until the user opens the link emailed at sign-up
+export const authUserSchema = userSchema
+  .pick({
+    id: true,
+    name: true,
+    email: true,
+    role: true,
+  })
+  .extend({ verified: z.boolean() })
+
+export const authResponseSchema = z.object({
+  token: z.string(),
+  user: authUserSchema,
+})
+
+// Sent instead of a token when the account has two-factor authentication on.
+// The challenge token is exchanged for a session at /auth/mfa/verify.
+export const mfaChallengeSchema = z.object({
+  status: z.literal('mfa_required'),
+  challengeToken: z.string(),
+})
+
+export const loginResponseSchema = z.union([
+  authResponseSchema,
+  mfaChallengeSchema,
+])
+
+// A single sign-on session also carries the provider's ID token, so the
+// browser can check it was issued for the nonce it sent
+export const ssoResponseSchema = authResponseSchema.extend({
+  idToken: z.string(),
+})
+
+export const mfaStatusSchema = z.object({
+  enabled: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+})
+
+// A secret waiting for its first code. `otpauthUrl` is what the QR code
+// encodes.
+export const mfaSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+})
+
+// Shown once, when two-factor authentication is turned on
+export const recoveryCodesSchema = z.object({
+  recoveryCodes: z.array(z.string()),
+})
+
+export const tokenResponseSchema = z.object({
+  token: z.string(),
+})
+
+// A signed-in browser or device. `current` marks the one making the request.
+export const activeSessionSchema = z.object({
+  id: z.string(),
+  device: z.string(),
+  ipAddress: z.string(),
+  location: z.string().nullable(),
+  createdAt: z.string(),
+  lastActiveAt: z.string(),
+  current: z.boolean(),
+})
+
+// One sign-in attempt, successful or not
+export const loginHistoryEntrySchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  device: z.string(),
+  ipAddress: z.string(),
+  location: z.string().nullable(),
+  success: z.boolean(),
+})
+
+export const paginatedResponseSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    total: z.number(),
+    page: z.number(),
+    pageSize: z.number(),
+  })
+
+export const cursorPageSchema = <T extends z.ZodType>(item: T) =>
+  z.object({
+    data: z.array(item),
+    // Opaque token for the next page, or null on the last one
+    nextCursor: z.string().nullable(),
+  })
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '@/test/mocks/server'
+import { useAuthStore } from '@/stores/authStore'
+import { restoreSession } from './session'
+
+const user = {
+  id: '1',
+  name: 'Test User',
+  email: 'test@example.com',
+  role: 'admin' as const,
+  verified: true,
+}
+
+describe('restoreSession', () => {
+  beforeEach(() => {
+    // Mirrors a reload: the persisted user survives but the token does not
+    useAuthStore.setState({ token: null, user, isAuthenticated: false })
+  })
+
+  it('hydrates the store from the session cookie', async () => {
+    server.use(
+      http.get('/api/auth/session', () =>
+        HttpResponse.json({ token: 'restored-token', user })
+      )
+    )
+
+    await restoreSession()
+
+    const state = useAuthStore.getState()
+    expect(state.token).toBe('restored-token')
+    expect(state.user).toEqual(user)
+    expect(state.isAuthenticated).toBe(true)
+  })
+
+  it('clears the stale user when there is no session', async () => {
+    server.use(
+      http.get('/api/auth/session', () =>
+        HttpResponse.json({ message: 'No active session' }, { status: 401 })
+      )
+    )
+
+    await restoreSession()
+
+    const state = useAuthStore.getState()
+    expect(state.token).toBeNull()
+    expect(state.user).toBeNull()
+    expect(state.isAuthenticated).toBe(false)
+  })
+})
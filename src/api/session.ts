@@ -0,0 +1,19 @@
+import { api } from './client'
+import { authResponseSchema } from './schemas'
+import { useAuthStore } from '@/stores/authStore'
+
+// The access token only lives in memory, so after a reload the store has a
+// persisted user but no token. Exchange the HttpOnly session cookie for a
+// fresh token before the router runs its guards; if that fails, clear the
+// stale user so the app isn't left half logged in.
+export async function restoreSession() {
+  try {
+    const { token, user } = await api.get('/auth/session', {
+      credentials: 'include',
+      schema: authResponseSchema,
+    })
+    useAuthStore.getState().setAuth(token, user)
+  } catch {
+    useAuthStore.getState().logout()
+  }
+}
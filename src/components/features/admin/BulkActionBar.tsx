@@ -0,0 +1,90 @@
+import { useTranslation } from 'react-i18next'
+import { Download, Trash2, UserCog, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { Role } from '@/types'
+
+interface BulkActionBarProps {
+  count: number
+  onChangeRole: (role: Role) => void
+  onExport: () => void
+  onDelete: () => void
+  onClear: () => void
+  disabled?: boolean
+}
+
+export function BulkActionBar({
+  count,
+  onChangeRole,
+  onExport,
+  onDelete,
+  onClear,
+  disabled,
+}: BulkActionBarProps) {
+  const { t } = useTranslation('users')
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={t('admin.bulk.toolbar')}
+      className="bg-muted/50 flex flex-wrap items-center gap-2 rounded-md border p-2"
+    >
+      <span className="px-2 text-sm font-medium">
+        {t('admin.bulk.selected', { count })}
+      </span>
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <UserCog className="mr-1 h-4 w-4" aria-hidden />
+              {t('admin.bulk.changeRole')}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => {
+                onChangeRole('admin')
+              }}
+            >
+              {t('admin.form.roleAdmin')}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => {
+                onChangeRole('user')
+              }}
+            >
+              {t('admin.form.roleUser')}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onExport}
+          disabled={disabled}
+        >
+          <Download className="mr-1 h-4 w-4" aria-hidden />
+          {t('admin.bulk.export')}
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={onDelete}
+          disabled={disabled}
+        >
+          <Trash2 className="mr-1 h-4 w-4" aria-hidden />
+          {t('admin.bulk.delete')}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="mr-1 h-4 w-4" aria-hidden />
+          {t('admin.bulk.clear')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { useTranslation } from 'react-i18next'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { Role } from '@/types'
+
+export type BulkAction = { type: 'delete' } | { type: 'role'; role: Role }
+
+interface BulkConfirmDialogProps {
+  action: BulkAction | null
+  count: number
+  onOpenChange: (open: boolean) => void
+  onConfirm: () => void
+  isLoading?: boolean
+}
+
+export function BulkConfirmDialog({
+  action,
+  count,
+  onOpenChange,
+  onConfirm,
+  isLoading,
+}: BulkConfirmDialogProps) {
+  const { t } = useTranslation('users')
+  const { t: tCommon } = useTranslation('common')
+
+  if (!action) return null
+
+  const roleLabel =
+    action.type === 'role'
+      ? action.role === 'admin'
+        ? t('admin.form.roleAdmin')
+        : t('admin.form.roleUser')
+      : ''
+
+  return (
+    <AlertDialog open onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {action.type === 'delete'
+              ? t('admin.bulk.deleteTitle', { count })
+              : t('admin.bulk.roleTitle', { count })}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action.type === 'delete'
+              ? t('admin.bulk.deleteDescription', { count })
+              : t('admin.bulk.roleDescription', { count, role: roleLabel })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>
+            {tCommon('actions.cancel')}
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(event) => {
+              // Stay open while the batch runs so progress stays visible
+              event.preventDefault()
+              onConfirm()
+            }}
+            disabled={isLoading}
+          >
+            {isLoading
+              ? t('admin.bulk.working')
+              : action.type === 'delete'
+                ? t('admin.bulk.delete')
+                : t('admin.bulk.applyRole')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,64 @@
+import { useTranslation } from 'react-i18next'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import type { BulkUserResult } from '@/api/mutations/users'
+
+interface BulkResultDialogProps {
+  result: BulkUserResult | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function BulkResultDialog({
+  result,
+  onOpenChange,
+}: BulkResultDialogProps) {
+  const { t } = useTranslation('users')
+  const { t: tCommon } = useTranslation('common')
+
+  if (!result) return null
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('admin.bulk.resultTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('admin.bulk.resultSummary', {
+              succeeded: result.succeeded.length,
+              failed: result.failed.length,
+            })}
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="max-h-64 space-y-2 overflow-y-auto text-sm">
+          {result.failed.map(({ user, error }) => (
+            <li key={user.id} className="rounded-md border p-2">
+              <p className="font-medium">
+                {user.name}{' '}
+                <span className="text-muted-foreground font-normal">
+                  ({user.email})
+                </span>
+              </p>
+              <p className="text-destructive">{error.message}</p>
+            </li>
+          ))}
+        </ul>
+        <DialogFooter>
+          <Button
+            onClick={() => {
+              onOpenChange(false)
+            }}
+          >
+            {tCommon('actions.close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
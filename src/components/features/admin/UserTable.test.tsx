@@ -66,7 +66,7 @@ describe('UserTable', () => {
     )
 
     const actionButtons = screen.getAllByRole('button', { name: /actions/i })
-    await user.click(actionButtons[0])
+    await user.click(actionButtons[0]!)
 
     const editItem = screen.getByText('Edit')
     await user.click(editItem)
@@ -84,11 +84,99 @@ describe('UserTable', () => {
     )
 
     const actionButtons = screen.getAllByRole('button', { name: /actions/i })
-    await user.click(actionButtons[0])
+    await user.click(actionButtons[0]!)
 
     const deleteItem = screen.getByText('Delete')
     await user.click(deleteItem)
 
     expect(mockOnDelete).toHaveBeenCalledWith(mockUsers[0])
   })
+
+  it('shows an empty state when there are no users', () => {
+    render(<UserTable users={[]} onEdit={mockOnEdit} onDelete={mockOnDelete} />)
+
+    expect(screen.getByText('No users match your filters.')).toBeInTheDocument()
+  })
+
+  it('requests the next sort order when a header is clicked', async () => {
+    const onSortChange = vi.fn()
+    const { user } = render(
+      <UserTable
+        users={mockUsers}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        sorting={{ sort: 'name', order: 'asc', onSortChange }}
+      />
+    )
+
+    expect(screen.getByRole('columnheader', { name: /name/i })).toHaveAttribute(
+      'aria-sort',
+      'ascending'
+    )
+
+    await user.click(screen.getByRole('button', { name: /name/i }))
+    expect(onSortChange).toHaveBeenCalledWith('name', 'desc')
+
+    await user.click(screen.getByRole('button', { name: /email/i }))
+    expect(onSortChange).toHaveBeenCalledWith('email', 'asc')
+  })
+
+  it('renders pagination and pages forward', async () => {
+    const onPageChange = vi.fn()
+    const { user } = render(
+      <UserTable
+        users={mockUsers}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        pagination={{
+          page: 1,
+          pageSize: 10,
+          total: 25,
+          onPageChange,
+          onPageSizeChange: vi.fn(),
+        }}
+      />
+    )
+
+    expect(screen.getByText('Showing 1–10 of 25')).toBeInTheDocument()
+    expect(screen.getByText('Page 1 of 3')).toBeInTheDocument()
+    expect(
+      screen.getByRole('button', { name: /previous page/i })
+    ).toBeDisabled()
+
+    await user.click(screen.getByRole('button', { name: /next page/i }))
+    expect(onPageChange).toHaveBeenCalledWith(2)
+  })
+
+  it('marks the page checkbox as partially selected and toggles rows', async () => {
+    const onToggle = vi.fn()
+    const onTogglePage = vi.fn()
+    const { user } = render(
+      <UserTable
+        users={mockUsers}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        selection={{
+          selectedIds: new Set(['1']),
+          allMatching: false,
+          onToggle,
+          onTogglePage,
+        }}
+      />
+    )
+
+    const pageCheckbox = screen.getByRole('checkbox', {
+      name: 'Select all users on this page',
+    })
+    expect(pageCheckbox).toHaveAttribute('aria-checked', 'mixed')
+    expect(
+      screen.getByRole('checkbox', { name: 'Select Alice Smith' })
+    ).toBeChecked()
+
+    await user.click(screen.getByRole('checkbox', { name: 'Select Bob Jones' }))
+    expect(onToggle).toHaveBeenCalledWith(mockUsers[1], true)
+
+    await user.click(pageCheckbox)
+    expect(onTogglePage).toHaveBeenCalledWith(mockUsers, true)
+  })
 })
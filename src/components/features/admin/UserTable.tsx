@@ -1,5 +1,13 @@
+import { useId } from 'react'
 import { useTranslation } from 'react-i18next'
-import { MoreHorizontal } from 'lucide-react'
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  MoreHorizontal,
+} from 'lucide-react'
 import {
   Table,
   TableBody,
@@ -9,76 +17,311 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import type { User } from '@/types'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { USER_PAGE_SIZES } from '@/lib/validators/user'
+import { cn } from '@/lib/utils'
+import type { SortOrder, User, UserListParams } from '@/types'
+
+type SortField = UserListParams['sort']
+
+interface UserTableSorting {
+  sort: SortField
+  order: SortOrder
+  onSortChange: (sort: SortField, order: SortOrder) => void
+}
+
+interface UserTablePagination {
+  page: number
+  pageSize: number
+  total: number
+  onPageChange: (page: number) => void
+  onPageSizeChange: (pageSize: number) => void
+}
+
+interface UserTableSelection {
+  selectedIds: ReadonlySet<string>
+  // Every user matching the filters is selected, including other pages
+  allMatching: boolean
+  onToggle: (user: User, checked: boolean) => void
+  onTogglePage: (users: User[], checked: boolean) => void
+}
 
 interface UserTableProps {
   users: User[]
   onEdit: (user: User) => void
   onDelete: (user: User) => void
+  sorting?: UserTableSorting
+  pagination?: UserTablePagination
+  selection?: UserTableSelection
+  // True while a new page is loading behind the previous one
+  isFetching?: boolean
 }
 
-export function UserTable({ users, onEdit, onDelete }: UserTableProps) {
+export function UserTable({
+  users,
+  onEdit,
+  onDelete,
+  sorting,
+  pagination,
+  selection,
+  isFetching,
+}: UserTableProps) {
   const { t } = useTranslation('users')
   const { t: tCommon } = useTranslation('common')
 
+  const isSelected = (user: User) =>
+    !!selection && (selection.allMatching || selection.selectedIds.has(user.id))
+  const selectedOnPage = users.filter(isSelected).length
+  const pageChecked =
+    selectedOnPage === 0
+      ? false
+      : selectedOnPage === users.length
+        ? true
+        : 'indeterminate'
+  const columnCount = selection ? 6 : 5
+
   return (
-    <Table>
-      <TableHeader>
-        <TableRow>
-          <TableHead>{t('admin.table.name')}</TableHead>
-          <TableHead>{t('admin.table.email')}</TableHead>
-          <TableHead>{t('admin.table.role')}</TableHead>
-          <TableHead>{t('admin.table.createdAt')}</TableHead>
-          <TableHead className="w-[70px]">{t('admin.table.actions')}</TableHead>
-        </TableRow>
-      </TableHeader>
-      <TableBody>
-        {users.map((user) => (
-          <TableRow key={user.id}>
-            <TableCell className="font-medium">{user.name}</TableCell>
-            <TableCell>{user.email}</TableCell>
-            <TableCell className="capitalize">{user.role}</TableCell>
-            <TableCell>
-              {new Date(user.createdAt).toLocaleDateString()}
-            </TableCell>
-            <TableCell>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    aria-label={t('admin.table.actions')}
-                  >
-                    <MoreHorizontal className="h-4 w-4" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end">
-                  <DropdownMenuItem
-                    onClick={() => {
-                      onEdit(user)
-                    }}
-                  >
-                    {tCommon('actions.edit')}
-                  </DropdownMenuItem>
-                  <DropdownMenuItem
-                    onClick={() => {
-                      onDelete(user)
-                    }}
-                  >
-                    {tCommon('actions.delete')}
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </TableCell>
+    <div>
+      <Table
+        aria-busy={isFetching}
+        className={cn('transition-opacity', isFetching && 'opacity-60')}
+      >
+        <TableHeader>
+          <TableRow>
+            {selection && (
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={pageChecked}
+                  disabled={users.length === 0}
+                  onCheckedChange={(checked) => {
+                    selection.onTogglePage(users, checked === true)
+                  }}
+                  aria-label={t('admin.bulk.selectPage')}
+                />
+              </TableHead>
+            )}
+            <SortableHead field="name" sorting={sorting}>
+              {t('admin.table.name')}
+            </SortableHead>
+            <SortableHead field="email" sorting={sorting}>
+              {t('admin.table.email')}
+            </SortableHead>
+            <SortableHead field="role" sorting={sorting}>
+              {t('admin.table.role')}
+            </SortableHead>
+            <SortableHead field="createdAt" sorting={sorting}>
+              {t('admin.table.createdAt')}
+            </SortableHead>
+            <TableHead className="w-[70px]">
+              {t('admin.table.actions')}
+            </TableHead>
           </TableRow>
-        ))}
-      </TableBody>
-    </Table>
+        </TableHeader>
+        <TableBody>
+          {users.length === 0 && (
+            <TableRow>
+              <TableCell
+                colSpan={columnCount}
+                className="text-muted-foreground h-24 text-center"
+              >
+                {t('admin.table.empty')}
+              </TableCell>
+            </TableRow>
+          )}
+          {users.map((user) => (
+            <TableRow
+              key={user.id}
+              data-state={isSelected(user) ? 'selected' : undefined}
+            >
+              {selection && (
+                <TableCell>
+                  <Checkbox
+                    checked={isSelected(user)}
+                    onCheckedChange={(checked) => {
+                      selection.onToggle(user, checked === true)
+                    }}
+                    aria-label={t('admin.bulk.selectRow', { name: user.name })}
+                  />
+                </TableCell>
+              )}
+              <TableCell className="font-medium">{user.name}</TableCell>
+              <TableCell>{user.email}</TableCell>
+              <TableCell className="capitalize">{user.role}</TableCell>
+              <TableCell>
+                {new Date(user.createdAt).toLocaleDateString()}
+              </TableCell>
+              <TableCell>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={t('admin.table.actions')}
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={() => {
+                        onEdit(user)
+                      }}
+                    >
+                      {tCommon('actions.edit')}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => {
+                        onDelete(user)
+                      }}
+                    >
+                      {tCommon('actions.delete')}
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {pagination && <UserTablePaginationBar {...pagination} />}
+    </div>
+  )
+}
+
+interface SortableHeadProps {
+  field: SortField
+  sorting: UserTableSorting | undefined
+  children: React.ReactNode
+}
+
+function SortableHead({ field, sorting, children }: SortableHeadProps) {
+  if (!sorting) return <TableHead>{children}</TableHead>
+
+  const isActive = sorting.sort === field
+  // A new column starts ascending; the active column flips direction
+  const nextOrder: SortOrder =
+    isActive && sorting.order === 'asc' ? 'desc' : 'asc'
+  const Icon = !isActive
+    ? ArrowUpDown
+    : sorting.order === 'asc'
+      ? ArrowUp
+      : ArrowDown
+
+  return (
+    <TableHead
+      aria-sort={
+        isActive
+          ? sorting.order === 'asc'
+            ? 'ascending'
+            : 'descending'
+          : undefined
+      }
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-3 h-8"
+        onClick={() => {
+          sorting.onSortChange(field, nextOrder)
+        }}
+      >
+        {children}
+        <Icon
+          className={cn('ml-1 h-3.5 w-3.5', !isActive && 'opacity-50')}
+          aria-hidden
+        />
+      </Button>
+    </TableHead>
+  )
+}
+
+function UserTablePaginationBar({
+  page,
+  pageSize,
+  total,
+  onPageChange,
+  onPageSizeChange,
+}: UserTablePagination) {
+  const { t } = useTranslation('users')
+  const pageSizeLabelId = useId()
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+  const from = total === 0 ? 0 : (page - 1) * pageSize + 1
+  const to = Math.min(page * pageSize, total)
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 py-4">
+      <p className="text-muted-foreground text-sm">
+        {t('pagination.showing', { from, to, total })}
+      </p>
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span id={pageSizeLabelId} className="text-sm">
+            {t('pagination.rowsPerPage')}
+          </span>
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => {
+              onPageSizeChange(Number(value))
+            }}
+          >
+            <SelectTrigger
+              className="h-8 w-[72px]"
+              aria-labelledby={pageSizeLabelId}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <span className="text-sm">
+          {t('pagination.pageOf', { page, pageCount })}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={page <= 1}
+            onClick={() => {
+              onPageChange(page - 1)
+            }}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">{t('pagination.previous')}</span>
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            disabled={page >= pageCount}
+            onClick={() => {
+              onPageChange(page + 1)
+            }}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">{t('pagination.next')}</span>
+          </Button>
+        </div>
+      </div>
+    </div>
   )
 }
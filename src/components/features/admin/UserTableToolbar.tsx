@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Search } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Role } from '@/types'
+
+const SEARCH_DEBOUNCE_MS = 300
+const ALL_ROLES = 'all'
+
+interface UserTableToolbarProps {
+  q: string
+  role: Role | undefined
+  onSearchChange: (q: string) => void
+  onRoleChange: (role: Role | undefined) => void
+}
+
+export function UserTableToolbar({
+  q,
+  role,
+  onSearchChange,
+  onRoleChange,
+}: UserTableToolbarProps) {
+  const { t } = useTranslation('users')
+  const [search, setSearch] = useState(q)
+  const [prevQ, setPrevQ] = useState(q)
+
+  // Keep the input in sync when the URL changes underneath it (e.g. back
+  // navigation), and only push typing to the URL once it settles
+  if (q !== prevQ) {
+    setPrevQ(q)
+    setSearch(q)
+  }
+
+  useEffect(() => {
+    if (search === q) return
+    const timeout = setTimeout(() => {
+      onSearchChange(search)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timeout)
+    }
+  }, [search, q, onSearchChange])
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-full max-w-sm">
+        <Search
+          className="text-muted-foreground absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2"
+          aria-hidden
+        />
+        <Input
+          type="search"
+          value={search}
+          onChange={(event) => {
+            setSearch(event.target.value)
+          }}
+          placeholder={t('admin.filters.searchPlaceholder')}
+          aria-label={t('admin.filters.search')}
+          className="pl-8"
+        />
+      </div>
+      <Select
+        value={role ?? ALL_ROLES}
+        onValueChange={(value) => {
+          onRoleChange(value === ALL_ROLES ? undefined : (value as Role))
+        }}
+      >
+        <SelectTrigger
+          className="w-[140px]"
+          aria-label={t('admin.filters.role')}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_ROLES}>
+            {t('admin.filters.allRoles')}
+          </SelectItem>
+          <SelectItem value="admin">{t('admin.form.roleAdmin')}</SelectItem>
+          <SelectItem value="user">{t('admin.form.roleUser')}</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen } from '@/test/test-utils'
+import { db } from '@/test/mocks/db'
+import { useAuthStore } from '@/stores/authStore'
+import { EmailVerificationBanner } from './EmailVerificationBanner'
+
+function signIn(verified: boolean) {
+  if (!verified) db.unverifiedUsers.add('2')
+  useAuthStore.getState().setAuth('mock-jwt-token.2', {
+    id: '2',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    role: 'user',
+    verified,
+  })
+}
+
+describe('EmailVerificationBanner', () => {
+  afterEach(() => {
+    useAuthStore.getState().logout()
+  })
+
+  it('stays out of the way once the email is verified', () => {
+    signIn(true)
+    render(<EmailVerificationBanner />)
+
+    expect(
+      screen.queryByRole('region', { name: 'Email verification' })
+    ).not.toBeInTheDocument()
+  })
+
+  it('resends the link and locks the button for a minute', async () => {
+    signIn(false)
+    const { user } = render(<EmailVerificationBanner />)
+
+    expect(
+      screen.getByRole('region', { name: 'Email verification' })
+    ).toHaveTextContent('We sent a link to jane@example.com.')
+    await user.click(screen.getByRole('button', { name: 'Resend email' }))
+
+    expect(
+      await screen.findByRole('button', { name: /^Resend in \d+ seconds$/ })
+    ).toBeDisabled()
+    expect(db.outbox[db.outbox.length - 1]).toMatchObject({
+      to: 'jane@example.com',
+      subject: 'Verify your email address',
+    })
+  })
+
+  it('picks up the wait from the server when an email went out recently', async () => {
+    signIn(false)
+    db.verificationSentAt.set('2', Date.now() - 30_000)
+    const { user } = render(<EmailVerificationBanner />)
+
+    await user.click(screen.getByRole('button', { name: 'Resend email' }))
+
+    expect(
+      await screen.findByRole('button', { name: /^Resend in (29|30) seconds$/ })
+    ).toBeDisabled()
+    expect(db.outbox).toEqual([])
+  })
+})
@@ -0,0 +1,26 @@
+import { useTranslation } from 'react-i18next'
+import { MailWarning } from 'lucide-react'
+import { useAuthStore } from '@/stores/authStore'
+import { ResendVerificationButton } from './ResendVerificationButton'
+
+// Stays on every page until the account's email address is confirmed
+export function EmailVerificationBanner() {
+  const { t } = useTranslation('auth')
+  const user = useAuthStore((s) => s.user)
+
+  if (!user || user.verified) return null
+
+  return (
+    <div
+      role="region"
+      aria-label={t('emailVerification.bannerLabel')}
+      className="flex flex-wrap items-center justify-between gap-2 border-b border-amber-500/30 bg-amber-500/10 px-4 py-2 text-sm"
+    >
+      <p className="flex items-center gap-2">
+        <MailWarning className="h-4 w-4 shrink-0" aria-hidden />
+        {t('emailVerification.banner', { email: user.email })}
+      </p>
+      <ResendVerificationButton variant="outline" size="sm" />
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { useTranslation } from 'react-i18next'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+
+interface IdleTimeoutDialogProps {
+  open: boolean
+  remainingSeconds: number
+  onStaySignedIn: () => void
+  onSignOut: () => void
+}
+
+export function IdleTimeoutDialog({
+  open,
+  remainingSeconds,
+  onStaySignedIn,
+  onSignOut,
+}: IdleTimeoutDialogProps) {
+  const { t } = useTranslation('auth')
+
+  return (
+    // Open state is driven by the idle timer, so only the buttons respond
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('idleTimeout.title')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('idleTimeout.description', { count: remainingSeconds })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onStaySignedIn}>
+            {t('idleTimeout.staySignedIn')}
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={onSignOut}>
+            {t('idleTimeout.signOut')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ApiError } from '@/api/client'
+import { useResendVerificationEmail } from '@/api/mutations/auth'
+import { Button, type ButtonProps } from '@/components/ui/button'
+import { useNow } from '@/hooks/use-now'
+import { isApiErrorResponse } from '@/lib/form-errors'
+import { toast } from '@/lib/toast'
+import { useAuthStore } from '@/stores/authStore'
+
+// Matches the server's limit, so the button is locked for as long as a
+// resend would be refused anyway
+const RESEND_COOLDOWN_MS = 60 * 1000
+
+type ResendVerificationButtonProps = Pick<
+  ButtonProps,
+  'variant' | 'size' | 'className'
+>
+
+export function ResendVerificationButton(props: ResendVerificationButtonProps) {
+  const { t } = useTranslation('auth')
+  const email = useAuthStore((s) => s.user?.email)
+  const updateUser = useAuthStore((s) => s.updateUser)
+  const resend = useResendVerificationEmail()
+  const now = useNow(1000)
+  const [availableAt, setAvailableAt] = useState(0)
+  const secondsLeft = Math.floor((availableAt - now) / 1000)
+
+  const handleResend = () => {
+    resend.mutate(undefined, {
+      onSuccess: () => {
+        setAvailableAt(Date.now() + RESEND_COOLDOWN_MS)
+        toast.success(t('emailVerification.resent', { email }))
+      },
+      onError: (error) => {
+        const data =
+          error instanceof ApiError && isApiErrorResponse(error.data)
+            ? error.data
+            : undefined
+        // Another tab or the verify page may have sent one already
+        if (data?.retryAfter) {
+          setAvailableAt(Date.now() + data.retryAfter * 1000)
+          toast.error(t('emailVerification.rateLimited'))
+        } else if (data?.code === 'email_already_verified') {
+          updateUser({ verified: true })
+        } else {
+          toast.error(t('emailVerification.resendFailed'))
+        }
+      },
+    })
+  }
+
+  return (
+    <Button
+      {...props}
+      onClick={handleResend}
+      disabled={resend.isPending || secondsLeft > 0}
+    >
+      {resend.isPending
+        ? t('emailVerification.resending')
+        : secondsLeft > 0
+          ? t('emailVerification.resendIn', { count: secondsLeft })
+          : t('emailVerification.resend')}
+    </Button>
+  )
+}
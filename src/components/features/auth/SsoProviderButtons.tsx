@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { KeyRound } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  createAuthorizationUrl,
+  getSsoProviders,
+  type SsoProvider,
+} from '@/lib/sso'
+import { toast } from '@/lib/toast'
+
+interface SsoProviderButtonsProps {
+  // Where to go once the provider sends the user back signed in
+  redirect?: string
+}
+
+// One button per configured identity provider, with a divider before the
+// password form. Renders nothing when single sign-on isn't set up.
+export function SsoProviderButtons({ redirect }: SsoProviderButtonsProps) {
+  const { t } = useTranslation('auth')
+  const [startingId, setStartingId] = useState<string | null>(null)
+  const providers = getSsoProviders()
+
+  if (providers.length === 0) return null
+
+  const handleStart = async (provider: SsoProvider) => {
+    setStartingId(provider.id)
+    try {
+      window.location.assign(await createAuthorizationUrl(provider, redirect))
+    } catch {
+      setStartingId(null)
+      toast.error(t('sso.startFailed'))
+    }
+  }
+
+  return (
+    <div className="mb-4 space-y-4">
+      {providers.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          disabled={startingId !== null}
+          onClick={() => void handleStart(provider)}
+        >
+          <KeyRound className="mr-2 h-4 w-4" aria-hidden />
+          {startingId === provider.id
+            ? t('sso.redirecting')
+            : t('sso.continueWith', { provider: provider.name })}
+        </Button>
+      ))}
+      <div className="text-muted-foreground flex items-center gap-3 text-xs uppercase">
+        <span className="bg-border h-px flex-1" />
+        {t('sso.or')}
+        <span className="bg-border h-px flex-1" />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import type { ReactNode } from 'react'
+import { describe, it, expect, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { render, screen, within } from '@/test/test-utils'
+import { server } from '@/test/mocks/server'
+import { ActivityFeed } from './ActivityFeed'
+import type { Activity, CursorPage } from '@/types'
+
+vi.mock('@tanstack/react-router', () => ({
+  Link: ({
+    params,
+    children,
+    className,
+  }: {
+    params: { userId: string }
+    children: ReactNode
+    className?: string
+  }) => (
+    <a href={`/users/${params.userId}`} className={className}>
+      {children}
+    </a>
+  ),
+}))
+
+const firstPage: Activity[] = [
+  {
+    id: 'a1',
+    type: 'user_registered',
+    description: 'New user registered',
+    createdAt: new Date().toISOString(),
+    userId: '7',
+    userName: 'Grace Hopper',
+  },
+  {
+    id: 'a2',
+    type: 'user_deleted',
+    description: 'User removed',
+    createdAt: new Date().toISOString(),
+    userId: '8',
+    userName: 'Old Account',
+  },
+]
+
+const secondPage: Activity[] = [
+  {
+    id: 'a3',
+    type: 'post_created',
+    description: 'New post published',
+    createdAt: new Date().toISOString(),
+    userId: '7',
+    userName: 'Grace Hopper',
+    postTitle: 'Compilers',
+  },
+]
+
+function mockActivity() {
+  const requests: URL[] = []
+  server.use(
+    http.get('/api/dashboard/activity', ({ request }) => {
+      const url = new URL(request.url)
+      requests.push(url)
+      const page: CursorPage<Activity> =
+        url.searchParams.get('cursor') === 'a2'
+          ? { data: secondPage, nextCursor: null }
+          : { data: firstPage, nextCursor: 'a2' }
+      return HttpResponse.json(page)
+    })
+  )
+  return requests
+}
+
+describe('ActivityFeed', () => {
+  it('renders localized descriptions and links to the user', async () => {
+    mockActivity()
+    render(<ActivityFeed type={undefined} onTypeChange={vi.fn()} />)
+
+    const link = await screen.findByRole('link', {
+      name: 'Grace Hopper joined',
+    })
+    expect(link).toHaveAttribute('href', '/users/7')
+
+    // Removed users have no page to link to
+    expect(screen.getByText('Old Account was removed')).toBeInTheDocument()
+    expect(
+      screen.queryByRole('link', { name: 'Old Account was removed' })
+    ).not.toBeInTheDocument()
+    expect(screen.getAllByText('now')).toHaveLength(2)
+  })
+
+  it('loads the next page with the cursor', async () => {
+    mockActivity()
+    const { user } = render(
+      <ActivityFeed type={undefined} onTypeChange={vi.fn()} />
+    )
+
+    await user.click(await screen.findByRole('button', { name: 'Load more' }))
+
+    const list = screen.getByRole('list')
+    expect(
+      await within(list).findByText('Grace Hopper published "Compilers"')
+    ).toBeInTheDocument()
+    expect(within(list).getAllByRole('listitem')).toHaveLength(3)
+    expect(
+      screen.queryByRole('button', { name: 'Load more' })
+    ).not.toBeInTheDocument()
+  })
+
+  it('requests only the selected activity type', async () => {
+    const requests = mockActivity()
+    render(<ActivityFeed type="post_created" onTypeChange={vi.fn()} />)
+
+    await screen.findByText('Grace Hopper joined')
+    expect(requests[0]?.searchParams.get('type')).toBe('post_created')
+  })
+})
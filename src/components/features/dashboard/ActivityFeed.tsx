@@ -0,0 +1,174 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { Link } from '@tanstack/react-router'
+import {
+  FileText,
+  UserMinus,
+  UserPen,
+  UserPlus,
+  type LucideIcon,
+} from 'lucide-react'
+import { activityQueryOptions } from '@/api/queries/dashboard'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useNow } from '@/hooks/use-now'
+import { formatRelativeTime } from '@/lib/format'
+import { ACTIVITY_TYPES } from '@/lib/validators/dashboard'
+import type { Activity, ActivityType } from '@/types'
+
+const ALL_TYPES = 'all'
+
+const ACTIVITY_ICONS: Record<ActivityType, LucideIcon> = {
+  user_registered: UserPlus,
+  user_updated: UserPen,
+  user_deleted: UserMinus,
+  post_created: FileText,
+}
+
+// Entries that introduce a user or their content link to the user's page,
+// and a deletion has nothing left to link to. Only the type is checked, so
+// an older entry about a user deleted since still links, to a not-found page.
+const LINKED_TYPES: readonly ActivityType[] = [
+  'user_registered',
+  'post_created',
+]
+
+interface ActivityFeedProps {
+  type: ActivityType | undefined
+  onTypeChange: (type: ActivityType | undefined) => void
+}
+
+export function ActivityFeed({ type, onTypeChange }: ActivityFeedProps) {
+  const { t } = useTranslation('dashboard')
+  const headingId = useId()
+  const now = useNow()
+  const activityQuery = useInfiniteQuery(activityQueryOptions(type))
+  const items = activityQuery.data?.pages.flatMap((page) => page.data) ?? []
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-4">
+        <h2 id={headingId} className="text-lg font-semibold">
+          {t('activity.title')}
+        </h2>
+        <Select
+          value={type ?? ALL_TYPES}
+          onValueChange={(value) => {
+            onTypeChange(
+              value === ALL_TYPES ? undefined : (value as ActivityType)
+            )
+          }}
+        >
+          <SelectTrigger
+            className="w-[180px]"
+            aria-label={t('activity.filter')}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>{t('activity.allTypes')}</SelectItem>
+            {ACTIVITY_TYPES.map((activityType) => (
+              <SelectItem key={activityType} value={activityType}>
+                {t(`activity.types.${activityType}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {activityQuery.isPending ? (
+        <div className="space-y-3 p-4" aria-busy>
+          {Array.from({ length: 4 }, (_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : activityQuery.isError ? (
+        <p role="alert" className="text-destructive p-4 text-sm">
+          {t('activity.loadFailed')}
+        </p>
+      ) : items.length === 0 ? (
+        <p className="text-muted-foreground p-4 text-sm">
+          {t('activity.empty')}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {items.map((activity) => (
+            <ActivityItem key={activity.id} activity={activity} now={now} />
+          ))}
+        </ul>
+      )}
+
+      {activityQuery.hasNextPage && (
+        <div className="border-t p-2 text-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={activityQuery.isFetchingNextPage}
+            onClick={() => {
+              void activityQuery.fetchNextPage()
+            }}
+          >
+            {activityQuery.isFetchingNextPage
+              ? t('activity.loadingMore')
+              : t('activity.loadMore')}
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
+
+interface ActivityItemProps {
+  activity: Activity
+  now: number
+}
+
+function ActivityItem({ activity, now }: ActivityItemProps) {
+  const { t, i18n } = useTranslation('dashboard')
+  const Icon = ACTIVITY_ICONS[activity.type]
+
+  const description = activity.userName
+    ? t(`activity.descriptions.${activity.type}`, {
+        name: activity.userName,
+        title: activity.postTitle,
+      })
+    : activity.description
+
+  return (
+    <li className="flex items-start gap-3 p-4">
+      <span className="bg-muted flex h-8 w-8 shrink-0 items-center justify-center rounded-full">
+        <Icon className="h-4 w-4" aria-hidden />
+      </span>
+      <div className="min-w-0 flex-1">
+        <p className="text-sm">
+          {activity.userId && LINKED_TYPES.includes(activity.type) ? (
+            <Link
+              to="/users/$userId"
+              params={{ userId: activity.userId }}
+              className="hover:underline"
+            >
+              {description}
+            </Link>
+          ) : (
+            description
+          )}
+        </p>
+        <time
+          dateTime={activity.createdAt}
+          title={new Date(activity.createdAt).toLocaleString(i18n.language)}
+          className="text-muted-foreground text-xs"
+        >
+          {formatRelativeTime(activity.createdAt, now, i18n.language)}
+        </time>
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,140 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+import { formatBucketDate } from '@/lib/format'
+import type { MetricsInterval } from '@/types'
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = { top: 8, right: 8, bottom: 24, left: 40 }
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom
+
+// Rounds the axis maximum up to 1, 2 or 5 times a power of ten so the
+// gridline labels stay readable
+export function niceMax(value: number) {
+  if (value <= 0) return 1
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const step = [1, 2, 5, 10].find((n) => n * magnitude >= value) ?? 10
+  return step * magnitude
+}
+
+export interface GrowthChartPoint {
+  date: string
+  value: number
+}
+
+interface GrowthChartProps {
+  title: string
+  points: GrowthChartPoint[]
+  interval: MetricsInterval
+  // A Tailwind fill class backed by a theme token, e.g. `fill-chart-1`
+  barClassName: string
+}
+
+export function GrowthChart({
+  title,
+  points,
+  interval,
+  barClassName,
+}: GrowthChartProps) {
+  const { t, i18n } = useTranslation('dashboard')
+  const titleId = useId()
+  const descId = useId()
+
+  const total = points.reduce((sum, point) => sum + point.value, 0)
+  const peak = points.reduce<GrowthChartPoint | undefined>(
+    (best, point) => (!best || point.value > best.value ? point : best),
+    undefined
+  )
+  const max = niceMax(peak?.value ?? 0)
+  const slot = PLOT_WIDTH / Math.max(points.length, 1)
+  const barWidth = Math.max(slot * 0.7, 1)
+  const y = (value: number) => PADDING.top + PLOT_HEIGHT * (1 - value / max)
+  const format = (date: string) =>
+    formatBucketDate(date, interval, i18n.language)
+
+  const first = points[0]
+  const last = points[points.length - 1]
+
+  return (
+    <figure className="rounded-lg border p-4">
+      <figcaption className="flex items-baseline justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        <span className="text-2xl font-bold">{total}</span>
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${String(WIDTH)} ${String(HEIGHT)}`}
+        role="img"
+        aria-labelledby={`${titleId} ${descId}`}
+        className="mt-2 h-auto w-full"
+      >
+        <title id={titleId}>{title}</title>
+        <desc id={descId}>
+          {peak
+            ? t('metrics.summary', {
+                total,
+                peak: peak.value,
+                date: format(peak.date),
+              })
+            : t('metrics.empty')}
+        </desc>
+
+        {[0, max / 2, max].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-border"
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[11px]"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {points.map((point, i) => (
+          <rect
+            key={point.date}
+            x={PADDING.left + slot * i + (slot - barWidth) / 2}
+            y={y(point.value)}
+            width={barWidth}
+            height={PLOT_HEIGHT - (y(point.value) - PADDING.top)}
+            rx={Math.min(barWidth / 4, 3)}
+            className={cn(barClassName, 'hover:opacity-80')}
+          >
+            <title>{`${format(point.date)}: ${String(point.value)}`}</title>
+          </rect>
+        ))}
+
+        {first && (
+          <text
+            x={PADDING.left}
+            y={HEIGHT - 6}
+            className="fill-muted-foreground text-[11px]"
+          >
+            {format(first.date)}
+          </text>
+        )}
+        {last && last !== first && (
+          <text
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 6}
+            textAnchor="end"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {format(last.date)}
+          </text>
+        )}
+      </svg>
+    </figure>
+  )
+}
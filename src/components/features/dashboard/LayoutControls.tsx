@@ -0,0 +1,84 @@
+import { useTranslation } from 'react-i18next'
+import { Plus, RotateCcw, Settings2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { WidgetType } from '@/types'
+
+interface LayoutControlsProps {
+  editing: boolean
+  onEditingChange: (editing: boolean) => void
+  hiddenWidgets: readonly WidgetType[]
+  onAdd: (type: WidgetType) => void
+  onReset: () => void
+}
+
+export function LayoutControls({
+  editing,
+  onEditingChange,
+  hiddenWidgets,
+  onAdd,
+  onReset,
+}: LayoutControlsProps) {
+  const { t } = useTranslation('dashboard')
+
+  if (!editing) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          onEditingChange(true)
+        }}
+      >
+        <Settings2 className="h-4 w-4" />
+        {t('widgets.customize')}
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={hiddenWidgets.length === 0}
+          >
+            <Plus className="h-4 w-4" />
+            {t('widgets.add')}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {hiddenWidgets.map((type) => (
+            <DropdownMenuItem
+              key={type}
+              onClick={() => {
+                onAdd(type)
+              }}
+            >
+              {t(`widgets.types.${type}`)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button variant="outline" size="sm" onClick={onReset}>
+        <RotateCcw className="h-4 w-4" />
+        {t('widgets.reset')}
+      </Button>
+      <Button
+        size="sm"
+        onClick={() => {
+          onEditingChange(false)
+        }}
+      >
+        {t('widgets.done')}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { axe } from 'vitest-axe'
+import { render, screen, within } from '@/test/test-utils'
+import { server } from '@/test/mocks/server'
+import { MetricsSection } from './MetricsSection'
+import { niceMax } from './GrowthChart'
+import type { DashboardMetrics } from '@/types'
+
+const metrics: DashboardMetrics = {
+  range: '7d',
+  interval: 'day',
+  points: [
+    { date: '2025-03-01', signups: 2, posts: 5 },
+    { date: '2025-03-02', signups: 7, posts: 3 },
+    { date: '2025-03-03', signups: 1, posts: 4 },
+  ],
+}
+
+function mockMetrics() {
+  const requests: URL[] = []
+  server.use(
+    http.get('/api/dashboard/metrics', ({ request }) => {
+      requests.push(new URL(request.url))
+      return HttpResponse.json(metrics)
+    })
+  )
+  return requests
+}
+
+function renderSection() {
+  return render(
+    <MetricsSection
+      range="7d"
+      interval="day"
+      onRangeChange={vi.fn()}
+      onIntervalChange={vi.fn()}
+    />
+  )
+}
+
+describe('MetricsSection', () => {
+  it('requests the selected range and interval', async () => {
+    const requests = mockMetrics()
+    renderSection()
+
+    await screen.findByRole('img', { name: /Signups/ })
+    expect(requests[0]?.searchParams.get('range')).toBe('7d')
+    expect(requests[0]?.searchParams.get('interval')).toBe('day')
+  })
+
+  it('summarizes each chart for assistive technology', async () => {
+    mockMetrics()
+    renderSection()
+
+    expect(
+      await screen.findByRole('img', {
+        name: 'Signups 10 in total, peaking at 7 on Mar 2',
+      })
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('img', {
+        name: 'Posts 12 in total, peaking at 5 on Mar 1',
+      })
+    ).toBeInTheDocument()
+  })
+
+  it('swaps the charts for a data table', async () => {
+    mockMetrics()
+    const { user } = renderSection()
+
+    await screen.findByRole('img', { name: /Signups/ })
+    const table = screen.getByRole('table')
+    expect(table).toHaveClass('sr-only')
+
+    await user.click(screen.getByRole('button', { name: 'Show as table' }))
+
+    expect(table).not.toHaveClass('sr-only')
+    expect(screen.queryByRole('img')).not.toBeInTheDocument()
+    const rows = within(table).getAllByRole('row')
+    expect(rows).toHaveLength(4)
+    expect(rows[2]).toHaveTextContent('Mar 273')
+  })
+
+  it('should have no accessibility violations', async () => {
+    mockMetrics()
+    const { container } = renderSection()
+
+    await screen.findByRole('img', { name: /Signups/ })
+    expect(await axe(container)).toHaveNoViolations()
+  })
+})
+
+describe('niceMax', () => {
+  it('rounds up to a readable axis maximum', () => {
+    expect(niceMax(0)).toBe(1)
+    expect(niceMax(7)).toBe(10)
+    expect(niceMax(12)).toBe(20)
+    expect(niceMax(430)).toBe(500)
+  })
+})
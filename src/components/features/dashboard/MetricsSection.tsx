@@ -0,0 +1,172 @@
+import { useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { metricsQueryOptions } from '@/api/queries/dashboard'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import { formatBucketDate } from '@/lib/format'
+import { METRICS_INTERVALS, METRICS_RANGES } from '@/lib/validators/dashboard'
+import type { MetricsInterval, MetricsRange } from '@/types'
+import { GrowthChart } from './GrowthChart'
+
+interface MetricsSectionProps {
+  range: MetricsRange
+  interval: MetricsInterval
+  onRangeChange: (range: MetricsRange) => void
+  onIntervalChange: (interval: MetricsInterval) => void
+}
+
+export function MetricsSection({
+  range,
+  interval,
+  onRangeChange,
+  onIntervalChange,
+}: MetricsSectionProps) {
+  const { t, i18n } = useTranslation('dashboard')
+  const headingId = useId()
+  const [showTable, setShowTable] = useState(false)
+  const metricsQuery = useQuery({
+    ...metricsQueryOptions(range, interval),
+    placeholderData: keepPreviousData,
+  })
+  const points = metricsQuery.data?.points ?? []
+  // Placeholder data keeps the old interval until the new one arrives
+  const dataInterval = metricsQuery.data?.interval ?? interval
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-4">
+        <h2 id={headingId} className="text-lg font-semibold">
+          {t('metrics.title')}
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={range}
+            onValueChange={(value) => {
+              onRangeChange(value as MetricsRange)
+            }}
+          >
+            <SelectTrigger
+              className="w-[160px]"
+              aria-label={t('metrics.range')}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METRICS_RANGES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`metrics.ranges.${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={interval}
+            onValueChange={(value) => {
+              onIntervalChange(value as MetricsInterval)
+            }}
+          >
+            <SelectTrigger
+              className="w-[130px]"
+              aria-label={t('metrics.interval')}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {METRICS_INTERVALS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`metrics.intervals.${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            aria-pressed={showTable}
+            onClick={() => {
+              setShowTable((value) => !value)
+            }}
+          >
+            {t('metrics.showTable')}
+          </Button>
+        </div>
+      </div>
+
+      {metricsQuery.isPending ? (
+        <div className="grid gap-4 p-4 md:grid-cols-2" aria-busy>
+          <Skeleton className="h-56 w-full" />
+          <Skeleton className="h-56 w-full" />
+        </div>
+      ) : metricsQuery.isError ? (
+        <p role="alert" className="text-destructive p-4 text-sm">
+          {t('metrics.loadFailed')}
+        </p>
+      ) : (
+        <div
+          className={cn('p-4', metricsQuery.isPlaceholderData && 'opacity-60')}
+        >
+          {!showTable && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <GrowthChart
+                title={t('metrics.signups')}
+                points={points.map((p) => ({ date: p.date, value: p.signups }))}
+                interval={dataInterval}
+                barClassName="fill-chart-1"
+              />
+              <GrowthChart
+                title={t('metrics.posts')}
+                points={points.map((p) => ({ date: p.date, value: p.posts }))}
+                interval={dataInterval}
+                barClassName="fill-chart-2"
+              />
+            </div>
+          )}
+          {/* Screen readers always get the table; sighted users opt in */}
+          <Table className={cn(!showTable && 'sr-only')}>
+            <TableCaption>{t('metrics.tableCaption')}</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead scope="col">{t('metrics.date')}</TableHead>
+                <TableHead scope="col" className="text-right">
+                  {t('metrics.signups')}
+                </TableHead>
+                <TableHead scope="col" className="text-right">
+                  {t('metrics.posts')}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {points.map((point) => (
+                <TableRow key={point.date}>
+                  <TableCell>
+                    {formatBucketDate(point.date, dataInterval, i18n.language)}
+                  </TableCell>
+                  <TableCell className="text-right">{point.signups}</TableCell>
+                  <TableCell className="text-right">{point.posts}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,60 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Link } from '@tanstack/react-router'
+import { ShieldCheck, UserCog, UserRound, Users } from 'lucide-react'
+import { useAuthStore } from '@/stores/authStore'
+import { hasPermission } from '@/lib/permissions'
+
+export function QuickLinks() {
+  const { t } = useTranslation('dashboard')
+  const headingId = useId()
+  const user = useAuthStore((s) => s.user)
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border p-4">
+      <h2 id={headingId} className="text-muted-foreground text-sm">
+        {t('quickLinks.title')}
+      </h2>
+      <ul className="mt-2 space-y-1 text-sm">
+        {user && (
+          <li>
+            <Link
+              to="/users/$userId"
+              params={{ userId: user.id }}
+              className="flex items-center gap-2 hover:underline"
+            >
+              <UserRound className="h-4 w-4" aria-hidden />
+              {t('quickLinks.profile')}
+            </Link>
+          </li>
+        )}
+        <li>
+          <Link
+            to="/settings/profile"
+            className="flex items-center gap-2 hover:underline"
+          >
+            <UserCog className="h-4 w-4" aria-hidden />
+            {t('quickLinks.settings')}
+          </Link>
+        </li>
+        <li>
+          <Link to="/users" className="flex items-center gap-2 hover:underline">
+            <Users className="h-4 w-4" aria-hidden />
+            {t('quickLinks.users')}
+          </Link>
+        </li>
+        {hasPermission(user, 'users:manage') && (
+          <li>
+            <Link
+              to="/admin/users"
+              className="flex items-center gap-2 hover:underline"
+            >
+              <ShieldCheck className="h-4 w-4" aria-hidden />
+              {t('quickLinks.admin')}
+            </Link>
+          </li>
+        )}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,17 @@
+import type { ComponentProps } from 'react'
+import { Link } from '@tanstack/react-router'
+
+interface StatCardProps {
+  label: string
+  value: number
+  to: ComponentProps<typeof Link>['to']
+}
+
+export function StatCard({ label, value, to }: StatCardProps) {
+  return (
+    <Link to={to} className="hover:bg-muted block rounded-lg border p-4">
+      <p className="text-muted-foreground text-sm">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+    </Link>
+  )
+}
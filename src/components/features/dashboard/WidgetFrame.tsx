@@ -0,0 +1,117 @@
+import type { ReactNode } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ArrowDown, ArrowUp, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import type { DashboardWidget, WidgetSize } from '@/types'
+
+const WIDGET_SIZES: readonly WidgetSize[] = ['small', 'medium', 'large']
+
+// Column spans in the dashboard's 1 / 2 / 3 column grid
+const SIZE_CLASSES: Record<WidgetSize, string> = {
+  small: '',
+  medium: 'md:col-span-2',
+  large: 'md:col-span-2 lg:col-span-3',
+}
+
+interface WidgetFrameProps {
+  widget: DashboardWidget
+  editing: boolean
+  isFirst: boolean
+  isLast: boolean
+  onMove: (offset: -1 | 1) => void
+  onResize: (size: WidgetSize) => void
+  onRemove: () => void
+  children: ReactNode
+}
+
+export function WidgetFrame({
+  widget,
+  editing,
+  isFirst,
+  isLast,
+  onMove,
+  onResize,
+  onRemove,
+  children,
+}: WidgetFrameProps) {
+  const { t } = useTranslation('dashboard')
+  const name = t(`widgets.types.${widget.type}`)
+
+  return (
+    <div
+      className={cn(
+        SIZE_CLASSES[widget.size],
+        editing && 'rounded-lg border border-dashed p-2'
+      )}
+    >
+      {editing && (
+        <div
+          role="group"
+          aria-label={t('widgets.controls', { name })}
+          className="mb-2 flex items-center gap-1"
+        >
+          <span className="mr-auto truncate text-sm font-medium">{name}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isFirst}
+            aria-label={t('widgets.moveEarlier', { name })}
+            onClick={() => {
+              onMove(-1)
+            }}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={isLast}
+            aria-label={t('widgets.moveLater', { name })}
+            onClick={() => {
+              onMove(1)
+            }}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Select
+            value={widget.size}
+            onValueChange={(value) => {
+              onResize(value as WidgetSize)
+            }}
+          >
+            <SelectTrigger
+              className="h-8 w-[110px]"
+              aria-label={t('widgets.size', { name })}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WIDGET_SIZES.map((size) => (
+                <SelectItem key={size} value={size}>
+                  {t(`widgets.sizes.${size}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={t('widgets.remove', { name })}
+            onClick={onRemove}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import type { ReactNode } from 'react'
+import { db } from '@/test/mocks/db'
+import {
+  approveAuthorization,
+  denyAuthorization,
+  parseAuthorizationRequest,
+  type AuthorizationRequest,
+} from '@/test/mocks/idp'
+
+// The mock identity provider's sign-in page, shown in place of the app when
+// single sign-on sends the browser to it under `pnpm dev:mock`. Like the
+// scenario panel it isn't translated.
+export function MockIdpSignIn({ href }: { href: string }) {
+  let request: AuthorizationRequest
+  try {
+    request = parseAuthorizationRequest(href)
+  } catch (error) {
+    return (
+      <MockIdpFrame>
+        <p role="alert" className="text-destructive">
+          Invalid authorization request:{' '}
+          {error instanceof Error ? error.message : String(error)}
+        </p>
+      </MockIdpFrame>
+    )
+  }
+
+  const users = db.users.all().slice(0, 5)
+
+  return (
+    <MockIdpFrame>
+      <p className="text-muted-foreground">
+        My Application wants to know who you are. Pick an account to sign in as.
+      </p>
+      <ul className="space-y-2">
+        {users.map((user) => (
+          <li key={user.id}>
+            <button
+              type="button"
+              onClick={() => {
+                window.location.assign(approveAuthorization(request, user.id))
+              }}
+              className="hover:bg-accent w-full rounded-md border px-3 py-2 text-left"
+            >
+              <span className="block font-medium">{user.name}</span>
+              <span className="text-muted-foreground">{user.email}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => {
+          window.location.assign(denyAuthorization(request))
+        }}
+        className="text-muted-foreground w-full rounded-md px-3 py-2 hover:underline"
+      >
+        Deny access
+      </button>
+    </MockIdpFrame>
+  )
+}
+
+function MockIdpFrame({ children }: { children: ReactNode }) {
+  return (
+    <main className="bg-muted flex min-h-screen items-center justify-center p-4 font-sans text-sm">
+      <div className="bg-background w-full max-w-sm space-y-4 rounded-lg border p-6 shadow-lg">
+        <h1 className="text-lg font-semibold">Mock IdP</h1>
+        {children}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,78 @@
+import { useId, useState, useSyncExternalStore } from 'react'
+import { db, subscribeToOutbox } from '@/test/mocks/db'
+import {
+  SCENARIOS,
+  scenarios,
+  withScenario,
+  type ScenarioName,
+} from '@/test/mocks/scenarios'
+
+interface MockScenarioPanelProps {
+  scenario: ScenarioName
+  // Opens an emailed link in the app. A full page load would reset the mock
+  // data and, with it, the link's token.
+  onOpenLink: (href: string) => void
+}
+
+// Only rendered under `pnpm dev:mock`, like the router and query devtools,
+// so it isn't translated. Switching reloads the page, which also resets the
+// mock data, except for one-off scenarios that act on the open page.
+export function MockScenarioPanel({
+  scenario,
+  onOpenLink,
+}: MockScenarioPanelProps) {
+  const selectId = useId()
+  const [current, setCurrent] = useState(scenario)
+  const outbox = useSyncExternalStore(subscribeToOutbox, () => db.outbox)
+  const lastEmail = outbox[outbox.length - 1]
+
+  return (
+    <div className="bg-background fixed bottom-4 left-4 z-50 w-64 rounded-lg border p-3 text-xs shadow-lg">
+      <label htmlFor={selectId} className="font-semibold">
+        Mock scenario
+      </label>
+      <select
+        id={selectId}
+        value={current}
+        onChange={(event) => {
+          const name = event.target.value as ScenarioName
+          if (scenarios[name].once) {
+            scenarios[name].apply()
+            setCurrent(name)
+            return
+          }
+          const path = `${window.location.pathname}${window.location.search}`
+          window.location.assign(withScenario(path, name))
+        }}
+        className="border-input bg-background mt-1 block h-8 w-full rounded-md border px-2"
+      >
+        {SCENARIOS.map((name) => (
+          <option key={name} value={name}>
+            {scenarios[name].label}
+          </option>
+        ))}
+      </select>
+      <p className="text-muted-foreground mt-1">
+        {scenarios[current].description}
+      </p>
+      {lastEmail && (
+        <div className="mt-2 border-t pt-2">
+          <p className="font-semibold">Last email</p>
+          <p className="text-muted-foreground truncate">
+            {lastEmail.subject} ({lastEmail.to})
+          </p>
+          <a
+            href={lastEmail.link}
+            onClick={(event) => {
+              event.preventDefault()
+              onOpenLink(lastEmail.link)
+            }}
+            className="text-primary underline"
+          >
+            Open link
+          </a>
+        </div>
+      )}
+    </div>
+  )
+}
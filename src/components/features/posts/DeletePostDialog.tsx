@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import type { Post } from '@/types'
+
+interface DeletePostDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  post: Post | null
+  onConfirm: () => void
+  isLoading?: boolean
+}
+
+export function DeletePostDialog({
+  open,
+  onOpenChange,
+  post,
+  onConfirm,
+  isLoading,
+}: DeletePostDialogProps) {
+  const { t } = useTranslation('users')
+  const { t: tCommon } = useTranslation('common')
+
+  if (!post) return null
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t('posts.delete.title')}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {t('posts.delete.description', { title: post.title })}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{tCommon('actions.cancel')}</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} disabled={isLoading}>
+            {isLoading ? t('posts.delete.deleting') : t('posts.delete.confirm')}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
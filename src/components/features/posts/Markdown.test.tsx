@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@/test/test-utils'
+import { Markdown } from './Markdown'
+
+describe('Markdown', () => {
+  it('renders headings, lists, code and links', () => {
+    const { container } = render(
+      <Markdown>
+        {[
+          '# Release notes',
+          '',
+          '- faster builds',
+          '- **smaller** bundles',
+          '',
+          '```ts',
+          'const answer = 42',
+          '```',
+          '',
+          'See [the docs](https://example.com/docs).',
+        ].join('\n')}
+      </Markdown>
+    )
+
+    // Headings start at h2 under the page's own h1
+    expect(
+      screen.getByRole('heading', { level: 2, name: 'Release notes' })
+    ).toBeInTheDocument()
+    expect(screen.getAllByRole('listitem')).toHaveLength(2)
+    expect(container.querySelector('pre code')).toHaveTextContent(
+      'const answer = 42'
+    )
+    expect(screen.getByRole('link', { name: 'the docs' })).toHaveAttribute(
+      'href',
+      'https://example.com/docs'
+    )
+  })
+
+  it('shifts each heading down a level and clamps the deepest at h6', () => {
+    render(
+      <Markdown>
+        {['#### Four', '', '##### Five', '', '###### Six'].join('\n')}
+      </Markdown>
+    )
+
+    expect(
+      screen.getByRole('heading', { level: 5, name: 'Four' })
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('heading', { level: 6, name: 'Five' })
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('heading', { level: 6, name: 'Six' })
+    ).toBeInTheDocument()
+  })
+
+  it('does not render raw HTML or scripts', () => {
+    const { container } = render(
+      <Markdown>
+        {
+          'Hi <script>window.pwned = true</script><img src="x" onerror="alert(1)"> <b>bold</b>'
+        }
+      </Markdown>
+    )
+
+    expect(container.querySelector('script')).toBeNull()
+    expect(container.querySelector('img')).toBeNull()
+    expect(container.querySelector('b')).toBeNull()
+    expect(container.querySelector('[onerror]')).toBeNull()
+  })
+
+  it('drops javascript: URLs from links and images', () => {
+    const { container } = render(
+      <Markdown>
+        {[
+          '[click me](javascript:alert(1))',
+          '[sneaky](JaVaScRiPt:alert(1))',
+          '[encoded](javascript&#58;alert(1))',
+          '![image](javascript:alert(1))',
+          '<javascript:alert(1)>',
+        ].join('\n\n')}
+      </Markdown>
+    )
+
+    for (const element of container.querySelectorAll('[href], [src]')) {
+      const url = element.getAttribute('href') ?? element.getAttribute('src')
+      expect(url?.toLowerCase()).not.toContain('javascript:')
+    }
+    expect(screen.getByText('click me')).toBeInTheDocument()
+  })
+
+  it('opens links in a new tab without an opener', () => {
+    render(<Markdown>{'[site](https://example.com)'}</Markdown>)
+
+    const link = screen.getByRole('link', { name: 'site' })
+    expect(link).toHaveAttribute('target', '_blank')
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer nofollow')
+  })
+})
@@ -0,0 +1,114 @@
+import ReactMarkdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeSanitize from 'rehype-sanitize'
+import { cn } from '@/lib/utils'
+
+// Post pages already own the h1, so Markdown headings start one level down.
+// HTML stops at h6, so the two deepest levels are clamped together there.
+const COMPONENTS: Components = {
+  h1: ({ node: _node, children, ...props }) => (
+    <h2 className="mt-6 text-2xl font-semibold first:mt-0" {...props}>
+      {children}
+    </h2>
+  ),
+  h2: ({ node: _node, children, ...props }) => (
+    <h3 className="mt-5 text-xl font-semibold first:mt-0" {...props}>
+      {children}
+    </h3>
+  ),
+  h3: ({ node: _node, children, ...props }) => (
+    <h4 className="mt-4 text-lg font-semibold first:mt-0" {...props}>
+      {children}
+    </h4>
+  ),
+  h4: ({ node: _node, children, ...props }) => (
+    <h5 className="mt-4 font-semibold first:mt-0" {...props}>
+      {children}
+    </h5>
+  ),
+  h5: ({ node: _node, children, ...props }) => (
+    <h6 className="mt-4 font-semibold first:mt-0" {...props}>
+      {children}
+    </h6>
+  ),
+  h6: ({ node: _node, children, ...props }) => (
+    <h6 className="mt-4 font-semibold first:mt-0" {...props}>
+      {children}
+    </h6>
+  ),
+  p: ({ node: _node, ...props }) => (
+    <p className="mt-3 leading-7 first:mt-0" {...props} />
+  ),
+  a: ({ node: _node, children, ...props }) => (
+    <a
+      className="text-primary underline underline-offset-4"
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      {...props}
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ node: _node, ...props }) => (
+    <ul className="mt-3 list-disc space-y-1 pl-6" {...props} />
+  ),
+  ol: ({ node: _node, ...props }) => (
+    <ol className="mt-3 list-decimal space-y-1 pl-6" {...props} />
+  ),
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote
+      className="text-muted-foreground mt-3 border-l-2 pl-4 italic"
+      {...props}
+    />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre
+      className="bg-muted mt-3 overflow-x-auto rounded-md p-4 text-sm"
+      {...props}
+    />
+  ),
+  code: ({ node: _node, className, ...props }) => (
+    <code
+      className={cn(
+        'font-mono text-sm',
+        // Inline code gets its own background; fenced blocks use the <pre>'s
+        !className && 'bg-muted rounded px-1 py-0.5',
+        className
+      )}
+      {...props}
+    />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th className="border px-3 py-1 text-left font-semibold" {...props} />
+  ),
+  td: ({ node: _node, ...props }) => (
+    <td className="border px-3 py-1" {...props} />
+  ),
+}
+
+interface MarkdownProps {
+  children: string
+  className?: string
+}
+
+// Raw HTML in the source is never rendered, and rehype-sanitize strips
+// anything that could run script (javascript: URLs, event handlers) from the
+// elements Markdown itself produces
+export function Markdown({ children, className }: MarkdownProps) {
+  return (
+    <div className={cn('break-words', className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize]}
+        components={COMPONENTS}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react'
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@/test/test-utils'
+import { MarkdownEditor } from './MarkdownEditor'
+
+function Editor({ initialValue = '' }: { initialValue?: string }) {
+  const [value, setValue] = useState(initialValue)
+  return (
+    <MarkdownEditor
+      aria-label="Content"
+      value={value}
+      onChange={(event) => {
+        setValue(event.target.value)
+      }}
+    />
+  )
+}
+
+describe('MarkdownEditor', () => {
+  it('previews what was written', async () => {
+    const { user } = render(<Editor />)
+
+    await user.type(screen.getByRole('textbox', { name: 'Content' }), '## Hi')
+    await user.click(screen.getByRole('tab', { name: 'Preview' }))
+
+    expect(screen.getByRole('tab', { name: 'Preview' })).toHaveAttribute(
+      'aria-selected',
+      'true'
+    )
+    expect(screen.getByRole('heading', { name: 'Hi' })).toBeInTheDocument()
+    expect(
+      screen.queryByRole('textbox', { name: 'Content' })
+    ).not.toBeInTheDocument()
+  })
+
+  it('switches tabs with the arrow keys', async () => {
+    const { user } = render(<Editor />)
+
+    await user.click(screen.getByRole('tab', { name: 'Write' }))
+    await user.keyboard('{ArrowRight}')
+
+    expect(screen.getByRole('tab', { name: 'Preview' })).toHaveFocus()
+    expect(screen.getByText('Nothing to preview yet.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,103 @@
+import { useId, useRef, useState, type ComponentProps } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { Markdown } from './Markdown'
+
+const TABS = ['write', 'preview'] as const
+type Tab = (typeof TABS)[number]
+
+// A Markdown textarea with a rendered preview tab. Props go to the textarea,
+// so it works inside <FormControl> like a plain input.
+export function MarkdownEditor({
+  value,
+  className,
+  ...props
+}: ComponentProps<'textarea'> & { value: string }) {
+  const { t } = useTranslation('users')
+  const id = useId()
+  const [tab, setTab] = useState<Tab>('write')
+  const tabRefs = useRef<Partial<Record<Tab, HTMLButtonElement | null>>>({})
+
+  const select = (next: Tab) => {
+    setTab(next)
+    tabRefs.current[next]?.focus()
+  }
+
+  return (
+    <div className={cn('rounded-md border', className)}>
+      <div
+        role="tablist"
+        aria-label={t('posts.editor.label')}
+        className="flex gap-1 border-b p-1"
+      >
+        {TABS.map((name) => (
+          <button
+            key={name}
+            ref={(element) => {
+              tabRefs.current[name] = element
+            }}
+            type="button"
+            role="tab"
+            id={`${id}-${name}-tab`}
+            aria-controls={`${id}-${name}-panel`}
+            aria-selected={tab === name}
+            tabIndex={tab === name ? 0 : -1}
+            className={cn(
+              'rounded-sm px-3 py-1 text-sm font-medium',
+              tab === name
+                ? 'bg-muted text-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+            onClick={() => {
+              setTab(name)
+            }}
+            onKeyDown={(event) => {
+              // Two tabs, so either arrow key moves to the other one
+              if (event.key === 'ArrowRight' || event.key === 'ArrowLeft') {
+                event.preventDefault()
+                select(tab === 'write' ? 'preview' : 'write')
+              }
+            }}
+          >
+            {t(`posts.editor.${name}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* The textarea stays mounted so the form keeps its ref and value */}
+      <div
+        role="tabpanel"
+        id={`${id}-write-panel`}
+        aria-labelledby={`${id}-write-tab`}
+        hidden={tab !== 'write'}
+      >
+        <Textarea
+          value={value}
+          className="rounded-none border-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+          {...props}
+        />
+        <p className="text-muted-foreground border-t px-3 py-1 text-xs">
+          {t('posts.editor.hint')}
+        </p>
+      </div>
+      <div
+        role="tabpanel"
+        id={`${id}-preview-panel`}
+        aria-labelledby={`${id}-preview-tab`}
+        hidden={tab !== 'preview'}
+        tabIndex={0}
+        className="min-h-[160px] p-3"
+      >
+        {tab === 'preview' &&
+          (value.trim() ? (
+            <Markdown>{value}</Markdown>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              {t('posts.editor.empty')}
+            </p>
+          ))}
+      </div>
+    </div>
+  )
+}
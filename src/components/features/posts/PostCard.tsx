@@ -0,0 +1,85 @@
+import { useTranslation } from 'react-i18next'
+import { Link } from '@tanstack/react-router'
+import { Pencil, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import type { Post, PostAuthor } from '@/types'
+import { Markdown } from './Markdown'
+
+interface PostCardProps {
+  post: Post
+  // Shown in the byline on lists that mix authors
+  author?: PostAuthor
+  // Edit and delete buttons only render when both handlers are given
+  onEdit?: (post: Post) => void
+  onDelete?: (post: Post) => void
+}
+
+export function PostCard({ post, author, onEdit, onDelete }: PostCardProps) {
+  const { t } = useTranslation('users')
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>
+            <Link
+              to="/posts/$postId"
+              params={{ postId: post.id }}
+              className="hover:underline"
+            >
+              {post.title}
+            </Link>
+          </CardTitle>
+          <p className="text-muted-foreground text-sm">
+            {author ? (
+              <>
+                {t('posts.byline', {
+                  date: new Date(post.createdAt).toLocaleDateString(),
+                })}{' '}
+                <Link
+                  to="/users/$userId"
+                  params={{ userId: author.id }}
+                  className="hover:text-foreground underline"
+                >
+                  {author.name}
+                </Link>
+              </>
+            ) : (
+              t('publishedOn', {
+                date: new Date(post.createdAt).toLocaleDateString(),
+              })
+            )}
+          </p>
+        </div>
+        {onEdit && onDelete && (
+          <div className="flex shrink-0 gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t('posts.editNamed', { title: post.title })}
+              onClick={() => {
+                onEdit(post)
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t('posts.deleteNamed', { title: post.title })}
+              onClick={() => {
+                onDelete(post)
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Markdown>{post.content}</Markdown>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,47 @@
+import { useTranslation } from 'react-i18next'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { PostForm } from '@/components/forms/PostForm'
+import type { PostFormData } from '@/lib/validators/post'
+import type { Post } from '@/types'
+
+interface PostEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The post being edited, or null to write a new one
+  post: Post | null
+  onSubmit: (data: PostFormData) => void | Promise<void>
+  isLoading?: boolean
+}
+
+export function PostEditorDialog({
+  open,
+  onOpenChange,
+  post,
+  onSubmit,
+  isLoading,
+}: PostEditorDialogProps) {
+  const { t } = useTranslation('users')
+  const title = post ? t('posts.editPost') : t('posts.newPost')
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <PostForm
+          key={post?.id ?? 'new'}
+          onSubmit={onSubmit}
+          isLoading={isLoading}
+          defaultValues={post ?? undefined}
+          submitLabel={post ? t('posts.form.save') : t('posts.form.publish')}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
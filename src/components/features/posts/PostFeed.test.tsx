@@ -0,0 +1,149 @@
+import type { ReactNode } from 'react'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { act, render, screen, within } from '@/test/test-utils'
+import { server } from '@/test/mocks/server'
+import { PostFeed } from './PostFeed'
+import type { CursorPage, FeedPost } from '@/types'
+
+vi.mock('@tanstack/react-router', () => ({
+  Link: ({
+    to,
+    params,
+    children,
+    className,
+  }: {
+    to: string
+    params: Record<string, string>
+    children: ReactNode
+    className?: string
+  }) => (
+    <a
+      href={to.replace(/\$(\w+)/, (_, key: string) => params[key] ?? '')}
+      className={className}
+    >
+      {children}
+    </a>
+  ),
+}))
+
+function feedPost(id: string, authorName: string): FeedPost {
+  return {
+    id,
+    title: `Post ${id}`,
+    content: `Body of post ${id}`,
+    authorId: `author-${id}`,
+    authorName,
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+  }
+}
+
+function mockFeed() {
+  const requests: URL[] = []
+  server.use(
+    http.get('/api/posts', ({ request }) => {
+      const url = new URL(request.url)
+      requests.push(url)
+      const page: CursorPage<FeedPost> =
+        url.searchParams.get('cursor') === '2'
+          ? { data: [feedPost('3', 'Grace Hopper')], nextCursor: null }
+          : {
+              data: [feedPost('1', 'Ada Lovelace'), feedPost('2', 'Alan Kay')],
+              nextCursor: '2',
+            }
+      return HttpResponse.json(page)
+    })
+  )
+  return requests
+}
+
+// jsdom has no IntersectionObserver; this one lets a test scroll the
+// sentinel into view on demand
+function stubIntersectionObserver() {
+  const observers: { callback: IntersectionObserverCallback }[] = []
+  vi.stubGlobal(
+    'IntersectionObserver',
+    class {
+      constructor(public callback: IntersectionObserverCallback) {
+        observers.push(this)
+      }
+      observe = vi.fn()
+      disconnect = vi.fn()
+    }
+  )
+  return () => {
+    const latest = observers[observers.length - 1]
+    latest?.callback(
+      [{ isIntersecting: true } as IntersectionObserverEntry],
+      {} as IntersectionObserver
+    )
+  }
+}
+
+describe('PostFeed', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('lists posts from every author with a link to each', async () => {
+    mockFeed()
+    render(<PostFeed params={{ q: '' }} hasFilters={false} />)
+
+    expect(
+      await screen.findByRole('link', { name: 'Ada Lovelace' })
+    ).toHaveAttribute('href', '/users/author-1')
+    expect(screen.getByRole('link', { name: 'Post 2' })).toHaveAttribute(
+      'href',
+      '/posts/2'
+    )
+  })
+
+  it('passes filters to the API and pages with the cursor', async () => {
+    const requests = mockFeed()
+    const { user } = render(
+      <PostFeed
+        params={{ q: 'react', author: '7', from: '2025-01-01' }}
+        hasFilters
+      />
+    )
+
+    await user.click(await screen.findByRole('button', { name: 'Load more' }))
+
+    expect(await screen.findByText("You've reached the end.")).toBeVisible()
+    expect(
+      within(screen.getByRole('list')).getAllByRole('listitem')
+    ).toHaveLength(3)
+    expect(requests[0]?.searchParams.get('q')).toBe('react')
+    expect(requests[0]?.searchParams.get('author')).toBe('7')
+    expect(requests[0]?.searchParams.get('from')).toBe('2025-01-01')
+    expect(requests[0]?.searchParams.has('to')).toBe(false)
+    expect(requests[1]?.searchParams.get('cursor')).toBe('2')
+  })
+
+  it('loads the next page when the end of the list scrolls into view', async () => {
+    const scrollIntoView = stubIntersectionObserver()
+    mockFeed()
+    render(<PostFeed params={{ q: '' }} hasFilters={false} />)
+
+    await screen.findByText('Post 1')
+    act(() => {
+      scrollIntoView()
+    })
+
+    expect(await screen.findByText('Post 3')).toBeInTheDocument()
+  })
+
+  it('explains an empty result when filters are applied', async () => {
+    server.use(
+      http.get('/api/posts', () =>
+        HttpResponse.json({ data: [], nextCursor: null })
+      )
+    )
+    render(<PostFeed params={{ q: 'nothing' }} hasFilters />)
+
+    expect(
+      await screen.findByText('No posts match your filters.')
+    ).toBeInTheDocument()
+  })
+})
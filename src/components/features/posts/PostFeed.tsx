@@ -0,0 +1,86 @@
+import { useTranslation } from 'react-i18next'
+import { useInfiniteQuery } from '@tanstack/react-query'
+import { postFeedQueryOptions } from '@/api/queries/posts'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useInfiniteScroll } from '@/hooks/use-infinite-scroll'
+import type { PostFeedParams } from '@/types'
+import { PostCard } from './PostCard'
+
+interface PostFeedProps {
+  params: PostFeedParams
+  hasFilters: boolean
+}
+
+export function PostFeed({ params, hasFilters }: PostFeedProps) {
+  const { t } = useTranslation('users')
+  const feedQuery = useInfiniteQuery(postFeedQueryOptions(params))
+  const posts = feedQuery.data?.pages.flatMap((page) => page.data) ?? []
+  const sentinelRef = useInfiniteScroll<HTMLDivElement>(() => {
+    void feedQuery.fetchNextPage()
+  }, feedQuery.hasNextPage && !feedQuery.isFetchingNextPage)
+
+  if (feedQuery.isPending) {
+    return (
+      <div className="space-y-4" aria-busy>
+        {Array.from({ length: 3 }, (_, i) => (
+          <Skeleton key={i} className="h-32 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (feedQuery.isError) {
+    return (
+      <div
+        role="alert"
+        className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+      >
+        {t('posts.feed.loadFailed')}
+      </div>
+    )
+  }
+
+  if (posts.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        {hasFilters ? t('posts.feed.noMatches') : t('noPosts')}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-4">
+        {posts.map((post) => (
+          <li key={post.id}>
+            <PostCard
+              post={post}
+              author={{ id: post.authorId, name: post.authorName }}
+            />
+          </li>
+        ))}
+      </ul>
+
+      {feedQuery.hasNextPage ? (
+        <div ref={sentinelRef} className="text-center">
+          <Button
+            variant="outline"
+            disabled={feedQuery.isFetchingNextPage}
+            onClick={() => {
+              void feedQuery.fetchNextPage()
+            }}
+          >
+            {feedQuery.isFetchingNextPage
+              ? t('posts.feed.loadingMore')
+              : t('posts.feed.loadMore')}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-center text-sm">
+          {t('posts.feed.end')}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import { useEffect, useId, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { Search } from 'lucide-react'
+import { postAuthorsQueryOptions } from '@/api/queries/posts'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { PostFeedSearch } from '@/lib/validators/post'
+
+const SEARCH_DEBOUNCE_MS = 300
+const ALL_AUTHORS = 'all'
+
+interface PostFeedToolbarProps {
+  search: PostFeedSearch
+  hasFilters: boolean
+  onSearchChange: (changes: Partial<PostFeedSearch>) => void
+  onClear: () => void
+}
+
+export function PostFeedToolbar({
+  search,
+  hasFilters,
+  onSearchChange,
+  onClear,
+}: PostFeedToolbarProps) {
+  const { t } = useTranslation('users')
+  const fromId = useId()
+  const toId = useId()
+  const authorsQuery = useQuery(postAuthorsQueryOptions)
+  const [q, setQ] = useState(search.q)
+  const [prevQ, setPrevQ] = useState(search.q)
+
+  // Same debounce as the admin table: the URL follows typing once it settles
+  if (search.q !== prevQ) {
+    setPrevQ(search.q)
+    setQ(search.q)
+  }
+
+  useEffect(() => {
+    if (q === search.q) return
+    const timeout = setTimeout(() => {
+      onSearchChange({ q })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timeout)
+    }
+  }, [q, search.q, onSearchChange])
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="relative w-full max-w-sm">
+        <Search
+          className="text-muted-foreground absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2"
+          aria-hidden
+        />
+        <Input
+          type="search"
+          value={q}
+          onChange={(event) => {
+            setQ(event.target.value)
+          }}
+          placeholder={t('posts.feed.searchPlaceholder')}
+          aria-label={t('posts.feed.search')}
+          className="pl-8"
+        />
+      </div>
+      <Select
+        value={search.author ?? ALL_AUTHORS}
+        onValueChange={(value) => {
+          onSearchChange({
+            author: value === ALL_AUTHORS ? undefined : value,
+          })
+        }}
+      >
+        <SelectTrigger
+          className="w-[180px]"
+          aria-label={t('posts.feed.author')}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_AUTHORS}>
+            {t('posts.feed.allAuthors')}
+          </SelectItem>
+          {authorsQuery.data?.map((author) => (
+            <SelectItem key={author.id} value={author.id}>
+              {author.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="grid gap-1">
+        <Label htmlFor={fromId} className="text-xs">
+          {t('posts.feed.from')}
+        </Label>
+        <Input
+          id={fromId}
+          type="date"
+          value={search.from ?? ''}
+          max={search.to}
+          onChange={(event) => {
+            onSearchChange({ from: event.target.value || undefined })
+          }}
+          className="w-[160px]"
+        />
+      </div>
+      <div className="grid gap-1">
+        <Label htmlFor={toId} className="text-xs">
+          {t('posts.feed.to')}
+        </Label>
+        <Input
+          id={toId}
+          type="date"
+          value={search.to ?? ''}
+          min={search.from}
+          onChange={(event) => {
+            onSearchChange({ to: event.target.value || undefined })
+          }}
+          className="w-[160px]"
+        />
+      </div>
+      {hasFilters && (
+        <Button variant="ghost" onClick={onClear}>
+          {t('posts.feed.clearFilters')}
+        </Button>
+      )}
+    </div>
+  )
+}
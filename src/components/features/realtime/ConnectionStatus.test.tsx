@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@/test/test-utils'
+import { ConnectionStatus } from './ConnectionStatus'
+
+describe('ConnectionStatus', () => {
+  it('announces the connection state', () => {
+    const { rerender } = render(<ConnectionStatus status="connecting" />)
+    expect(screen.getByRole('status')).toHaveTextContent('Connecting...')
+
+    rerender(<ConnectionStatus status="connected" />)
+    expect(screen.getByRole('status')).toHaveTextContent('Live')
+  })
+})
@@ -0,0 +1,32 @@
+import { useTranslation } from 'react-i18next'
+import { cn } from '@/lib/utils'
+import type { RealtimeStatus } from '@/api/realtime'
+
+const DOT_STYLES: Record<RealtimeStatus, string> = {
+  connected: 'bg-green-500',
+  connecting: 'bg-amber-500 animate-pulse',
+  reconnecting: 'bg-amber-500 animate-pulse',
+}
+
+interface ConnectionStatusProps {
+  status: RealtimeStatus
+}
+
+export function ConnectionStatus({ status }: ConnectionStatusProps) {
+  const { t } = useTranslation('common')
+  const label = t(`realtime.${status}`)
+
+  return (
+    <span
+      role="status"
+      title={label}
+      className="text-muted-foreground flex items-center gap-2 text-xs"
+    >
+      <span
+        className={cn('h-2 w-2 rounded-full', DOT_STYLES[status])}
+        aria-hidden
+      />
+      <span className="sr-only sm:not-sr-only">{label}</span>
+    </span>
+  )
+}
@@ -0,0 +1,93 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { loginHistoryQueryOptions } from '@/api/queries/security'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+
+export function LoginHistoryTable() {
+  const { t, i18n } = useTranslation('settings')
+  const headingId = useId()
+  const historyQuery = useQuery(loginHistoryQueryOptions)
+  const dateFormat = new Intl.DateTimeFormat(i18n.language, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border">
+      <div className="border-b p-4">
+        <h2 id={headingId} className="text-lg font-semibold">
+          {t('security.history.title')}
+        </h2>
+        <p className="text-muted-foreground text-sm">
+          {t('security.history.description')}
+        </p>
+      </div>
+
+      {historyQuery.isPending ? (
+        <div className="space-y-3 p-4" aria-busy>
+          {Array.from({ length: 4 }, (_, i) => (
+            <Skeleton key={i} className="h-8 w-full" />
+          ))}
+        </div>
+      ) : historyQuery.isError ? (
+        <p role="alert" className="text-destructive p-4 text-sm">
+          {t('security.history.loadFailed')}
+        </p>
+      ) : historyQuery.data.length === 0 ? (
+        <p className="text-muted-foreground p-4 text-sm">
+          {t('security.history.empty')}
+        </p>
+      ) : (
+        <Table aria-labelledby={headingId}>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('security.history.date')}</TableHead>
+              <TableHead>{t('security.history.device')}</TableHead>
+              <TableHead>{t('security.history.location')}</TableHead>
+              <TableHead>{t('security.history.result')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {historyQuery.data.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  <time dateTime={entry.createdAt}>
+                    {dateFormat.format(new Date(entry.createdAt))}
+                  </time>
+                </TableCell>
+                <TableCell>{entry.device}</TableCell>
+                <TableCell>
+                  {entry.location ?? t('security.unknownLocation')}
+                  <span className="text-muted-foreground block text-xs">
+                    {entry.ipAddress}
+                  </span>
+                </TableCell>
+                <TableCell
+                  className={cn(
+                    entry.success
+                      ? 'text-green-600 dark:text-green-400'
+                      : 'text-destructive'
+                  )}
+                >
+                  {entry.success
+                    ? t('security.history.succeeded')
+                    : t('security.history.failed')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </section>
+  )
+}
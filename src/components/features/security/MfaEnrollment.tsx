@@ -0,0 +1,117 @@
+import { useForm, type SubmitHandler } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import { QRCodeSVG } from 'qrcode.react'
+import { useEnableMfa } from '@/api/mutations/security'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { hasFieldErrors, setServerErrors } from '@/lib/form-errors'
+import { mfaCodeSchema, type MfaCodeFormData } from '@/lib/validators/auth'
+import type { MfaSetup } from '@/types'
+
+interface MfaEnrollmentProps {
+  setup: MfaSetup
+  onEnabled: (recoveryCodes: string[]) => void
+  onCancel: () => void
+}
+
+// Scan or type in the secret, then prove the app has it by entering the code
+// it shows. Nothing changes for sign-in until that code checks out.
+export function MfaEnrollment({
+  setup,
+  onEnabled,
+  onCancel,
+}: MfaEnrollmentProps) {
+  const { t } = useTranslation('settings')
+  const enableMfa = useEnableMfa()
+
+  const form = useForm<MfaCodeFormData>({
+    resolver: zodResolver(mfaCodeSchema),
+    defaultValues: { code: '' },
+  })
+
+  const handleSubmit: SubmitHandler<MfaCodeFormData> = async (data) => {
+    try {
+      const { recoveryCodes } = await enableMfa.mutateAsync(data)
+      onEnabled(recoveryCodes)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <ol className="text-muted-foreground list-decimal space-y-1 pl-5 text-sm">
+        <li>{t('security.twoFactor.setup.scan')}</li>
+        <li>{t('security.twoFactor.setup.enterCode')}</li>
+      </ol>
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="rounded-md border bg-white p-2">
+          <QRCodeSVG
+            value={setup.otpauthUrl}
+            size={160}
+            title={t('security.twoFactor.setup.qrLabel')}
+          />
+        </div>
+        <div className="min-w-0 text-sm">
+          <p className="text-muted-foreground">
+            {t('security.twoFactor.setup.manualEntry')}
+          </p>
+          <code className="bg-muted mt-1 block rounded px-2 py-1 font-mono break-all">
+            {setup.secret}
+          </code>
+        </div>
+      </div>
+
+      {enableMfa.error && !hasFieldErrors(enableMfa.error) && (
+        <div
+          role="alert"
+          className="bg-destructive/10 text-destructive border-destructive/20 rounded-md border px-4 py-3 text-sm"
+        >
+          {t('security.twoFactor.setup.failed')}
+        </div>
+      )}
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('security.twoFactor.setup.code')}</FormLabel>
+                <FormControl>
+                  <Input
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    className="max-w-40"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={enableMfa.isPending}>
+              {enableMfa.isPending
+                ? t('security.twoFactor.setup.verifying')
+                : t('security.twoFactor.setup.verify')}
+            </Button>
+            <Button type="button" variant="ghost" onClick={onCancel}>
+              {t('security.twoFactor.setup.cancel')}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { useTranslation } from 'react-i18next'
+import { Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getPasswordStrength, PASSWORD_RULES } from '@/lib/validators/auth'
+
+type StrengthLevel = 'weak' | 'fair' | 'good' | 'strong'
+
+// Indexed by score
+const LEVELS: StrengthLevel[] = ['weak', 'weak', 'fair', 'good', 'strong']
+
+const BAR_STYLES: Record<StrengthLevel, string> = {
+  weak: 'bg-destructive',
+  fair: 'bg-amber-500',
+  good: 'bg-green-500',
+  strong: 'bg-green-600',
+}
+
+const SEGMENTS = 4
+
+interface PasswordStrengthMeterProps {
+  password: string
+}
+
+// The bar is decorative; the level and the checklist carry the same
+// information as text for screen readers
+export function PasswordStrengthMeter({
+  password,
+}: PasswordStrengthMeterProps) {
+  const { t } = useTranslation('settings')
+  const { passed, score } = getPasswordStrength(password)
+  const level = LEVELS[score] ?? 'weak'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1" aria-hidden>
+        {Array.from({ length: SEGMENTS }, (_, i) => (
+          <div
+            key={i}
+            className={cn(
+              'h-1.5 flex-1 rounded-full',
+              i < score ? BAR_STYLES[level] : 'bg-muted'
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-muted-foreground text-xs" aria-live="polite">
+        {password
+          ? t('security.strength.label', {
+              level: t(`security.strength.levels.${level}`),
+            })
+          : null}
+      </p>
+      <ul className="space-y-1 text-xs">
+        {PASSWORD_RULES.map((rule) => {
+          const met = passed.includes(rule.id)
+          const Icon = met ? Check : X
+          return (
+            <li
+              key={rule.id}
+              className={cn(
+                'flex items-center gap-1.5',
+                met
+                  ? 'text-green-600 dark:text-green-400'
+                  : 'text-muted-foreground'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" aria-hidden />
+              {t(`security.strength.rules.${rule.id}`)}{' '}
+              <span className="sr-only">
+                {met
+                  ? t('security.strength.met')
+                  : t('security.strength.notMet')}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
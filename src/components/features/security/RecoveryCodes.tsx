@@ -0,0 +1,53 @@
+import { useTranslation } from 'react-i18next'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { downloadFile } from '@/lib/csv'
+
+interface RecoveryCodesProps {
+  codes: string[]
+  onDone: () => void
+}
+
+// The server only returns the codes once, so this is the user's one chance to
+// save them
+export function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  const { t } = useTranslation('settings')
+
+  const handleDownload = () => {
+    downloadFile(
+      'recovery-codes.txt',
+      `${codes.join('\n')}\n`,
+      'text/plain;charset=utf-8'
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div role="status">
+        <p className="font-medium">
+          {t('security.twoFactor.recoveryCodes.title')}
+        </p>
+        <p className="text-muted-foreground text-sm">
+          {t('security.twoFactor.recoveryCodes.description')}
+        </p>
+      </div>
+      <ul
+        aria-label={t('security.twoFactor.recoveryCodes.title')}
+        className="bg-muted grid grid-cols-2 gap-2 rounded-md p-4 font-mono text-sm"
+      >
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="mr-1 h-4 w-4" aria-hidden />
+          {t('security.twoFactor.recoveryCodes.download')}
+        </Button>
+        <Button onClick={onDone}>
+          {t('security.twoFactor.recoveryCodes.done')}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { db } from '@/test/mocks/db'
+import { useAuthStore } from '@/stores/authStore'
+import { SessionList } from './SessionList'
+
+describe('SessionList', () => {
+  afterEach(() => {
+    useAuthStore.getState().logout()
+  })
+
+  it('lists the devices signed in to the account', async () => {
+    render(<SessionList />)
+
+    const items = await screen.findAllByRole('listitem')
+    expect(items).toHaveLength(2)
+    expect(items[0]).toHaveTextContent('Safari on iOS')
+    expect(items[0]).toHaveTextContent('Lisbon, Portugal · 203.0.113.24')
+    expect(items[0]).toHaveTextContent('Last active 2 hours ago')
+  })
+
+  it('marks the current device and signs out the others', async () => {
+    db.sessions.insert({
+      id: 'session-mine',
+      userId: '1',
+      device: 'Chrome on Linux',
+      ipAddress: '127.0.0.1',
+      location: null,
+      createdAt: new Date().toISOString(),
+      lastActiveAt: new Date().toISOString(),
+    })
+    // Mock tokens name the session they were issued for
+    useAuthStore.getState().setAuth('mock-jwt-token.1.session-mine', {
+      id: '1',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'admin',
+      verified: true,
+    })
+    const { user } = render(<SessionList />)
+
+    const current = await screen.findByText('This device')
+    expect(current.closest('li')).toHaveTextContent('Unknown location')
+    await user.click(
+      screen.getByRole('button', { name: 'Sign out other sessions' })
+    )
+
+    await waitFor(() => {
+      expect(screen.getAllByRole('listitem')).toHaveLength(1)
+    })
+    expect(
+      screen.getByRole('button', { name: 'Sign out other sessions' })
+    ).toBeDisabled()
+    expect(db.sessions.all().map((session) => session.id)).toEqual([
+      'session-mine',
+    ])
+  })
+})
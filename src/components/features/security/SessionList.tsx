@@ -0,0 +1,117 @@
+import { useId } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { Monitor } from 'lucide-react'
+import { sessionsQueryOptions } from '@/api/queries/security'
+import { useSignOutOtherSessions } from '@/api/mutations/security'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useNow } from '@/hooks/use-now'
+import { formatRelativeTime } from '@/lib/format'
+import { toast } from '@/lib/toast'
+import type { ActiveSession } from '@/types'
+
+export function SessionList() {
+  const { t } = useTranslation('settings')
+  const headingId = useId()
+  const now = useNow()
+  const sessionsQuery = useQuery(sessionsQueryOptions)
+  const signOutOthers = useSignOutOtherSessions()
+  const hasOthers = sessionsQuery.data?.some((session) => !session.current)
+
+  const handleSignOutOthers = () => {
+    signOutOthers.mutate(undefined, {
+      onSuccess: () => toast.success(t('security.sessions.signedOut')),
+      onError: () => toast.error(t('security.sessions.signOutFailed')),
+    })
+  }
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border">
+      <div className="flex flex-wrap items-start justify-between gap-2 border-b p-4">
+        <div>
+          <h2 id={headingId} className="text-lg font-semibold">
+            {t('security.sessions.title')}
+          </h2>
+          <p className="text-muted-foreground text-sm">
+            {t('security.sessions.description')}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!hasOthers || signOutOthers.isPending}
+          onClick={handleSignOutOthers}
+        >
+          {signOutOthers.isPending
+            ? t('security.sessions.signingOut')
+            : t('security.sessions.signOutOthers')}
+        </Button>
+      </div>
+
+      {sessionsQuery.isPending ? (
+        <div className="space-y-3 p-4" aria-busy>
+          {Array.from({ length: 3 }, (_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : sessionsQuery.isError ? (
+        <p role="alert" className="text-destructive p-4 text-sm">
+          {t('security.sessions.loadFailed')}
+        </p>
+      ) : sessionsQuery.data.length === 0 ? (
+        <p className="text-muted-foreground p-4 text-sm">
+          {t('security.sessions.empty')}
+        </p>
+      ) : (
+        <ul className="divide-y">
+          {sessionsQuery.data.map((session) => (
+            <SessionItem key={session.id} session={session} now={now} />
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
+
+interface SessionItemProps {
+  session: ActiveSession
+  now: number
+}
+
+function SessionItem({ session, now }: SessionItemProps) {
+  const { t, i18n } = useTranslation('settings')
+
+  return (
+    <li className="flex items-start gap-3 p-4">
+      <span className="bg-muted flex h-8 w-8 shrink-0 items-center justify-center rounded-full">
+        <Monitor className="h-4 w-4" aria-hidden />
+      </span>
+      <div className="min-w-0 flex-1 text-sm">
+        <p className="font-medium">
+          {session.device}
+          {session.current && (
+            <span className="bg-primary/10 text-primary ml-2 rounded-full px-2 py-0.5 text-xs">
+              {t('security.sessions.current')}
+            </span>
+          )}
+        </p>
+        <p className="text-muted-foreground text-xs">
+          {session.location ?? t('security.unknownLocation')} ·{' '}
+          {session.ipAddress}
+        </p>
+        {!session.current && (
+          <p className="text-muted-foreground text-xs">
+            {t('security.sessions.lastActive', {
+              time: formatRelativeTime(
+                session.lastActiveAt,
+                now,
+                i18n.language
+              ),
+            })}
+          </p>
+        )}
+      </div>
+    </li>
+  )
+}
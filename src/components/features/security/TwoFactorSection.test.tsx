@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { db } from '@/test/mocks/db'
+import { generateTotp } from '@/test/mocks/totp'
+import { downloadFile } from '@/lib/csv'
+import { TwoFactorSection } from './TwoFactorSection'
+
+vi.mock('@/lib/csv', () => ({ downloadFile: vi.fn() }))
+
+describe('TwoFactorSection', () => {
+  it('enrolls with a code from the new secret and offers the recovery codes', async () => {
+    const { user } = render(<TwoFactorSection />)
+
+    await user.click(
+      await screen.findByRole('button', {
+        name: 'Set up two-factor authentication',
+      })
+    )
+    const secret = (await screen.findByText(/^[A-Z2-7]{32}$/)).textContent
+    expect(
+      screen.getByTitle('QR code for your authenticator app')
+    ).toBeInTheDocument()
+
+    await user.type(
+      screen.getByLabelText('Verification code'),
+      await generateTotp(secret)
+    )
+    await user.click(screen.getByRole('button', { name: 'Turn on' }))
+
+    const codes = await screen.findByRole('list', {
+      name: 'Save your recovery codes',
+    })
+    const recoveryCodes = db.mfa.get('1')?.recoveryCodes ?? []
+    expect(codes).toHaveTextContent(recoveryCodes.join(''))
+
+    await user.click(screen.getByRole('button', { name: 'Download codes' }))
+    expect(downloadFile).toHaveBeenCalledWith(
+      'recovery-codes.txt',
+      `${recoveryCodes.join('\n')}\n`,
+      'text/plain;charset=utf-8'
+    )
+
+    await user.click(
+      screen.getByRole('button', { name: "I've saved my codes" })
+    )
+    await waitFor(() => {
+      expect(
+        screen.getByText('Two-factor authentication is on.')
+      ).toBeInTheDocument()
+    })
+    expect(screen.getByText('10 recovery codes left.')).toBeInTheDocument()
+  })
+
+  it('rejects a wrong code without turning two-factor on', async () => {
+    const { user } = render(<TwoFactorSection />)
+
+    await user.click(
+      await screen.findByRole('button', {
+        name: 'Set up two-factor authentication',
+      })
+    )
+    await user.type(await screen.findByLabelText('Verification code'), '000000')
+    await user.click(screen.getByRole('button', { name: 'Turn on' }))
+
+    expect(
+      await screen.findByText('Invalid verification code')
+    ).toBeInTheDocument()
+    expect(db.mfa.has('1')).toBe(false)
+  })
+})
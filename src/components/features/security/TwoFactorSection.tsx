@@ -0,0 +1,218 @@
+import { useId, useState } from 'react'
+import { useForm, type SubmitHandler } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import { useQuery } from '@tanstack/react-query'
+import { mfaStatusQueryOptions } from '@/api/queries/security'
+import { useDisableMfa, useStartMfaSetup } from '@/api/mutations/security'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { hasFieldErrors, setServerErrors } from '@/lib/form-errors'
+import { toast } from '@/lib/toast'
+import {
+  disableMfaSchema,
+  type DisableMfaFormData,
+} from '@/lib/validators/auth'
+import type { MfaSetup } from '@/types'
+import { MfaEnrollment } from './MfaEnrollment'
+import { RecoveryCodes } from './RecoveryCodes'
+
+export function TwoFactorSection() {
+  const { t } = useTranslation('settings')
+  const headingId = useId()
+  const statusQuery = useQuery(mfaStatusQueryOptions)
+  const startSetup = useStartMfaSetup()
+  // Enrollment is a short wizard: the secret to scan, then the recovery
+  // codes, which stay up until the user says they've saved them
+  const [setup, setSetup] = useState<MfaSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [confirmingDisable, setConfirmingDisable] = useState(false)
+
+  const handleStartSetup = () => {
+    startSetup.mutate(undefined, {
+      onSuccess: setSetup,
+      onError: () => toast.error(t('security.twoFactor.setup.startFailed')),
+    })
+  }
+
+  const handleEnabled = (codes: string[]) => {
+    setSetup(null)
+    setRecoveryCodes(codes)
+    toast.success(t('security.twoFactor.enabled'))
+  }
+
+  const renderBody = () => {
+    if (recoveryCodes) {
+      return (
+        <RecoveryCodes
+          codes={recoveryCodes}
+          onDone={() => {
+            setRecoveryCodes(null)
+          }}
+        />
+      )
+    }
+    if (setup) {
+      return (
+        <MfaEnrollment
+          setup={setup}
+          onEnabled={handleEnabled}
+          onCancel={() => {
+            setSetup(null)
+          }}
+        />
+      )
+    }
+    if (statusQuery.isPending) {
+      return (
+        <div className="space-y-3" aria-busy>
+          <Skeleton className="h-5 w-2/3" />
+          <Skeleton className="h-9 w-40" />
+        </div>
+      )
+    }
+    if (statusQuery.isError) {
+      return (
+        <p role="alert" className="text-destructive text-sm">
+          {t('security.twoFactor.loadFailed')}
+        </p>
+      )
+    }
+    if (!statusQuery.data.enabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm">{t('security.twoFactor.off')}</p>
+          <Button onClick={handleStartSetup} disabled={startSetup.isPending}>
+            {startSetup.isPending
+              ? t('security.twoFactor.setup.starting')
+              : t('security.twoFactor.setup.start')}
+          </Button>
+        </div>
+      )
+    }
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          {t('security.twoFactor.on')}{' '}
+          <span className="text-muted-foreground">
+            {t('security.twoFactor.recoveryCodesRemaining', {
+              count: statusQuery.data.recoveryCodesRemaining,
+            })}
+          </span>
+        </p>
+        {confirmingDisable ? (
+          <DisableMfaForm
+            onDone={() => {
+              setConfirmingDisable(false)
+            }}
+          />
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => {
+              setConfirmingDisable(true)
+            }}
+          >
+            {t('security.twoFactor.disable.start')}
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <section aria-labelledby={headingId} className="rounded-lg border">
+      <div className="border-b p-4">
+        <h2 id={headingId} className="text-lg font-semibold">
+          {t('security.twoFactor.title')}
+        </h2>
+        <p className="text-muted-foreground text-sm">
+          {t('security.twoFactor.description')}
+        </p>
+      </div>
+      <div className="p-4">{renderBody()}</div>
+    </section>
+  )
+}
+
+interface DisableMfaFormProps {
+  onDone: () => void
+}
+
+// Turning protection off asks for the password again, so an unattended
+// session can't quietly do it
+function DisableMfaForm({ onDone }: DisableMfaFormProps) {
+  const { t } = useTranslation('settings')
+  const disableMfa = useDisableMfa()
+
+  const form = useForm<DisableMfaFormData>({
+    resolver: zodResolver(disableMfaSchema),
+    defaultValues: { password: '' },
+  })
+
+  const handleSubmit: SubmitHandler<DisableMfaFormData> = async (data) => {
+    try {
+      await disableMfa.mutateAsync(data)
+      toast.success(t('security.twoFactor.disabled'))
+      onDone()
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {disableMfa.error && !hasFieldErrors(disableMfa.error) && (
+          <div
+            role="alert"
+            className="bg-destructive/10 text-destructive border-destructive/20 rounded-md border px-4 py-3 text-sm"
+          >
+            {t('security.twoFactor.disable.failed')}
+          </div>
+        )}
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('security.twoFactor.disable.password')}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  className="max-w-sm"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="submit"
+            variant="destructive"
+            disabled={disableMfa.isPending}
+          >
+            {disableMfa.isPending
+              ? t('security.twoFactor.disable.submitting')
+              : t('security.twoFactor.disable.submit')}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onDone}>
+            {t('security.twoFactor.disable.cancel')}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
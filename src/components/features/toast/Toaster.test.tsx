@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { render, screen, act, fireEvent } from '@/test/test-utils'
+import { useToastStore } from '@/stores/toastStore'
+import { toast } from '@/lib/toast'
+import { Toaster } from './Toaster'
+
+describe('Toaster', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ shouldAdvanceTime: true })
+    useToastStore.getState().clearToasts()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('announces toasts raised through the imperative API', () => {
+    render(<Toaster />)
+
+    act(() => {
+      toast.success('User created successfully.')
+    })
+
+    const region = screen.getByRole('region', { name: 'Notifications' })
+    expect(region.querySelector('[aria-live="polite"]')).toHaveTextContent(
+      'User created successfully.'
+    )
+  })
+
+  it('dismisses toasts after their duration', () => {
+    render(<Toaster />)
+
+    act(() => {
+      toast('Saved', { duration: 1000 })
+    })
+    expect(screen.getByText('Saved')).toBeInTheDocument()
+
+    act(() => {
+      vi.advanceTimersByTime(1000)
+    })
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument()
+  })
+
+  it('pauses the countdown while hovered', () => {
+    render(<Toaster />)
+
+    act(() => {
+      toast('Saved', { duration: 1000 })
+    })
+    const list = screen.getByText('Saved').closest('ol')!
+
+    act(() => {
+      vi.advanceTimersByTime(600)
+    })
+    fireEvent.mouseEnter(list)
+    act(() => {
+      vi.advanceTimersByTime(5000)
+    })
+    expect(screen.getByText('Saved')).toBeInTheDocument()
+
+    fireEvent.mouseLeave(list)
+    act(() => {
+      vi.advanceTimersByTime(400)
+    })
+    expect(screen.queryByText('Saved')).not.toBeInTheDocument()
+  })
+
+  it('queues toasts beyond the visible limit', () => {
+    render(<Toaster />)
+
+    act(() => {
+      for (const title of ['One', 'Two', 'Three', 'Four']) {
+        toast(title, { duration: Infinity })
+      }
+    })
+    expect(screen.queryByText('Four')).not.toBeInTheDocument()
+
+    act(() => {
+      toast.dismiss(useToastStore.getState().toasts[0]!.id)
+    })
+    expect(screen.queryByText('One')).not.toBeInTheDocument()
+    expect(screen.getByText('Four')).toBeInTheDocument()
+  })
+
+  it('runs the action and closes the toast', async () => {
+    const onUndo = vi.fn()
+    const { user } = render(<Toaster />)
+
+    act(() => {
+      toast('User deleted.', { action: { label: 'Undo', onClick: onUndo } })
+    })
+    await user.click(screen.getByRole('button', { name: 'Undo' }))
+
+    expect(onUndo).toHaveBeenCalledOnce()
+    expect(screen.queryByText('User deleted.')).not.toBeInTheDocument()
+  })
+
+  it('uses an alert for errors', () => {
+    render(<Toaster />)
+
+    act(() => {
+      toast.error('Something went wrong')
+    })
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Something went wrong')
+  })
+})
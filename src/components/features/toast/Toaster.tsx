@@ -0,0 +1,134 @@
+import { useEffect, useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { CheckCircle2, CircleAlert, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToastStore, type Toast } from '@/stores/toastStore'
+import { cn } from '@/lib/utils'
+
+// Later toasts wait in the queue until one of these is dismissed
+const MAX_VISIBLE_TOASTS = 3
+
+export function Toaster() {
+  const { t } = useTranslation('common')
+  const toasts = useToastStore((s) => s.toasts)
+  const [isHovered, setIsHovered] = useState(false)
+  const [hasFocus, setHasFocus] = useState(false)
+
+  return (
+    <section
+      aria-label={t('toast.region')}
+      className="pointer-events-none fixed right-0 bottom-0 z-[100] w-full p-4 sm:max-w-sm"
+    >
+      {/* Stays mounted so screen readers announce toasts as they're added */}
+      <ol
+        aria-live="polite"
+        className="flex flex-col gap-2"
+        onMouseEnter={() => {
+          setIsHovered(true)
+        }}
+        onMouseLeave={() => {
+          setIsHovered(false)
+        }}
+        onFocus={() => {
+          setHasFocus(true)
+        }}
+        onBlur={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget)) {
+            setHasFocus(false)
+          }
+        }}
+      >
+        {toasts.slice(0, MAX_VISIBLE_TOASTS).map((toast) => (
+          <ToastItem
+            key={toast.id}
+            toast={toast}
+            paused={isHovered || hasFocus}
+          />
+        ))}
+      </ol>
+    </section>
+  )
+}
+
+interface ToastItemProps {
+  toast: Toast
+  paused: boolean
+}
+
+function ToastItem({ toast, paused }: ToastItemProps) {
+  const { t } = useTranslation('common')
+  const dismissToast = useToastStore((s) => s.dismissToast)
+  const remainingRef = useRef(toast.duration)
+
+  // The countdown only runs while the toast is visible and not being read,
+  // and resumes with whatever time was left
+  useEffect(() => {
+    if (paused || !Number.isFinite(remainingRef.current)) return
+    const startedAt = Date.now()
+    const timeout = setTimeout(() => {
+      dismissToast(toast.id)
+    }, remainingRef.current)
+    return () => {
+      clearTimeout(timeout)
+      remainingRef.current -= Date.now() - startedAt
+    }
+  }, [paused, toast.id, dismissToast])
+
+  const Icon =
+    toast.variant === 'success'
+      ? CheckCircle2
+      : toast.variant === 'error'
+        ? CircleAlert
+        : null
+
+  return (
+    <li
+      role={toast.variant === 'error' ? 'alert' : undefined}
+      className={cn(
+        'bg-popover text-popover-foreground animate-in fade-in slide-in-from-bottom-2 pointer-events-auto flex items-start gap-3 rounded-lg border p-4 shadow-lg',
+        toast.variant === 'error' && 'border-destructive/50'
+      )}
+    >
+      {Icon && (
+        <Icon
+          aria-hidden
+          className={cn(
+            'mt-0.5 h-5 w-5 shrink-0',
+            toast.variant === 'success' && 'text-green-600 dark:text-green-400',
+            toast.variant === 'error' && 'text-destructive'
+          )}
+        />
+      )}
+      <div className="flex-1 space-y-1">
+        <p className="text-sm font-medium">{toast.title}</p>
+        {toast.description && (
+          <p className="text-muted-foreground text-sm">{toast.description}</p>
+        )}
+      </div>
+      {toast.action && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 shrink-0"
+          onClick={() => {
+            toast.action?.onClick()
+            dismissToast(toast.id)
+          }}
+        >
+          {toast.action.label}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0"
+        aria-label={t('toast.dismiss')}
+        onClick={() => {
+          dismissToast(toast.id)
+        }}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </li>
+  )
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { axe } from 'vitest-axe'
+import { ApiError } from '@/api/client'
+import { ChangePasswordForm } from './ChangePasswordForm'
+
+describe('ChangePasswordForm', () => {
+  const mockOnSubmit = vi.fn<(data: unknown) => Promise<void>>()
+
+  beforeEach(() => {
+    mockOnSubmit.mockClear()
+    mockOnSubmit.mockResolvedValue(undefined)
+  })
+
+  it('rates the new password against the sign-up rules', async () => {
+    const { user } = render(<ChangePasswordForm onSubmit={mockOnSubmit} />)
+    const newPassword = screen.getByLabelText('New password')
+
+    await user.type(newPassword, 'sunshine')
+    expect(screen.getByText('Password strength: Weak')).toBeInTheDocument()
+    expect(screen.getByText('An uppercase letter')).toHaveTextContent(
+      '(missing)'
+    )
+
+    await user.clear(newPassword)
+    await user.type(newPassword, 'Sunshine-2025')
+    expect(screen.getByText('Password strength: Strong')).toBeInTheDocument()
+    expect(screen.getByText('An uppercase letter')).toHaveTextContent('(done)')
+  })
+
+  it('submits and clears the fields', async () => {
+    const { user } = render(<ChangePasswordForm onSubmit={mockOnSubmit} />)
+
+    await user.type(screen.getByLabelText('Current password'), 'password123')
+    await user.type(screen.getByLabelText('New password'), 'Sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'Sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Update password' }))
+
+    await waitFor(() => {
+      expect(mockOnSubmit).toHaveBeenCalledWith(
+        {
+          currentPassword: 'password123',
+          newPassword: 'Sunshine42',
+          confirmPassword: 'Sunshine42',
+        },
+        expect.anything()
+      )
+    })
+    await waitFor(() => {
+      expect(screen.getByLabelText('Current password')).toHaveValue('')
+    })
+  })
+
+  it('shows a wrong current password on its field', async () => {
+    mockOnSubmit.mockRejectedValue(
+      new ApiError(422, 'Unprocessable Entity', {
+        message: 'Validation failed',
+        errors: { currentPassword: ['Current password is incorrect'] },
+      })
+    )
+    const { user } = render(<ChangePasswordForm onSubmit={mockOnSubmit} />)
+
+    await user.type(screen.getByLabelText('Current password'), 'wrong-one')
+    await user.type(screen.getByLabelText('New password'), 'Sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'Sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Update password' }))
+
+    expect(
+      await screen.findByText('Current password is incorrect')
+    ).toBeInTheDocument()
+    expect(screen.getByLabelText('Current password')).toHaveFocus()
+    expect(screen.getByLabelText('New password')).toHaveValue('Sunshine42')
+  })
+
+  it('shows a rejected new password on its field', async () => {
+    mockOnSubmit.mockRejectedValue(
+      new ApiError(422, 'Unprocessable Entity', {
+        message: 'Validation failed',
+        errors: { newPassword: ['Password has appeared in a data breach'] },
+      })
+    )
+    const { user } = render(<ChangePasswordForm onSubmit={mockOnSubmit} />)
+
+    await user.type(screen.getByLabelText('Current password'), 'password123')
+    await user.type(screen.getByLabelText('New password'), 'Sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'Sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Update password' }))
+
+    expect(
+      await screen.findByText('Password has appeared in a data breach')
+    ).toBeInTheDocument()
+    expect(screen.getByLabelText('New password')).toHaveFocus()
+    expect(screen.getByLabelText('New password')).toHaveAttribute(
+      'aria-invalid',
+      'true'
+    )
+  })
+
+  it('should have no accessibility violations', async () => {
+    const { container, user } = render(
+      <ChangePasswordForm onSubmit={mockOnSubmit} />
+    )
+    await user.type(screen.getByLabelText('New password'), 'Sunshine')
+
+    const results = await axe(container)
+    expect(results).toHaveNoViolations()
+  })
+})
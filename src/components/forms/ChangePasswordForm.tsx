@@ -0,0 +1,118 @@
+import { useForm, useWatch, type SubmitHandler } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { PasswordStrengthMeter } from '@/components/features/security/PasswordStrengthMeter'
+import {
+  changePasswordSchema,
+  type ChangePasswordFormData,
+} from '@/lib/validators/auth'
+import { setServerErrors } from '@/lib/form-errors'
+
+interface ChangePasswordFormProps {
+  onSubmit: SubmitHandler<ChangePasswordFormData>
+  isLoading?: boolean
+}
+
+export function ChangePasswordForm({
+  onSubmit,
+  isLoading,
+}: ChangePasswordFormProps) {
+  const { t } = useTranslation('settings')
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+  })
+  const newPassword = useWatch({ control: form.control, name: 'newPassword' })
+
+  // Clears the fields once the password has changed, so it isn't left
+  // sitting in the form
+  const handleSubmit: SubmitHandler<ChangePasswordFormData> = async (
+    data,
+    event
+  ) => {
+    try {
+      await onSubmit(data, event)
+      form.reset()
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {t('security.changePassword.currentPassword')}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('security.changePassword.newPassword')}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <PasswordStrengthMeter password={newPassword} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {t('security.changePassword.confirmPassword')}
+              </FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={isLoading}>
+          {isLoading
+            ? t('security.changePassword.submitting')
+            : t('security.changePassword.submit')}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@/test/test-utils'
 import { axe } from 'vitest-axe'
 import { CreateUserForm } from './CreateUserForm'
+import { ApiError } from '@/api/client'
 
 describe('CreateUserForm', () => {
   const mockOnSubmit = vi.fn<(data: unknown) => Promise<void>>()
@@ -57,6 +58,26 @@ describe('CreateUserForm', () => {
     })
   })
 
+  it('shows field errors returned by the server', async () => {
+    mockOnSubmit.mockRejectedValue(
+      new ApiError(422, 'Unprocessable Entity', {
+        message: 'Validation failed',
+        errors: { email: ['This email is already in use'] },
+      })
+    )
+    const { user } = render(<CreateUserForm onSubmit={mockOnSubmit} />)
+
+    await user.type(screen.getByLabelText(/^name$/i), 'Jane Doe')
+    await user.type(screen.getByLabelText(/email/i), 'jane@example.com')
+    await user.type(screen.getByLabelText(/password/i), 'password123')
+    await user.click(screen.getByRole('button', { name: /create user/i }))
+
+    expect(
+      await screen.findByText('This email is already in use')
+    ).toBeInTheDocument()
+    expect(screen.getByLabelText(/email/i)).toHaveFocus()
+  })
+
   it('shows loading state', () => {
     render(<CreateUserForm onSubmit={mockOnSubmit} isLoading />)
 
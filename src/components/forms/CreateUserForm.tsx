@@ -1,4 +1,4 @@
-import { useForm } from 'react-hook-form'
+import { useForm, type SubmitHandler } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useTranslation } from 'react-i18next'
 import {
@@ -22,9 +22,10 @@ import {
   createUserSchema,
   type CreateUserFormData,
 } from '@/lib/validators/user'
+import { setServerErrors } from '@/lib/form-errors'
 
 interface CreateUserFormProps {
-  onSubmit: (data: CreateUserFormData) => void | Promise<void>
+  onSubmit: SubmitHandler<CreateUserFormData>
   isLoading?: boolean
 }
 
@@ -41,9 +42,20 @@ export function CreateUserForm({ onSubmit, isLoading }: CreateUserFormProps) {
     },
   })
 
+  const handleSubmit: SubmitHandler<CreateUserFormData> = async (
+    data,
+    event
+  ) => {
+    try {
+      await onSubmit(data, event)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
         <FormField
           control={form.control}
           name="name"
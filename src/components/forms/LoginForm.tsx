@@ -1,4 +1,4 @@
-import { useForm } from 'react-hook-form'
+import { useForm, type SubmitHandler } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useTranslation } from 'react-i18next'
 import {
@@ -13,9 +13,10 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { loginSchema, type LoginFormData } from '@/lib/validators/auth'
+import { setServerErrors } from '@/lib/form-errors'
 
 interface LoginFormProps {
-  onSubmit: (data: LoginFormData) => void | Promise<void>
+  onSubmit: SubmitHandler<LoginFormData>
   isLoading?: boolean
 }
 
@@ -31,9 +32,17 @@ export function LoginForm({ onSubmit, isLoading }: LoginFormProps) {
     },
   })
 
+  const handleSubmit: SubmitHandler<LoginFormData> = async (data, event) => {
+    try {
+      await onSubmit(data, event)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
         <FormField
           control={form.control}
           name="email"
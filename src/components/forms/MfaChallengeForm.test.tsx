@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { axe } from 'vitest-axe'
+import { ApiError } from '@/api/client'
+import { MfaChallengeForm } from './MfaChallengeForm'
+
+describe('MfaChallengeForm', () => {
+  const mockOnSubmit = vi.fn<(data: unknown) => Promise<void>>()
+
+  beforeEach(() => {
+    mockOnSubmit.mockClear()
+    mockOnSubmit.mockResolvedValue(undefined)
+  })
+
+  it('only submits a six-digit code', async () => {
+    const { user } = render(<MfaChallengeForm onSubmit={mockOnSubmit} />)
+
+    await user.type(screen.getByLabelText('Authentication code'), '12ab')
+    await user.click(screen.getByRole('button', { name: 'Verify' }))
+    expect(
+      await screen.findByText('Enter the 6-digit code')
+    ).toBeInTheDocument()
+    expect(mockOnSubmit).not.toHaveBeenCalled()
+
+    await user.clear(screen.getByLabelText('Authentication code'))
+    await user.type(screen.getByLabelText('Authentication code'), '123456')
+    await user.click(screen.getByRole('button', { name: 'Verify' }))
+    await waitFor(() => {
+      expect(mockOnSubmit).toHaveBeenCalledWith({ code: '123456' })
+    })
+  })
+
+  it('falls back to a recovery code', async () => {
+    mockOnSubmit.mockRejectedValueOnce(
+      new ApiError(422, 'Unprocessable Entity', {
+        message: 'Validation failed',
+        errors: { recoveryCode: ['Invalid recovery code'] },
+      })
+    )
+    const { user } = render(<MfaChallengeForm onSubmit={mockOnSubmit} />)
+
+    await user.click(
+      screen.getByRole('button', { name: 'Use a recovery code instead' })
+    )
+    await user.type(screen.getByLabelText('Recovery code'), ' a1b2-c3d4 ')
+    await user.click(screen.getByRole('button', { name: 'Verify' }))
+
+    expect(await screen.findByText('Invalid recovery code')).toBeInTheDocument()
+    expect(mockOnSubmit).toHaveBeenCalledWith({ recoveryCode: 'a1b2-c3d4' })
+    expect(
+      screen.getByRole('button', { name: 'Use your authenticator app instead' })
+    ).toBeInTheDocument()
+  })
+
+  it('should have no accessibility violations', async () => {
+    const { container } = render(<MfaChallengeForm onSubmit={mockOnSubmit} />)
+
+    const results = await axe(container)
+    expect(results).toHaveNoViolations()
+  })
+})
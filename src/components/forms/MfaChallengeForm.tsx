@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { useForm, type SubmitHandler } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import {
+  mfaCodeSchema,
+  recoveryCodeSchema,
+  type MfaCodeFormData,
+  type RecoveryCodeFormData,
+} from '@/lib/validators/auth'
+import { setServerErrors } from '@/lib/form-errors'
+
+export type MfaChallengeFormData = MfaCodeFormData | RecoveryCodeFormData
+
+interface MfaChallengeFormProps {
+  onSubmit: (data: MfaChallengeFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+// The second sign-in step: a code from the authenticator app, or a recovery
+// code for someone who doesn't have their phone
+export function MfaChallengeForm({
+  onSubmit,
+  isLoading,
+}: MfaChallengeFormProps) {
+  const { t } = useTranslation('auth')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+
+  return (
+    <div className="space-y-4">
+      {useRecoveryCode ? (
+        <RecoveryCodeForm onSubmit={onSubmit} isLoading={isLoading} />
+      ) : (
+        <AuthenticatorCodeForm onSubmit={onSubmit} isLoading={isLoading} />
+      )}
+      <Button
+        type="button"
+        variant="link"
+        className="w-full"
+        onClick={() => {
+          setUseRecoveryCode((value) => !value)
+        }}
+      >
+        {useRecoveryCode ? t('mfa.useAuthenticator') : t('mfa.useRecoveryCode')}
+      </Button>
+    </div>
+  )
+}
+
+interface StepFormProps<T> {
+  onSubmit: (data: T) => Promise<void>
+  isLoading?: boolean
+}
+
+function AuthenticatorCodeForm({
+  onSubmit,
+  isLoading,
+}: StepFormProps<MfaCodeFormData>) {
+  const { t } = useTranslation('auth')
+
+  const form = useForm<MfaCodeFormData>({
+    resolver: zodResolver(mfaCodeSchema),
+    defaultValues: { code: '' },
+  })
+
+  const handleSubmit: SubmitHandler<MfaCodeFormData> = async (data) => {
+    try {
+      await onSubmit(data)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('mfa.code')}</FormLabel>
+              <FormControl>
+                <Input
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>{t('mfa.codeHint')}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? t('mfa.verifying') : t('mfa.verify')}
+        </Button>
+      </form>
+    </Form>
+  )
+}
+
+function RecoveryCodeForm({
+  onSubmit,
+  isLoading,
+}: StepFormProps<RecoveryCodeFormData>) {
+  const { t } = useTranslation('auth')
+
+  const form = useForm<RecoveryCodeFormData>({
+    resolver: zodResolver(recoveryCodeSchema),
+    defaultValues: { recoveryCode: '' },
+  })
+
+  const handleSubmit: SubmitHandler<RecoveryCodeFormData> = async (data) => {
+    try {
+      await onSubmit(data)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="recoveryCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('mfa.recoveryCode')}</FormLabel>
+              <FormControl>
+                <Input autoComplete="off" {...field} />
+              </FormControl>
+              <FormDescription>{t('mfa.recoveryCodeHint')}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? t('mfa.verifying') : t('mfa.verify')}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { axe } from 'vitest-axe'
+import { PostForm } from './PostForm'
+
+describe('PostForm', () => {
+  const mockOnSubmit = vi.fn<(data: unknown) => Promise<void>>()
+
+  beforeEach(() => {
+    mockOnSubmit.mockClear()
+    mockOnSubmit.mockResolvedValue(undefined)
+  })
+
+  it('shows validation errors for empty fields', async () => {
+    const { user } = render(
+      <PostForm onSubmit={mockOnSubmit} submitLabel="Publish" />
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Publish' }))
+
+    await waitFor(() => {
+      expect(screen.getByText('Title is required')).toBeInTheDocument()
+    })
+    expect(screen.getByText('Content is required')).toBeInTheDocument()
+    expect(mockOnSubmit).not.toHaveBeenCalled()
+  })
+
+  it('submits trimmed values', async () => {
+    const { user } = render(
+      <PostForm onSubmit={mockOnSubmit} submitLabel="Publish" />
+    )
+
+    await user.type(screen.getByLabelText('Title'), '  Release notes ')
+    await user.type(screen.getByLabelText('Content'), 'Version 2 is out.')
+    await user.click(screen.getByRole('button', { name: 'Publish' }))
+
+    await waitFor(() => {
+      expect(mockOnSubmit).toHaveBeenCalledWith(
+        { title: 'Release notes', content: 'Version 2 is out.' },
+        expect.anything()
+      )
+    })
+  })
+
+  it('starts from the post being edited', () => {
+    render(
+      <PostForm
+        onSubmit={mockOnSubmit}
+        submitLabel="Save changes"
+        defaultValues={{ title: 'Draft', content: 'Body' }}
+      />
+    )
+
+    expect(screen.getByLabelText('Title')).toHaveValue('Draft')
+    expect(screen.getByLabelText('Content')).toHaveValue('Body')
+  })
+
+  it('should have no accessibility violations', async () => {
+    const { container } = render(
+      <PostForm onSubmit={mockOnSubmit} submitLabel="Publish" />
+    )
+    const results = await axe(container)
+    expect(results).toHaveNoViolations()
+  })
+})
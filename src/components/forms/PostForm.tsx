@@ -0,0 +1,93 @@
+import { useForm, type SubmitHandler } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { MarkdownEditor } from '@/components/features/posts/MarkdownEditor'
+import { postSchema, type PostFormData } from '@/lib/validators/post'
+import { setServerErrors } from '@/lib/form-errors'
+
+interface PostFormProps {
+  onSubmit: SubmitHandler<PostFormData>
+  isLoading?: boolean
+  defaultValues?: Partial<PostFormData>
+  submitLabel: string
+}
+
+export function PostForm({
+  onSubmit,
+  isLoading,
+  defaultValues,
+  submitLabel,
+}: PostFormProps) {
+  const { t } = useTranslation('users')
+
+  const form = useForm<PostFormData>({
+    resolver: zodResolver(postSchema),
+    defaultValues: {
+      title: defaultValues?.title ?? '',
+      content: defaultValues?.content ?? '',
+    },
+  })
+
+  const handleSubmit: SubmitHandler<PostFormData> = async (data, event) => {
+    try {
+      await onSubmit(data, event)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('posts.form.title')}</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder={t('posts.form.titlePlaceholder')}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="content"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t('posts.form.content')}</FormLabel>
+              <FormControl>
+                <MarkdownEditor
+                  rows={8}
+                  placeholder={t('posts.form.contentPlaceholder')}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? t('posts.form.saving') : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  )
+}
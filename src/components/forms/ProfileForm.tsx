@@ -1,4 +1,4 @@
-import { useForm } from 'react-hook-form'
+import { useForm, type SubmitHandler } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useTranslation } from 'react-i18next'
 import {
@@ -12,9 +12,10 @@ import {
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { profileSchema, type ProfileFormData } from '@/lib/validators/user'
+import { setServerErrors } from '@/lib/form-errors'
 
 interface ProfileFormProps {
-  onSubmit: (data: ProfileFormData) => void | Promise<void>
+  onSubmit: SubmitHandler<ProfileFormData>
   isLoading?: boolean
   defaultValues?: Partial<ProfileFormData>
 }
@@ -34,9 +35,17 @@ export function ProfileForm({
     },
   })
 
+  const handleSubmit: SubmitHandler<ProfileFormData> = async (data, event) => {
+    try {
+      await onSubmit(data, event)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
   return (
     <Form {...form}>
-      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
         <FormField
           control={form.control}
           name="name"
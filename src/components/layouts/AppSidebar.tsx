@@ -5,6 +5,7 @@ import {
   LayoutDashboard,
   Settings,
   Users,
+  FileText,
   ShieldCheck,
   LogOut,
 } from 'lucide-react'
@@ -22,18 +23,23 @@ import {
   SidebarRail,
 } from '@/components/ui/sidebar'
 import { Button } from '@/components/ui/button'
+import { hasPermission, type Permission } from '@/lib/permissions'
+import type { Role } from '@/types'
 
 type NavKey =
   | 'navigation.home'
   | 'navigation.dashboard'
   | 'navigation.settings'
   | 'navigation.users'
+  | 'navigation.posts'
   | 'navigation.admin'
 
 interface NavItem {
   label: NavKey
   to: string
   icon: React.ComponentType<{ className?: string }>
+  // Hidden unless the signed-in user has this permission
+  permission?: Permission
 }
 
 interface AppSidebarProps extends Omit<
@@ -41,7 +47,7 @@ interface AppSidebarProps extends Omit<
   'variant'
 > {
   navVariant: 'public' | 'authenticated'
-  user?: { id: string; name: string } | null
+  user?: { id: string; name: string; role: Role } | null
   onLogout?: () => void
 }
 
@@ -56,7 +62,13 @@ const authNav: NavItem[] = [
   { label: 'navigation.dashboard', to: '/dashboard', icon: LayoutDashboard },
   { label: 'navigation.settings', to: '/settings', icon: Settings },
   { label: 'navigation.users', to: '/users', icon: Users },
-  { label: 'navigation.admin', to: '/admin/users', icon: ShieldCheck },
+  { label: 'navigation.posts', to: '/posts', icon: FileText },
+  {
+    label: 'navigation.admin',
+    to: '/admin/users',
+    icon: ShieldCheck,
+    permission: 'users:manage',
+  },
 ]
 
 export function AppSidebar({
@@ -67,7 +79,9 @@ export function AppSidebar({
 }: AppSidebarProps) {
   const { t } = useTranslation('common')
   const pathname = useRouterState({ select: (s) => s.location.pathname })
-  const items = navVariant === 'public' ? publicNav : authNav
+  const items = (navVariant === 'public' ? publicNav : authNav).filter(
+    (item) => !item.permission || hasPermission(user ?? null, item.permission)
+  )
 
   return (
     <Sidebar collapsible="icon" {...props}>
@@ -1,5 +1,6 @@
 import type { ReactNode } from 'react'
 import { useAuthStore } from '@/stores/authStore'
+import { useLogout } from '@/api/mutations/auth'
 import { useTranslation } from 'react-i18next'
 import { Link, useNavigate } from '@tanstack/react-router'
 import { useUIStore } from '@/stores/uiStore'
@@ -8,8 +9,17 @@ import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar'
 import { Separator } from '@/components/ui/separator'
 import { ThemeToggle } from '@/components/features/theme/ThemeToggle'
 import { LocalePicker } from '@/components/features/locale/LocalePicker'
+import { IdleTimeoutDialog } from '@/components/features/auth/IdleTimeoutDialog'
+import { EmailVerificationBanner } from '@/components/features/auth/EmailVerificationBanner'
+import { ConnectionStatus } from '@/components/features/realtime/ConnectionStatus'
+import { useIdleTimeout } from '@/hooks/use-idle-timeout'
+import { useRealtimeUpdates } from '@/hooks/use-realtime-updates'
 import { AppSidebar } from './AppSidebar'
 
+// Sessions without "Remember me" sign out after this much inactivity
+const IDLE_TIMEOUT = 1000 * 60 * 15 // 15 minutes
+const IDLE_WARNING = 1000 * 60 // 1 minute
+
 interface AuthLayoutProps {
   children: ReactNode
 }
@@ -17,16 +27,28 @@ interface AuthLayoutProps {
 export function AuthLayout({ children }: AuthLayoutProps) {
   const { t } = useTranslation('common')
   const user = useAuthStore((s) => s.user)
-  const logout = useAuthStore((s) => s.logout)
+  const rememberMe = useAuthStore((s) => s.rememberMe)
+  const logout = useLogout()
   const navigate = useNavigate()
   const sidebarOpen = useUIStore((s) => s.sidebarOpen)
   const setSidebarOpen = useUIStore((s) => s.setSidebarOpen)
+  const realtimeStatus = useRealtimeUpdates()
 
   const handleLogout = () => {
-    logout()
-    void navigate({ to: '/login' })
+    logout.mutate(undefined, {
+      onSettled: () => {
+        void navigate({ to: '/login' })
+      },
+    })
   }
 
+  const idle = useIdleTimeout({
+    enabled: !rememberMe,
+    timeout: IDLE_TIMEOUT,
+    warningTime: IDLE_WARNING,
+    onTimeout: handleLogout,
+  })
+
   return (
     <SidebarProvider open={sidebarOpen} onOpenChange={setSidebarOpen}>
       <AppSidebar
@@ -42,6 +64,7 @@ export function AuthLayout({ children }: AuthLayoutProps) {
             <span className="text-sm font-semibold">{t('appName')}</span>
           </div>
           <div className="flex items-center gap-4">
+            <ConnectionStatus status={realtimeStatus} />
             <LocalePicker />
             <ThemeToggle />
             <Link
@@ -56,8 +79,15 @@ export function AuthLayout({ children }: AuthLayoutProps) {
             </Button>
           </div>
         </header>
+        <EmailVerificationBanner />
         <main className="flex-1 p-6">{children}</main>
       </div>
+      <IdleTimeoutDialog
+        open={idle.isWarning}
+        remainingSeconds={idle.remainingSeconds}
+        onStaySignedIn={idle.reset}
+        onSignOut={handleLogout}
+      />
     </SidebarProvider>
   )
 }
@@ -0,0 +1,15 @@
+import { Loader2 } from 'lucide-react'
+
+// Rendered before i18n and the router are ready, so the label is not
+// translated
+export function SplashScreen() {
+  return (
+    <div
+      role="status"
+      className="bg-background flex min-h-screen items-center justify-center"
+    >
+      <Loader2 className="text-muted-foreground h-8 w-8 animate-spin" />
+      <span className="sr-only">Loading...</span>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import { createElement, type ReactNode } from 'react'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { server } from '@/test/mocks/server'
+import { useDashboardStore } from '@/stores/dashboardStore'
+import { useDashboardLayoutSync } from './use-dashboard-layout-sync'
+import type { DashboardWidget, UserPreferences } from '@/types'
+
+function renderSync(preferences: UserPreferences) {
+  const saved: Partial<UserPreferences>[] = []
+  server.use(
+    http.get('/api/me/preferences', () => HttpResponse.json(preferences)),
+    http.put('/api/me/preferences', async ({ request }) => {
+      const body = (await request.json()) as Partial<UserPreferences>
+      saved.push(body)
+      return HttpResponse.json({ ...preferences, ...body })
+    })
+  )
+
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  })
+  const wrapper = ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children)
+  renderHook(
+    () => {
+      useDashboardLayoutSync('1')
+    },
+    { wrapper }
+  )
+
+  return { saved, queryClient }
+}
+
+const serverLayout: DashboardWidget[] = [{ type: 'metrics', size: 'large' }]
+
+describe('useDashboardLayoutSync', () => {
+  beforeEach(() => {
+    useDashboardStore.setState({ layouts: {} })
+  })
+
+  it('adopts the layout saved on the server', async () => {
+    renderSync({ dashboardLayout: serverLayout })
+
+    await waitFor(() => {
+      expect(useDashboardStore.getState().layouts['1']).toEqual(serverLayout)
+    })
+  })
+
+  it('pushes local changes once they settle', async () => {
+    const { saved } = renderSync({ dashboardLayout: null })
+
+    act(() => {
+      useDashboardStore.getState().removeWidget('1', 'activity')
+    })
+
+    await waitFor(
+      () => {
+        expect(saved).toHaveLength(1)
+      },
+      { timeout: 2000 }
+    )
+    expect(
+      saved[0]?.dashboardLayout?.some((widget) => widget.type === 'activity')
+    ).toBe(false)
+  })
+
+  it('keeps a local edit when an older server copy arrives later', async () => {
+    const { saved, queryClient } = renderSync({ dashboardLayout: serverLayout })
+    await waitFor(() => {
+      expect(useDashboardStore.getState().layouts['1']).toEqual(serverLayout)
+    })
+
+    act(() => {
+      useDashboardStore.getState().removeWidget('1', 'metrics')
+    })
+    // e.g. the response to a save sent before the edit
+    act(() => {
+      queryClient.setQueryData<UserPreferences>(['me', 'preferences'], {
+        dashboardLayout: [{ type: 'quickLinks', size: 'small' }],
+      })
+    })
+
+    expect(useDashboardStore.getState().layouts['1']).toEqual([])
+    await waitFor(
+      () => {
+        expect(saved).toEqual([{ dashboardLayout: [] }])
+      },
+      { timeout: 2000 }
+    )
+  })
+
+  it('keeps the layout local when preferences are unavailable', async () => {
+    server.use(
+      http.get('/api/me/preferences', () =>
+        HttpResponse.json(null, { status: 404 })
+      )
+    )
+    const queryClient = new QueryClient()
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children)
+    renderHook(
+      () => {
+        useDashboardLayoutSync('1')
+      },
+      { wrapper }
+    )
+
+    act(() => {
+      useDashboardStore.getState().removeWidget('1', 'activity')
+    })
+
+    await waitFor(() => {
+      expect(queryClient.getQueryState(['me', 'preferences'])?.status).toBe(
+        'error'
+      )
+    })
+    expect(useDashboardStore.getState().layouts['1']).toHaveLength(4)
+  })
+})
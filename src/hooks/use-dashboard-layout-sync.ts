@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { preferencesQueryOptions } from '@/api/queries/preferences'
+import { useUpdatePreferences } from '@/api/mutations/preferences'
+import { useDashboardStore } from '@/stores/dashboardStore'
+
+const SYNC_DELAY = 1000
+
+// Mirrors the locally persisted dashboard layout to /me/preferences. The
+// server copy wins when the page loads; after that local edits are pushed
+// once they settle. If the endpoint isn't available the layout simply stays
+// local.
+export function useDashboardLayoutSync(userId: string | undefined) {
+  const preferences = useQuery({
+    ...preferencesQueryOptions,
+    enabled: !!userId,
+  })
+  const localLayout = useDashboardStore((s) =>
+    userId ? (s.layouts[userId] ?? null) : null
+  )
+  const setLayout = useDashboardStore((s) => s.setLayout)
+  const { mutate: updatePreferences } = useUpdatePreferences()
+  const serverLayout = preferences.data?.dashboardLayout
+  // The user whose server layout has been applied. Later copies (a PUT's
+  // response, a refetch on focus) only decide whether to push, so a stale
+  // response can't overwrite an edit made while it was in flight.
+  const appliedFor = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!userId || !preferences.isSuccess || appliedFor.current === userId) {
+      return
+    }
+    appliedFor.current = userId
+    // A server without a layout yet gets this device's one instead
+    if (serverLayout) setLayout(userId, serverLayout)
+  }, [userId, serverLayout, preferences.isSuccess, setLayout])
+
+  useEffect(() => {
+    if (!userId || !preferences.isSuccess) return
+    if (JSON.stringify(localLayout) === JSON.stringify(serverLayout ?? null)) {
+      return
+    }
+    const timer = setTimeout(() => {
+      updatePreferences({ dashboardLayout: localLayout })
+    }, SYNC_DELAY)
+    return () => {
+      clearTimeout(timer)
+    }
+  }, [
+    userId,
+    localLayout,
+    serverLayout,
+    preferences.isSuccess,
+    updatePreferences,
+  ])
+}
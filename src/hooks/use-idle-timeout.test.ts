@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useIdleTimeout } from './use-idle-timeout'
+
+const options = { timeout: 10_000, warningTime: 3_000 }
+
+describe('useIdleTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('warns before the timeout and then fires onTimeout', () => {
+    const onTimeout = vi.fn()
+    const { result } = renderHook(() =>
+      useIdleTimeout({ ...options, enabled: true, onTimeout })
+    )
+
+    act(() => {
+      vi.advanceTimersByTime(7_000)
+    })
+    expect(result.current.isWarning).toBe(true)
+    expect(result.current.remainingSeconds).toBe(3)
+
+    act(() => {
+      vi.advanceTimersByTime(3_000)
+    })
+    expect(onTimeout).toHaveBeenCalledTimes(1)
+  })
+
+  it('fires onTimeout only once while the caller is still signing out', () => {
+    const onTimeout = vi.fn()
+    renderHook(() => useIdleTimeout({ ...options, enabled: true, onTimeout }))
+
+    act(() => {
+      vi.advanceTimersByTime(30_000)
+    })
+    expect(onTimeout).toHaveBeenCalledTimes(1)
+  })
+
+  it('postpones the timeout on user activity', () => {
+    const onTimeout = vi.fn()
+    const { result } = renderHook(() =>
+      useIdleTimeout({ ...options, enabled: true, onTimeout })
+    )
+
+    act(() => {
+      vi.advanceTimersByTime(6_000)
+      window.dispatchEvent(new Event('keydown'))
+      vi.advanceTimersByTime(6_000)
+    })
+
+    expect(result.current.isWarning).toBe(false)
+    expect(onTimeout).not.toHaveBeenCalled()
+  })
+
+  it('clears the warning on reset', () => {
+    const onTimeout = vi.fn()
+    const { result } = renderHook(() =>
+      useIdleTimeout({ ...options, enabled: true, onTimeout })
+    )
+
+    act(() => {
+      vi.advanceTimersByTime(8_000)
+    })
+    expect(result.current.isWarning).toBe(true)
+
+    act(() => {
+      result.current.reset()
+      vi.advanceTimersByTime(5_000)
+    })
+    expect(result.current.isWarning).toBe(false)
+    expect(onTimeout).not.toHaveBeenCalled()
+  })
+
+  it('does nothing when disabled', () => {
+    const onTimeout = vi.fn()
+    renderHook(() => useIdleTimeout({ ...options, enabled: false, onTimeout }))
+
+    act(() => {
+      vi.advanceTimersByTime(20_000)
+    })
+    expect(onTimeout).not.toHaveBeenCalled()
+  })
+})
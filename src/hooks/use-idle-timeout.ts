@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+const ACTIVITY_EVENTS = [
+  'pointerdown',
+  'pointermove',
+  'keydown',
+  'scroll',
+  'touchstart',
+] as const
+
+interface UseIdleTimeoutOptions {
+  enabled: boolean
+  /** Total inactivity (ms) before onTimeout fires */
+  timeout: number
+  /** How long (ms) before the timeout the warning is shown */
+  warningTime: number
+  onTimeout: () => void
+}
+
+export function useIdleTimeout({
+  enabled,
+  timeout,
+  warningTime,
+  onTimeout,
+}: UseIdleTimeoutOptions) {
+  const lastActivityRef = useRef(0)
+  const onTimeoutRef = useRef(onTimeout)
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null)
+  const isWarning = remainingSeconds !== null
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout
+  }, [onTimeout])
+
+  const reset = useCallback(() => {
+    lastActivityRef.current = Date.now()
+    setRemainingSeconds(null)
+  }, [])
+
+  // Activity only counts before the warning shows; once it's up the user
+  // has to confirm explicitly so a stray mouse move doesn't dismiss it
+  useEffect(() => {
+    if (!enabled || isWarning) return
+
+    const onActivity = () => {
+      lastActivityRef.current = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach((event) => {
+      window.addEventListener(event, onActivity, { passive: true })
+    })
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => {
+        window.removeEventListener(event, onActivity)
+      })
+    }
+  }, [enabled, isWarning])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    lastActivityRef.current = Date.now()
+    const interval = setInterval(() => {
+      const remaining = timeout - (Date.now() - lastActivityRef.current)
+
+      if (remaining <= 0) {
+        // Fires once; signing out may take a while and must not be retried
+        clearInterval(interval)
+        setRemainingSeconds(null)
+        onTimeoutRef.current()
+        return
+      }
+
+      setRemainingSeconds(
+        remaining <= warningTime ? Math.ceil(remaining / 1000) : null
+      )
+    }, 1000)
+
+    return () => {
+      clearInterval(interval)
+      setRemainingSeconds(null)
+    }
+  }, [enabled, timeout, warningTime])
+
+  return { isWarning, remainingSeconds: remainingSeconds ?? 0, reset }
+}
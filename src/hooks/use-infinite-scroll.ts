@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react'
+
+// Calls onLoadMore while the returned sentinel is near the viewport. The
+// observer is recreated whenever `enabled` flips back on, so a page that
+// still doesn't fill the screen keeps loading. Without IntersectionObserver
+// nothing happens and the caller's "Load more" button does the work.
+export function useInfiniteScroll<T extends Element>(
+  onLoadMore: () => void,
+  enabled: boolean
+) {
+  const sentinelRef = useRef<T>(null)
+  const onLoadMoreRef = useRef(onLoadMore)
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+  })
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin: '200px' }
+    )
+    observer.observe(sentinel)
+    return () => {
+      observer.disconnect()
+    }
+  }, [enabled])
+
+  return sentinelRef
+}
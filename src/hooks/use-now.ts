@@ -0,0 +1,22 @@
+import { useCallback, useSyncExternalStore } from 'react'
+
+const MINUTE = 60 * 1000
+
+// The current time, rounded down to `interval` and refreshed as each one
+// passes, so relative timestamps stay current without re-rendering every tick
+export function useNow(interval = MINUTE) {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const timer = setInterval(onChange, interval)
+      return () => {
+        clearInterval(timer)
+      }
+    },
+    [interval]
+  )
+
+  return useSyncExternalStore(
+    subscribe,
+    () => Math.floor(Date.now() / interval) * interval
+  )
+}
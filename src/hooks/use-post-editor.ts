@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import {
+  useCreatePost,
+  useDeletePost,
+  useUpdatePost,
+} from '@/api/mutations/posts'
+import { hasFieldErrors } from '@/lib/form-errors'
+import { toast } from '@/lib/toast'
+import type { PostFormData } from '@/lib/validators/post'
+import type { Post } from '@/types'
+
+interface PostEditorOptions {
+  onDeleted?: (post: Post) => void
+}
+
+// State and handlers behind PostEditorDialog and DeletePostDialog, shared by
+// the user page and the post page
+export function usePostEditor({ onDeleted }: PostEditorOptions = {}) {
+  const { t } = useTranslation('users')
+  // null while closed; `post` is null when writing a new one
+  const [editor, setEditor] = useState<{ post: Post | null } | null>(null)
+  const [deletingPost, setDeletingPost] = useState<Post | null>(null)
+  const createPost = useCreatePost()
+  const updatePost = useUpdatePost()
+  const deletePost = useDeletePost()
+
+  const submit = async (data: PostFormData) => {
+    try {
+      if (editor?.post) {
+        await updatePost.mutateAsync({ id: editor.post.id, ...data })
+        toast.success(t('posts.feedback.updated'))
+      } else {
+        await createPost.mutateAsync(data)
+        toast.success(t('posts.feedback.created'))
+      }
+      setEditor(null)
+    } catch (error) {
+      // Field errors are shown on the form itself
+      if (!hasFieldErrors(error)) toast.error(t('posts.feedback.saveFailed'))
+      throw error
+    }
+  }
+
+  const confirmDelete = () => {
+    if (!deletingPost) return
+    deletePost.mutate(deletingPost, {
+      onSuccess: (_, post) => {
+        toast.success(t('posts.feedback.deleted'))
+        onDeleted?.(post)
+      },
+      onError: () => {
+        toast.error(t('posts.feedback.deleteFailed'))
+      },
+    })
+    setDeletingPost(null)
+  }
+
+  return {
+    editorOpen: editor !== null,
+    editingPost: editor?.post ?? null,
+    deletingPost,
+    isSaving: createPost.isPending || updatePost.isPending,
+    isDeleting: deletePost.isPending,
+    openCreate: () => {
+      setEditor({ post: null })
+    },
+    openEdit: (post: Post) => {
+      setEditor({ post })
+    },
+    openDelete: setDeletingPost,
+    closeEditor: () => {
+      setEditor(null)
+    },
+    closeDelete: () => {
+      setDeletingPost(null)
+    },
+    submit,
+    confirmDelete,
+  }
+}
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  applyActivityEvent,
+  connectRealtime,
+  type RealtimeStatus,
+} from '@/api/realtime'
+
+// Keeps the dashboard caches live while mounted and reports the connection
+// state for the header indicator
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<RealtimeStatus>('connecting')
+
+  useEffect(
+    () =>
+      connectRealtime({
+        onActivity: (activity) => {
+          applyActivityEvent(queryClient, activity)
+        },
+        onStatusChange: setStatus,
+      }),
+    [queryClient]
+  )
+
+  return status
+}
@@ -0,0 +1,60 @@
+import { useCallback, useMemo, useState } from 'react'
+
+interface Identifiable {
+  id: string
+}
+
+// Tracks selected rows across pages. Rows are kept (not just their ids) so
+// bulk actions can run without refetching pages that are no longer loaded.
+// `allMatching` stands for every row matching the current filters, including
+// ones that were never loaded; callers resolve it when an action runs.
+export function useRowSelection<T extends Identifiable>() {
+  const [selected, setSelected] = useState<ReadonlyMap<string, T>>(new Map())
+  const [allMatching, setAllMatching] = useState(false)
+
+  const toggle = useCallback((row: T, checked: boolean) => {
+    setAllMatching(false)
+    setSelected((prev) => {
+      const next = new Map(prev)
+      if (checked) next.set(row.id, row)
+      else next.delete(row.id)
+      return next
+    })
+  }, [])
+
+  const togglePage = useCallback((rows: T[], checked: boolean) => {
+    setAllMatching(false)
+    setSelected((prev) => {
+      const next = new Map(prev)
+      rows.forEach((row) => {
+        if (checked) next.set(row.id, row)
+        else next.delete(row.id)
+      })
+      return next
+    })
+  }, [])
+
+  const selectAllMatching = useCallback(() => {
+    setAllMatching(true)
+  }, [])
+
+  const clear = useCallback(() => {
+    setAllMatching(false)
+    setSelected(new Map())
+  }, [])
+
+  const selectedIds = useMemo(
+    () => new Set(selected.keys()) as ReadonlySet<string>,
+    [selected]
+  )
+
+  return {
+    selected: [...selected.values()],
+    selectedIds,
+    allMatching,
+    toggle,
+    togglePage,
+    selectAllMatching,
+    clear,
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { downloadFile, toCsv } from './csv'
+
+interface Row {
+  name: string
+  note: string
+}
+
+const columns = [
+  { header: 'Name', value: (row: Row) => row.name },
+  { header: 'Note', value: (row: Row) => row.note },
+]
+
+describe('toCsv', () => {
+  it('writes a header row followed by one line per row', () => {
+    expect(toCsv([{ name: 'Alice', note: 'ok' }], columns)).toBe(
+      'Name,Note\r\nAlice,ok'
+    )
+  })
+
+  it('quotes cells containing commas, quotes and newlines', () => {
+    expect(
+      toCsv([{ name: 'Smith, Alice', note: 'said "hi"\nbye' }], columns)
+    ).toBe('Name,Note\r\n"Smith, Alice","said ""hi""\nbye"')
+  })
+
+  it('neutralises spreadsheet formulas', () => {
+    expect(toCsv([{ name: '=HYPERLINK("x")', note: '@cmd' }], columns)).toBe(
+      'Name,Note\r\n"\'=HYPERLINK(""x"")",\'@cmd'
+    )
+  })
+})
+
+describe('downloadFile', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the blob URL alive until the download has started', () => {
+    vi.useFakeTimers()
+    const revokeObjectURL = vi.fn()
+    vi.stubGlobal('URL', {
+      createObjectURL: () => 'blob:codes',
+      revokeObjectURL,
+    })
+    const click = vi
+      .spyOn(HTMLAnchorElement.prototype, 'click')
+      .mockImplementation(() => undefined)
+
+    downloadFile('codes.txt', 'abcd-1234', 'text/plain')
+
+    expect(click).toHaveBeenCalled()
+    expect(revokeObjectURL).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:codes')
+    click.mockRestore()
+  })
+})
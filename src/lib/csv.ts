@@ -0,0 +1,40 @@
+export interface CsvColumn<T> {
+  header: string
+  value: (row: T) => string
+}
+
+// Spreadsheet apps execute cells that start with these characters as
+// formulas, so they are prefixed with a quote to be read as plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCell(value: string) {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [
+    columns.map((column) => escapeCell(column.header)).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCell(column.value(row))).join(',')
+    ),
+  ]
+  return lines.join('\r\n')
+}
+
+export function downloadFile(
+  filename: string,
+  content: string,
+  type = 'text/csv;charset=utf-8'
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight after the click can cancel the download in some
+  // browsers, so give it time to start
+  setTimeout(() => {
+    URL.revokeObjectURL(url)
+  }, 1000)
+}
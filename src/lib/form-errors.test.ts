@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useForm } from 'react-hook-form'
+import { ApiError } from '@/api/client'
+import { hasFieldErrors, setServerErrors } from './form-errors'
+
+const validationError = new ApiError(422, 'Unprocessable Entity', {
+  message: 'Validation failed',
+  errors: {
+    email: ['This email is already in use', 'Second message'],
+    unknown: ['Not a form field'],
+  },
+})
+
+function renderForm() {
+  const { result } = renderHook(() =>
+    useForm({ defaultValues: { name: 'Jane', email: 'jane@example.com' } })
+  )
+  return result
+}
+
+describe('setServerErrors', () => {
+  it('sets the first message of each field the form has', () => {
+    const form = renderForm()
+
+    let applied = false
+    act(() => {
+      applied = setServerErrors(validationError, form.current)
+    })
+
+    expect(applied).toBe(true)
+    expect(form.current.getFieldState('email').error).toMatchObject({
+      type: 'server',
+      message: 'This email is already in use',
+    })
+    expect(form.current.getFieldState('name').error).toBeUndefined()
+  })
+
+  it('ignores errors without field details', () => {
+    const form = renderForm()
+    const error = new ApiError(500, 'Internal Server Error', {
+      message: 'Something broke',
+    })
+
+    expect(setServerErrors(error, form.current)).toBe(false)
+    expect(setServerErrors(new Error('Network down'), form.current)).toBe(false)
+    expect(form.current.getFieldState('email').error).toBeUndefined()
+  })
+})
+
+describe('hasFieldErrors', () => {
+  it('detects field-level API errors', () => {
+    expect(hasFieldErrors(validationError)).toBe(true)
+    expect(hasFieldErrors(new ApiError(401, 'Unauthorized', null))).toBe(false)
+  })
+})
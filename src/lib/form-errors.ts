@@ -0,0 +1,52 @@
+import type { FieldValues, Path, UseFormReturn } from 'react-hook-form'
+import { ApiError } from '@/api/client'
+import type { ApiErrorResponse } from '@/types'
+
+export function isApiErrorResponse(data: unknown): data is ApiErrorResponse {
+  return (
+    data != null &&
+    typeof data === 'object' &&
+    'message' in data &&
+    typeof data.message === 'string'
+  )
+}
+
+function getFieldErrors(error: unknown) {
+  if (!(error instanceof ApiError) || !isApiErrorResponse(error.data)) {
+    return []
+  }
+  return Object.entries(error.data.errors ?? {}).flatMap(
+    ([field, messages]) => {
+      const message = messages[0]
+      return message ? [{ field, message }] : []
+    }
+  )
+}
+
+// Lets pages skip their banner when the form already shows the problem
+export function hasFieldErrors(error: unknown) {
+  return getFieldErrors(error).length > 0
+}
+
+// Copies the per-field messages of a failed request (e.g. a 422 for an email
+// that is already taken) onto the matching form fields, focusing the first.
+// Fields the form doesn't have are skipped. Returns whether any were set.
+export function setServerErrors<T extends FieldValues>(
+  error: unknown,
+  form: Pick<UseFormReturn<T>, 'getValues' | 'setError'>
+) {
+  const values = form.getValues()
+  let applied = false
+
+  getFieldErrors(error).forEach(({ field, message }) => {
+    if (!(field in values)) return
+    form.setError(
+      field as Path<T>,
+      { type: 'server', message },
+      { shouldFocus: !applied }
+    )
+    applied = true
+  })
+
+  return applied
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { formatBucketDate, formatRelativeTime } from './format'
+
+const now = Date.parse('2025-06-15T12:00:00.000Z')
+const ago = (seconds: number) => new Date(now - seconds * 1000)
+
+describe('formatRelativeTime', () => {
+  it('uses the largest unit that fits', () => {
+    expect(formatRelativeTime(ago(5 * 60), now, 'en')).toBe('5 minutes ago')
+    expect(formatRelativeTime(ago(3 * 60 * 60), now, 'en')).toBe('3 hours ago')
+    expect(formatRelativeTime(ago(24 * 60 * 60), now, 'en')).toBe('yesterday')
+  })
+
+  it('reads as now for the last minute', () => {
+    expect(formatRelativeTime(ago(20), now, 'en')).toBe('now')
+  })
+
+  it('formats in the given locale', () => {
+    expect(formatRelativeTime(ago(2 * 60 * 60), now, 'es')).toBe('hace 2 horas')
+  })
+})
+
+describe('formatBucketDate', () => {
+  it('formats days and months in UTC', () => {
+    expect(formatBucketDate('2025-03-01', 'day', 'en')).toBe('Mar 1')
+    expect(formatBucketDate('2025-03-01', 'month', 'en')).toBe('Mar 2025')
+  })
+})
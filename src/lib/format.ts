@@ -0,0 +1,47 @@
+import type { MetricsInterval } from '@/types'
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 60 * 60 * 24 * 365],
+  ['month', 60 * 60 * 24 * 30],
+  ['week', 60 * 60 * 24 * 7],
+  ['day', 60 * 60 * 24],
+  ['hour', 60 * 60],
+  ['minute', 60],
+]
+
+// "3 minutes ago", "yesterday", "hace 2 horas"... in the largest unit that
+// fits. Anything under a minute reads as "now".
+export function formatRelativeTime(
+  date: string | Date,
+  now: number,
+  locale: string
+) {
+  const seconds = (new Date(date).getTime() - now) / 1000
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' })
+
+  for (const [unit, size] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(seconds) >= size) {
+      return formatter.format(Math.round(seconds / size), unit)
+    }
+  }
+  return formatter.format(0, 'second')
+}
+
+const BUCKET_FORMATS: Record<MetricsInterval, Intl.DateTimeFormatOptions> = {
+  day: { month: 'short', day: 'numeric' },
+  week: { month: 'short', day: 'numeric' },
+  month: { month: 'short', year: 'numeric' },
+}
+
+// Metrics buckets are UTC dates, so format them in UTC or they shift a day
+// for anyone west of Greenwich
+export function formatBucketDate(
+  date: string,
+  interval: MetricsInterval,
+  locale: string
+) {
+  return new Intl.DateTimeFormat(locale, {
+    ...BUCKET_FORMATS[interval],
+    timeZone: 'UTC',
+  }).format(new Date(date))
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canManagePost,
+  hasPermission,
+  hasRole,
+  requirePermission,
+  requireVerifiedEmail,
+} from './permissions'
+
+const admin = { role: 'admin' as const }
+const member = { role: 'user' as const }
+
+describe('permissions', () => {
+  it('grants permissions by role', () => {
+    expect(hasPermission(admin, 'users:manage')).toBe(true)
+    expect(hasPermission(member, 'users:manage')).toBe(false)
+    expect(hasPermission(null, 'users:manage')).toBe(false)
+  })
+
+  it('lets authors and admins manage a post', () => {
+    const post = { authorId: '2' }
+
+    expect(canManagePost({ id: '2', ...member }, post)).toBe(true)
+    expect(canManagePost({ id: '3', ...member }, post)).toBe(false)
+    expect(canManagePost({ id: '1', ...admin }, post)).toBe(true)
+    expect(canManagePost(null, post)).toBe(false)
+  })
+
+  it('checks roles', () => {
+    expect(hasRole(admin, 'admin')).toBe(true)
+    expect(hasRole(member, 'admin')).toBe(false)
+    expect(hasRole(null, 'user')).toBe(false)
+  })
+
+  it('redirects to /forbidden when the permission is missing', () => {
+    const guard = requirePermission('users:manage')
+
+    expect(() => {
+      guard({ context: { auth: { user: admin } } })
+    }).not.toThrow()
+
+    let thrown: unknown
+    try {
+      guard({ context: { auth: { user: member } } })
+    } catch (error) {
+      thrown = error
+    }
+    expect(thrown).toMatchObject({ options: { to: '/forbidden' } })
+  })
+
+  it('sends unverified users to /verify-email and back afterwards', () => {
+    const guard = requireVerifiedEmail()
+    const location = { href: '/settings/security' }
+
+    expect(() => {
+      guard({ context: { auth: { user: { verified: true } } }, location })
+    }).not.toThrow()
+
+    let thrown: unknown
+    try {
+      guard({ context: { auth: { user: { verified: false } } }, location })
+    } catch (error) {
+      thrown = error
+    }
+    expect(thrown).toMatchObject({
+      options: {
+        to: '/verify-email',
+        search: { redirect: '/settings/security' },
+      },
+    })
+  })
+})
@@ -0,0 +1,76 @@
+import { redirect } from '@tanstack/react-router'
+import type { Role } from '@/types'
+
+export type Permission = 'users:manage' | 'posts:manage'
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: ['users:manage', 'posts:manage'],
+  user: [],
+}
+
+interface PermissionSubject {
+  role: Role
+}
+
+export function hasRole(user: PermissionSubject | null, role: Role) {
+  return user?.role === role
+}
+
+export function hasPermission(
+  user: PermissionSubject | null,
+  permission: Permission
+) {
+  return user ? ROLE_PERMISSIONS[user.role].includes(permission) : false
+}
+
+// Authors manage their own posts; `posts:manage` covers everyone else's
+export function canManagePost(
+  user: (PermissionSubject & { id: string }) | null,
+  post: { authorId: string }
+) {
+  return user?.id === post.authorId || hasPermission(user, 'posts:manage')
+}
+
+interface GuardOptions {
+  context: { auth: { user: PermissionSubject | null } }
+}
+
+// Route guards for `beforeLoad`. They assume the `_authenticated` layout has
+// already redirected anonymous users to /login, so a failure here means the
+// user is signed in but lacks access.
+export function requireRole(role: Role) {
+  return ({ context }: GuardOptions) => {
+    if (!hasRole(context.auth.user, role)) {
+      // eslint-disable-next-line @typescript-eslint/only-throw-error
+      throw redirect({ to: '/forbidden' })
+    }
+  }
+}
+
+interface VerifiedGuardOptions {
+  context: { auth: { user: { verified: boolean } | null } }
+  location: { href: string }
+}
+
+// For pages that shouldn't be usable until the account's email address is
+// confirmed. Sends the user to /verify-email and back here afterwards.
+export function requireVerifiedEmail() {
+  return ({ context, location }: VerifiedGuardOptions) => {
+    if (context.auth.user && !context.auth.user.verified) {
+      // eslint-disable-next-line @typescript-eslint/only-throw-error
+      throw redirect({
+        to: '/verify-email',
+        search: { redirect: location.href },
+      })
+    }
+  }
+}
+
+export function requirePermission(permission: Permission) {
+  return ({ context }: GuardOptions) => {
+    if (!hasPermission(context.auth.user, permission)) {
+      // eslint-disable-next-line @typescript-eslint/only-throw-error
+      throw redirect({ to: '/forbidden' })
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  clearPendingSsoRequest,
+  createAuthorizationUrl,
+  createCodeChallenge,
+  encodeBase64Url,
+  readIdTokenNonce,
+  readPendingSsoRequest,
+} from './sso'
+
+const provider = {
+  id: 'corporate',
+  name: 'Acme',
+  authorizeUrl: 'https://login.acme.test/oauth2/authorize',
+  clientId: 'my-app',
+  scope: 'openid profile email',
+}
+
+describe('sso', () => {
+  afterEach(() => {
+    clearPendingSsoRequest()
+  })
+
+  it('derives the S256 code challenge from RFC 7636', async () => {
+    await expect(
+      createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')
+    ).resolves.toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM')
+  })
+
+  it('sends the provider a challenge for the verifier it keeps back', async () => {
+    const url = new URL(await createAuthorizationUrl(provider, '/posts'))
+    const request = readPendingSsoRequest()
+
+    expect(url.origin + url.pathname).toBe(provider.authorizeUrl)
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'my-app',
+      redirect_uri: 'http://localhost:3000/auth/callback',
+      scope: 'openid profile email',
+      state: request?.state,
+      nonce: request?.nonce,
+      code_challenge: await createCodeChallenge(request?.codeVerifier ?? ''),
+      code_challenge_method: 'S256',
+    })
+    expect(request).toMatchObject({
+      providerId: 'corporate',
+      redirect: '/posts',
+    })
+    expect(url.searchParams.has('code_verifier')).toBe(false)
+  })
+
+  it('reads the nonce from an ID token and tolerates malformed ones', () => {
+    const payload = encodeBase64Url(
+      new TextEncoder().encode(JSON.stringify({ sub: '2', nonce: 'n-1' }))
+    )
+
+    expect(readIdTokenNonce(`e30.${payload}.`)).toBe('n-1')
+    expect(readIdTokenNonce('not-a-token')).toBeUndefined()
+    expect(readIdTokenNonce('e30.%%%.')).toBeUndefined()
+  })
+})
@@ -0,0 +1,160 @@
+// Single sign-on with OpenID Connect identity providers, using the
+// authorization code flow with PKCE (RFC 7636). The browser sends the user
+// to the provider with a code challenge, the provider sends them back to
+// /auth/callback with a code, and the API trades that code (plus the
+// verifier only this tab knows) for a session.
+
+export interface SsoProvider {
+  // Sent to the API with the code so it knows which provider to redeem it at
+  id: string
+  name: string
+  // Absolute, or a path on this origin
+  authorizeUrl: string
+  clientId: string
+  scope: string
+}
+
+// What the tab remembers while the user is away at the provider
+export interface PendingSsoRequest {
+  providerId: string
+  state: string
+  nonce: string
+  codeVerifier: string
+  redirect?: string
+}
+
+export type SsoErrorCode = 'state_mismatch' | 'nonce_mismatch'
+
+// The provider's response doesn't belong to the request this tab sent,
+// which is what a replayed or forged callback looks like
+export class SsoError extends Error {
+  constructor(public code: SsoErrorCode) {
+    super(
+      code === 'state_mismatch'
+        ? 'Sign-in response does not match a pending request'
+        : 'ID token was not issued for this sign-in'
+    )
+    this.name = 'SsoError'
+  }
+}
+
+export const SSO_CALLBACK_PATH = '/auth/callback'
+const PENDING_REQUEST_KEY = 'sso-request'
+
+const providers: SsoProvider[] = []
+
+// The corporate provider comes from the build environment; the mock
+// provider is registered by the dev mock setup
+if (
+  import.meta.env.VITE_SSO_AUTHORIZE_URL &&
+  import.meta.env.VITE_SSO_CLIENT_ID
+) {
+  providers.push({
+    id: 'corporate',
+    // An empty value in the .env file means the name wasn't set
+    // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
+    name: import.meta.env.VITE_SSO_PROVIDER_NAME || 'Company account',
+    authorizeUrl: import.meta.env.VITE_SSO_AUTHORIZE_URL,
+    clientId: import.meta.env.VITE_SSO_CLIENT_ID,
+    scope: 'openid profile email',
+  })
+}
+
+export function registerSsoProvider(provider: SsoProvider) {
+  const index = providers.findIndex((p) => p.id === provider.id)
+  if (index === -1) providers.push(provider)
+  else providers[index] = provider
+}
+
+export function getSsoProviders(): readonly SsoProvider[] {
+  return providers
+}
+
+export function encodeBase64Url(bytes: Uint8Array) {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function decodeBase64Url(input: string) {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// 32 random bytes, which encode to the 43 characters RFC 7636 asks for at
+// minimum. Also used for the state and nonce.
+export function createRandomToken() {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+export async function createCodeChallenge(codeVerifier: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(codeVerifier)
+  )
+  return encodeBase64Url(new Uint8Array(digest))
+}
+
+export function getSsoRedirectUri() {
+  return `${window.location.origin}${SSO_CALLBACK_PATH}`
+}
+
+// Remembers the request for the callback and returns the provider URL to
+// send the browser to. Starting again replaces any earlier request.
+export async function createAuthorizationUrl(
+  provider: SsoProvider,
+  redirect?: string
+) {
+  const request: PendingSsoRequest = {
+    providerId: provider.id,
+    state: createRandomToken(),
+    nonce: createRandomToken(),
+    codeVerifier: createRandomToken(),
+    redirect,
+  }
+  sessionStorage.setItem(PENDING_REQUEST_KEY, JSON.stringify(request))
+
+  const url = new URL(provider.authorizeUrl, window.location.origin)
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: getSsoRedirectUri(),
+    scope: provider.scope,
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: await createCodeChallenge(request.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString()
+  return url.toString()
+}
+
+export function readPendingSsoRequest(): PendingSsoRequest | null {
+  const value = sessionStorage.getItem(PENDING_REQUEST_KEY)
+  if (!value) return null
+  try {
+    return JSON.parse(value) as PendingSsoRequest
+  } catch {
+    return null
+  }
+}
+
+// A request is answered at most once, so a callback URL can't be replayed
+export function clearPendingSsoRequest() {
+  sessionStorage.removeItem(PENDING_REQUEST_KEY)
+}
+
+// The API has already checked the token's signature with the provider; all
+// the browser needs from it is the nonce it sent
+export function readIdTokenNonce(idToken: string) {
+  const payload = idToken.split('.')[1]
+  if (!payload) return undefined
+  try {
+    const claims = JSON.parse(
+      new TextDecoder().decode(decodeBase64Url(payload))
+    ) as { nonce?: unknown }
+    return typeof claims.nonce === 'string' ? claims.nonce : undefined
+  } catch {
+    return undefined
+  }
+}
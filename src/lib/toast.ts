@@ -0,0 +1,33 @@
+import {
+  useToastStore,
+  type Toast,
+  type ToastVariant,
+} from '@/stores/toastStore'
+
+export const DEFAULT_TOAST_DURATION = 5000
+
+type ToastOptions = Partial<Pick<Toast, 'description' | 'duration' | 'action'>>
+
+function show(variant: ToastVariant, title: string, options?: ToastOptions) {
+  return useToastStore.getState().addToast({
+    variant,
+    title,
+    duration: DEFAULT_TOAST_DURATION,
+    ...options,
+  })
+}
+
+// Imperative API so notifications can be raised from mutation callbacks and
+// other code outside React. Each call returns the toast id.
+export const toast = Object.assign(
+  (title: string, options?: ToastOptions) => show('default', title, options),
+  {
+    success: (title: string, options?: ToastOptions) =>
+      show('success', title, options),
+    error: (title: string, options?: ToastOptions) =>
+      show('error', title, options),
+    dismiss: (id: string) => {
+      useToastStore.getState().dismissToast(id)
+    },
+  }
+)
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import {
+  authSearchSchema,
+  changePasswordSchema,
+  getPasswordStrength,
+  isSafeRedirect,
+  resetPasswordSchema,
+  resetPasswordSearchSchema,
+} from './auth'
+
+describe('isSafeRedirect', () => {
+  it('accepts same-origin app paths', () => {
+    expect(isSafeRedirect('/dashboard')).toBe(true)
+    expect(isSafeRedirect('/admin/users?page=2#top')).toBe(true)
+  })
+
+  it('rejects absolute and protocol-relative URLs', () => {
+    expect(isSafeRedirect('https://evil.example.com')).toBe(false)
+    expect(isSafeRedirect('//evil.example.com')).toBe(false)
+    expect(isSafeRedirect('/\\evil.example.com')).toBe(false)
+    expect(isSafeRedirect('javascript:alert(1)')).toBe(false)
+    expect(isSafeRedirect('dashboard')).toBe(false)
+  })
+})
+
+describe('authSearchSchema', () => {
+  it('keeps a safe redirect', () => {
+    expect(authSearchSchema.parse({ redirect: '/users/1' })).toEqual({
+      redirect: '/users/1',
+    })
+  })
+
+  it('drops an unsafe redirect instead of failing', () => {
+    expect(
+      authSearchSchema.parse({ redirect: 'https://evil.example.com' })
+    ).toEqual({ redirect: undefined })
+  })
+})
+
+describe('resetPasswordSchema', () => {
+  it('uses the sign-up password rules', () => {
+    const result = resetPasswordSchema.safeParse({
+      password: 'password1',
+      confirmPassword: 'password1',
+    })
+
+    expect(result.error?.issues[0]?.message).toBe(
+      'Password must contain an uppercase letter'
+    )
+  })
+
+  it('requires the confirmation to match', () => {
+    const result = resetPasswordSchema.safeParse({
+      password: 'Password1',
+      confirmPassword: 'Password2',
+    })
+
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ['confirmPassword'],
+      message: "Passwords don't match",
+    })
+  })
+})
+
+describe('resetPasswordSearchSchema', () => {
+  it('falls back to an empty token', () => {
+    expect(resetPasswordSearchSchema.parse({})).toEqual({ token: '' })
+    expect(resetPasswordSearchSchema.parse({ token: 42 })).toEqual({
+      token: '',
+    })
+  })
+})
+
+describe('getPasswordStrength', () => {
+  it('scores one point per sign-up rule met', () => {
+    expect(getPasswordStrength('')).toEqual({ passed: [], score: 0 })
+    expect(getPasswordStrength('sunshine')).toEqual({
+      passed: ['minLength'],
+      score: 1,
+    })
+    expect(getPasswordStrength('Sunshine42')).toEqual({
+      passed: ['minLength', 'uppercase', 'number'],
+      score: 3,
+    })
+  })
+
+  it('adds a point for length or a symbol once every rule is met', () => {
+    expect(getPasswordStrength('Sunshine42!').score).toBe(4)
+    expect(getPasswordStrength('Sunshine4242').score).toBe(4)
+    expect(getPasswordStrength('sunshine-and-rain').score).toBe(1)
+  })
+})
+
+describe('changePasswordSchema', () => {
+  it('rejects reusing the current password', () => {
+    const result = changePasswordSchema.safeParse({
+      currentPassword: 'Password1',
+      newPassword: 'Password1',
+      confirmPassword: 'Password1',
+    })
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        path: ['newPassword'],
+        message: 'New password must be different from the current one',
+      }),
+    ])
+  })
+})
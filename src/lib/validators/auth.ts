@@ -1,9 +1,11 @@
 import { z } from 'zod'
 
+const emailField = z
+  .email({ error: 'Invalid email address' })
+  .min(1, { message: 'Email is required' })
+
 export const loginSchema = z.object({
-  email: z
-    .email({ error: 'Invalid email address' })
-    .min(1, { message: 'Email is required' }),
+  email: emailField,
   password: z
     .string()
     .min(1, { message: 'Password is required' })
@@ -13,6 +15,57 @@ export const loginSchema = z.object({
 
 export type LoginFormData = z.infer<typeof loginSchema>
 
+// Rules for choosing a password, shared by sign-up, password reset and
+// change password. The strength meter lists them as a checklist.
+export const PASSWORD_RULES = [
+  {
+    id: 'minLength',
+    test: (value: string) => value.length >= 8,
+    message: 'Password must be at least 8 characters',
+  },
+  {
+    id: 'uppercase',
+    test: (value: string) => /[A-Z]/.test(value),
+    message: 'Password must contain an uppercase letter',
+  },
+  {
+    id: 'number',
+    test: (value: string) => /[0-9]/.test(value),
+    message: 'Password must contain a number',
+  },
+] as const
+
+export type PasswordRuleId = (typeof PASSWORD_RULES)[number]['id']
+
+const newPasswordField = PASSWORD_RULES.reduce(
+  (schema, rule) => schema.refine(rule.test, { message: rule.message }),
+  z.string().min(1, { message: 'Password is required' })
+)
+
+// 0-4: one point per rule met, plus one for going beyond them with a long
+// password or a symbol
+export function getPasswordStrength(password: string) {
+  const passed = PASSWORD_RULES.filter((rule) => rule.test(password)).map(
+    (rule) => rule.id
+  )
+  const extra =
+    passed.length === PASSWORD_RULES.length &&
+    (password.length >= 12 || /[^A-Za-z0-9]/.test(password))
+  return { passed, score: passed.length + (extra ? 1 : 0) }
+}
+
+const confirmPasswordField = z
+  .string()
+  .min(1, { message: 'Please confirm password' })
+
+function passwordsMatch(data: { password: string; confirmPassword: string }) {
+  return data.password === data.confirmPassword
+}
+const passwordMismatch = {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+}
+
 export const registerSchema = z
   .object({
     name: z
@@ -20,22 +73,110 @@ export const registerSchema = z
       .min(1, { message: 'Name is required' })
       .min(2, { message: 'Name must be at least 2 characters' })
       .max(50, { message: 'Name must be under 50 characters' }),
-    email: z
-      .email({ error: 'Invalid email address' })
-      .min(1, { message: 'Email is required' }),
-    password: z
+    email: emailField,
+    password: newPasswordField,
+    confirmPassword: confirmPasswordField,
+  })
+  .refine(passwordsMatch, passwordMismatch)
+
+export type RegisterFormData = z.infer<typeof registerSchema>
+
+export const forgotPasswordSchema = z.object({
+  email: emailField,
+})
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>
+
+export const resetPasswordSchema = z
+  .object({
+    password: newPasswordField,
+    confirmPassword: confirmPasswordField,
+  })
+  .refine(passwordsMatch, passwordMismatch)
+
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>
+
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z
       .string()
-      .min(1, { message: 'Password is required' })
-      .min(8, { message: 'Password must be at least 8 characters' })
-      .regex(/[A-Z]/, {
-        message: 'Password must contain an uppercase letter',
-      })
-      .regex(/[0-9]/, { message: 'Password must contain a number' }),
-    confirmPassword: z.string().min(1, { message: 'Please confirm password' }),
+      .min(1, { message: 'Current password is required' }),
+    // Named like the API field so a 422 on it lands on this input
+    newPassword: newPasswordField,
+    confirmPassword: confirmPasswordField,
   })
-  .refine((data) => data.password === data.confirmPassword, {
-    message: "Passwords don't match",
-    path: ['confirmPassword'],
+  .refine((data) => data.newPassword === data.confirmPassword, passwordMismatch)
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'New password must be different from the current one',
+    path: ['newPassword'],
   })
 
-export type RegisterFormData = z.infer<typeof registerSchema>
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>
+
+// The six digits an authenticator app shows
+export const mfaCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, { message: 'Enter the 6-digit code' }),
+})
+
+export type MfaCodeFormData = z.infer<typeof mfaCodeSchema>
+
+export const recoveryCodeSchema = z.object({
+  recoveryCode: z
+    .string()
+    .trim()
+    .min(1, { message: 'Recovery code is required' }),
+})
+
+export type RecoveryCodeFormData = z.infer<typeof recoveryCodeSchema>
+
+export const disableMfaSchema = z.object({
+  password: z.string().min(1, { message: 'Password is required' }),
+})
+
+export type DisableMfaFormData = z.infer<typeof disableMfaSchema>
+
+// The token from the emailed link. A missing one is caught by the page,
+// which shows the same state as an unknown token.
+export const resetPasswordSearchSchema = z.object({
+  token: z.string().default('').catch(''),
+})
+
+// Post-login destinations are limited to same-origin app paths so a crafted
+// link can't bounce users to another site once they sign in
+export function isSafeRedirect(path: string) {
+  if (
+    !path.startsWith('/') ||
+    path.startsWith('//') ||
+    path.startsWith('/\\')
+  ) {
+    return false
+  }
+  try {
+    return (
+      new URL(path, window.location.origin).origin === window.location.origin
+    )
+  } catch {
+    return false
+  }
+}
+
+export const authSearchSchema = z.object({
+  redirect: z.string().refine(isSafeRedirect).optional().catch(undefined),
+})
+
+// The token from the verification email, and where to go once it's done.
+// Without a token the page offers to send a new link instead.
+export const verifyEmailSearchSchema = authSearchSchema.extend({
+  token: z.string().optional().catch(undefined),
+})
+
+// What the identity provider appends when it sends the user back: a code on
+// success, or an OAuth error such as `access_denied`
+export const ssoCallbackSearchSchema = z.object({
+  code: z.string().optional().catch(undefined),
+  state: z.string().optional().catch(undefined),
+  error: z.string().optional().catch(undefined),
+})
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+export const ACTIVITY_TYPES = [
+  'user_registered',
+  'user_updated',
+  'user_deleted',
+  'post_created',
+] as const
+
+export const METRICS_RANGES = ['7d', '30d', '90d', '365d'] as const
+export const METRICS_INTERVALS = ['day', 'week', 'month'] as const
+
+export const dashboardSearchSchema = z.object({
+  activityType: z.enum(ACTIVITY_TYPES).optional().catch(undefined),
+  range: z.enum(METRICS_RANGES).default('30d').catch('30d'),
+  interval: z.enum(METRICS_INTERVALS).default('day').catch('day'),
+})
+
+export type DashboardSearch = z.infer<typeof dashboardSearchSchema>
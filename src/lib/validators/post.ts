@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+export const POST_TITLE_MAX = 120
+export const POST_CONTENT_MAX = 10000
+
+export const postSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, { message: 'Title is required' })
+    .max(POST_TITLE_MAX, {
+      message: `Title must be under ${String(POST_TITLE_MAX)} characters`,
+    }),
+  content: z
+    .string()
+    .trim()
+    .min(1, { message: 'Content is required' })
+    .max(POST_CONTENT_MAX, {
+      message: 'Content must be under 10,000 characters',
+    }),
+})
+
+export type PostFormData = z.infer<typeof postSchema>
+
+// Search params for the /posts feed. Invalid values are dropped rather than
+// rejected so a stale link still shows the unfiltered feed.
+export const postFeedSearchSchema = z.object({
+  q: z.string().default('').catch(''),
+  author: z.string().optional().catch(undefined),
+  from: z.iso.date().optional().catch(undefined),
+  to: z.iso.date().optional().catch(undefined),
+})
+
+export type PostFeedSearch = z.infer<typeof postFeedSearchSchema>
@@ -42,3 +42,23 @@ export const profileSchema = z.object({
 })
 
 export type ProfileFormData = z.infer<typeof profileSchema>
+
+export const USER_SORT_FIELDS = ['name', 'email', 'role', 'createdAt'] as const
+export const USER_PAGE_SIZES = [10, 25, 50] as const
+
+// Search params for the admin user table. Every field falls back to its
+// default so hand-edited or stale URLs still render a valid page.
+export const userListSearchSchema = z.object({
+  page: z.number().int().min(1).default(1).catch(1),
+  pageSize: z
+    .number()
+    .refine((size) => (USER_PAGE_SIZES as readonly number[]).includes(size))
+    .default(10)
+    .catch(10),
+  sort: z.enum(USER_SORT_FIELDS).default('createdAt').catch('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc').catch('desc'),
+  q: z.string().default('').catch(''),
+  role: z.enum(['admin', 'user']).optional().catch(undefined),
+})
+
+export type UserListSearch = z.infer<typeof userListSearchSchema>
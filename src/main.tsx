@@ -1,11 +1,16 @@
 import './instrument' // Sentry must be first
 import './lib/i18n' // i18n initialization
-import React from 'react'
+import React, { Suspense, use } from 'react'
 import ReactDOM from 'react-dom/client'
 import { RouterProvider, createRouter } from '@tanstack/react-router'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { routeTree } from './routeTree.gen' // Auto-generated
 import { useAuthStore } from './stores/authStore'
+import { restoreSession } from './api/session'
+import { ApiContractError } from './api/client'
+import { registerSsoProvider } from './lib/sso'
+import { SplashScreen } from './components/layouts/SplashScreen'
+import type { Role } from './types'
 import './index.css'
 
 // Create query client
@@ -13,7 +18,9 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
-      retry: 1,
+      // A response that breaks its contract will break it again
+      retry: (failureCount, error) =>
+        !(error instanceof ApiContractError) && failureCount < 1,
     },
   },
 })
@@ -25,7 +32,7 @@ const router = createRouter({
     queryClient,
     auth: undefined as unknown as {
       isAuthenticated: boolean
-      user: { id: string; name: string } | null
+      user: { id: string; name: string; role: Role; verified: boolean } | null
     }, // Will be set dynamically
   },
   defaultPreload: 'intent',
@@ -39,7 +46,9 @@ declare module '@tanstack/react-router' {
   }
 }
 
-function App() {
+function App({ sessionRestored }: { sessionRestored: Promise<void> }) {
+  // Suspends (showing the splash screen) until the session restore settles
+  use(sessionRestored)
   const { isAuthenticated, user } = useAuthStore()
 
   return (
@@ -50,7 +59,14 @@ function App() {
           queryClient,
           auth: {
             isAuthenticated,
-            user: user ? { id: user.id, name: user.name } : null,
+            user: user
+              ? {
+                  id: user.id,
+                  name: user.name,
+                  role: user.role,
+                  verified: user.verified,
+                }
+              : null,
           },
         }}
       />
@@ -58,25 +74,71 @@ function App() {
   )
 }
 
-// MSW dev-mode opt-in
+// MSW dev-mode opt-in. Resolves to the scenario panel when mocking is on,
+// or to the mock identity provider's sign-in page when single sign-on has
+// sent the browser there.
 async function enableMocking() {
-  if (!import.meta.env.DEV) return
+  if (!import.meta.env.DEV) return null
 
   // Only enable if VITE_MSW=true (opt-in, not default)
-  if (import.meta.env.VITE_MSW !== 'true') return
+  if (import.meta.env.VITE_MSW !== 'true') return null
 
-  const { worker } = await import('./test/mocks/browser')
-  return worker.start({ onUnhandledRequest: 'bypass' })
+  const [
+    { worker },
+    { createMockEventSource },
+    { applyScenario, resolveScenario },
+    { setEventSourceFactory },
+    { MockScenarioPanel },
+    { MOCK_IDP_AUTHORIZE_PATH, mockIdpProvider },
+    { MockIdpSignIn },
+  ] = await Promise.all([
+    import('./test/mocks/browser'),
+    import('./test/mocks/event-source'),
+    import('./test/mocks/scenarios'),
+    import('./api/realtime'),
+    import('./components/features/dev/MockScenarioPanel'),
+    import('./test/mocks/idp'),
+    import('./components/features/dev/MockIdpSignIn'),
+  ])
+  // Service workers can't fake a long-lived event stream, so swap the source
+  setEventSourceFactory(createMockEventSource)
+  registerSsoProvider(mockIdpProvider)
+  const scenario = resolveScenario(window.location.search, localStorage)
+  // Feel like a real network so loading states get exercised
+  applyScenario(scenario, { latency: 'real' })
+  await worker.start({ onUnhandledRequest: 'bypass' })
+  if (window.location.pathname === MOCK_IDP_AUTHORIZE_PATH) {
+    return { idpPage: <MockIdpSignIn href={window.location.href} /> }
+  }
+  return {
+    devPanel: (
+      <MockScenarioPanel
+        scenario={scenario}
+        onOpenLink={(href) => void router.navigate({ href })}
+      />
+    ),
+  }
 }
 
-void enableMocking().then(() => {
+void enableMocking().then((mocks) => {
   const rootElement = document.getElementById('root')
   if (!rootElement) {
     throw new Error('Root element not found')
   }
-  ReactDOM.createRoot(rootElement).render(
+  const root = ReactDOM.createRoot(rootElement)
+  // The provider's page stands in for another site, so no app behind it
+  if (mocks?.idpPage) {
+    root.render(<React.StrictMode>{mocks.idpPage}</React.StrictMode>)
+    return
+  }
+  // Started after mocking so MSW can answer the session request in dev
+  const sessionRestored = restoreSession()
+  root.render(
     <React.StrictMode>
-      <App />
+      <Suspense fallback={<SplashScreen />}>
+        <App sessionRestored={sessionRestored} />
+      </Suspense>
+      {mocks?.devPanel}
     </React.StrictMode>
   )
 })
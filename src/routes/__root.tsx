@@ -6,12 +6,14 @@ import { HelmetProvider } from 'react-helmet-async'
 import * as Sentry from '@sentry/react'
 import { useThemeEffect } from '@/hooks/use-theme-effect'
 import { useLocaleEffect } from '@/hooks/use-locale-effect'
+import { Toaster } from '@/components/features/toast/Toaster'
+import type { Role } from '@/types'
 
 interface RouterContext {
   queryClient: QueryClient
   auth: {
     isAuthenticated: boolean
-    user: { id: string; name: string } | null
+    user: { id: string; name: string; role: Role; verified: boolean } | null
   }
 }
 
@@ -29,6 +31,7 @@ function RootComponent() {
         <div className="bg-background min-h-screen font-sans antialiased">
           <Outlet />
         </div>
+        <Toaster />
         {import.meta.env.DEV && (
           <>
             <TanStackRouterDevtools position="bottom-right" />
@@ -1,85 +1,242 @@
-import { useState } from 'react'
+import { useCallback, useRef, useState } from 'react'
 import { createFileRoute } from '@tanstack/react-router'
-import { useSuspenseQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
 import { usersQueryOptions } from '@/api/queries/users'
 import { useCreateUser } from '@/api/mutations/users'
 import { useUpdateUser } from '@/api/mutations/users'
-import { useDeleteUser } from '@/api/mutations/users'
+import { undoDeleteUser, useDeleteUser } from '@/api/mutations/users'
+import {
+  useBulkDeleteUsers,
+  useBulkUpdateUserRole,
+  type BulkUserResult,
+} from '@/api/mutations/users'
 import { UserTable } from '@/components/features/admin/UserTable'
+import { UserTableToolbar } from '@/components/features/admin/UserTableToolbar'
 import { CreateUserDialog } from '@/components/features/admin/CreateUserDialog'
 import { EditUserDialog } from '@/components/features/admin/EditUserDialog'
 import { DeleteUserDialog } from '@/components/features/admin/DeleteUserDialog'
+import { BulkActionBar } from '@/components/features/admin/BulkActionBar'
+import {
+  BulkConfirmDialog,
+  type BulkAction,
+} from '@/components/features/admin/BulkConfirmDialog'
+import { BulkResultDialog } from '@/components/features/admin/BulkResultDialog'
 import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
 import { ApiError } from '@/api/client'
-import type { User } from '@/types'
-import type {
-  CreateUserFormData,
-  UpdateUserFormData,
+import { requirePermission, requireVerifiedEmail } from '@/lib/permissions'
+import { hasFieldErrors } from '@/lib/form-errors'
+import { toast } from '@/lib/toast'
+import { downloadFile, toCsv, type CsvColumn } from '@/lib/csv'
+import { useRowSelection } from '@/hooks/use-row-selection'
+import type { Role, User } from '@/types'
+import {
+  USER_PAGE_SIZES,
+  userListSearchSchema,
+  type CreateUserFormData,
+  type UpdateUserFormData,
+  type UserListSearch,
 } from '@/lib/validators/user'
 
+// "All matching" is loaded a page at a time at the largest size the table
+// offers, so no single request is unbounded
+const SELECTION_PAGE_SIZE = Math.max(...USER_PAGE_SIZES)
+
+const CSV_COLUMNS: CsvColumn<User>[] = [
+  { header: 'Name', value: (user) => user.name },
+  { header: 'Email', value: (user) => user.email },
+  { header: 'Role', value: (user) => user.role },
+  { header: 'Created', value: (user) => user.createdAt },
+]
+
 export const Route = createFileRoute('/_authenticated/admin/users')({
-  loader: ({ context }) =>
-    context.queryClient.ensureQueryData(usersQueryOptions),
+  validateSearch: userListSearchSchema,
+  beforeLoad: (options) => {
+    requireVerifiedEmail()(options)
+    requirePermission('users:manage')(options)
+  },
+  loaderDeps: ({ search }) => search,
+  // Prefetch without blocking, so paging keeps the current rows visible
+  // instead of suspending the whole page
+  loader: ({ context, deps }) => {
+    void context.queryClient.prefetchQuery(usersQueryOptions(deps))
+  },
   component: AdminUsersPage,
 })
 
 function AdminUsersPage() {
   const { t } = useTranslation('users')
-  const { data: users } = useSuspenseQuery(usersQueryOptions)
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const queryClient = useQueryClient()
+  const usersQuery = useQuery(usersQueryOptions(search))
+  const selection = useRowSelection<User>()
 
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
   const [deletingUser, setDeletingUser] = useState<User | null>(null)
-  const [successMessage, setSuccessMessage] = useState<string | null>(null)
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null)
+  const [bulkResult, setBulkResult] = useState<BulkUserResult | null>(null)
+  const [bulkLoadFailed, setBulkLoadFailed] = useState(false)
+  const [isResolvingSelection, setIsResolvingSelection] = useState(false)
 
   const createUser = useCreateUser()
   const updateUser = useUpdateUser()
-  const deleteUser = useDeleteUser()
+  // Undo toasts by user id. They stay up until the undo window closes rather
+  // than on the toaster's own clock, which pauses on hover and in the queue.
+  const undoToasts = useRef(new Map<string, string>())
+  const deleteUser = useDeleteUser({
+    onUndoExpired: (id) => {
+      const toastId = undoToasts.current.get(id)
+      undoToasts.current.delete(id)
+      if (toastId) toast.dismiss(toastId)
+    },
+  })
+  const bulkDelete = useBulkDeleteUsers()
+  const bulkUpdateRole = useBulkUpdateUserRole()
+
+  const updateSearch = useCallback(
+    (changes: Partial<UserListSearch>) => {
+      void navigate({
+        search: (prev) => ({ ...prev, ...changes }),
+      })
+    },
+    [navigate]
+  )
+
+  // Any filter change invalidates the current page number, and the selection
+  // since it may include users that no longer match
+  const clearSelection = selection.clear
+  const handleSearchChange = useCallback(
+    (q: string) => {
+      clearSelection()
+      updateSearch({ q, page: 1 })
+    },
+    [updateSearch, clearSelection]
+  )
 
-  const showSuccess = (message: string) => {
-    setSuccessMessage(message)
-    setTimeout(() => {
-      setSuccessMessage(null)
-    }, 3000)
+  const handleRoleChange = (role: Role | undefined) => {
+    selection.clear()
+    updateSearch({ role, page: 1 })
   }
 
-  const handleCreate = (data: CreateUserFormData) => {
-    createUser.mutate(data, {
-      onSuccess: () => {
-        setCreateDialogOpen(false)
-        showSuccess(t('admin.feedback.createSuccess'))
-      },
-    })
+  // Rejections reach the form, which shows field errors inline
+  const handleCreate = async (data: CreateUserFormData) => {
+    await createUser.mutateAsync(data)
+    setCreateDialogOpen(false)
+    toast.success(t('admin.feedback.createSuccess'))
   }
 
-  const handleUpdate = (data: UpdateUserFormData) => {
+  const handleUpdate = async (data: UpdateUserFormData) => {
     if (!editingUser) return
-    updateUser.mutate(
-      { id: editingUser.id, ...data },
-      {
-        onSuccess: () => {
-          setEditingUser(null)
-          showSuccess(t('admin.feedback.updateSuccess'))
-        },
-      }
-    )
+    await updateUser.mutateAsync({ id: editingUser.id, ...data })
+    setEditingUser(null)
+    toast.success(t('admin.feedback.updateSuccess'))
   }
 
   const handleDelete = () => {
     if (!deletingUser) return
-    deleteUser.mutate(deletingUser.id, {
-      onSuccess: () => {
-        setDeletingUser(null)
-        showSuccess(t('admin.feedback.deleteSuccess'))
+    const { id } = deletingUser
+    // The row is removed right away; the request waits out the undo window
+    deleteUser.mutate(id)
+    setDeletingUser(null)
+    const toastId = toast.success(t('admin.feedback.deleteSuccess'), {
+      duration: Infinity,
+      action: {
+        label: t('admin.feedback.undo'),
+        onClick: () => {
+          undoToasts.current.delete(id)
+          if (undoDeleteUser(id)) toast(t('admin.feedback.deleteUndone'))
+          else toast.error(t('admin.feedback.undoTooLate'))
+        },
       },
     })
+    undoToasts.current.set(id, toastId)
+  }
+
+  const pageUsers = usersQuery.data?.data ?? []
+  const total = usersQuery.data?.total ?? 0
+  const selectedCount = selection.allMatching
+    ? total
+    : selection.selected.length
+  const isPageSelected =
+    pageUsers.length > 0 &&
+    pageUsers.every((user) => selection.selectedIds.has(user.id))
+
+  // "All matching" covers pages that were never loaded, so they are fetched
+  // when an action runs
+  const resolveSelection = async () => {
+    if (!selection.allMatching) return selection.selected
+    const users: User[] = []
+    for (let page = 1; ; page++) {
+      const { data, total: matching } = await queryClient.fetchQuery(
+        usersQueryOptions({ ...search, page, pageSize: SELECTION_PAGE_SIZE })
+      )
+      users.push(...data)
+      if (data.length < SELECTION_PAGE_SIZE || users.length >= matching) {
+        return users
+      }
+    }
+  }
+
+  const withSelection = async (action: (users: User[]) => void) => {
+    setBulkLoadFailed(false)
+    setIsResolvingSelection(true)
+    try {
+      action(await resolveSelection())
+    } catch {
+      setBulkLoadFailed(true)
+    } finally {
+      setIsResolvingSelection(false)
+    }
+  }
+
+  const handleBulkSettled = (
+    result: BulkUserResult,
+    successKey: 'admin.bulk.deleteSuccess' | 'admin.bulk.roleSuccess'
+  ) => {
+    setBulkAction(null)
+    selection.clear()
+    if (result.failed.length > 0) {
+      setBulkResult(result)
+    } else {
+      toast.success(t(successKey, { count: result.succeeded.length }))
+    }
+  }
+
+  const handleBulkConfirm = () => {
+    if (!bulkAction) return
+    void withSelection((users) => {
+      if (bulkAction.type === 'delete') {
+        bulkDelete.mutate(users, {
+          onSuccess: (result) => {
+            handleBulkSettled(result, 'admin.bulk.deleteSuccess')
+          },
+        })
+      } else {
+        bulkUpdateRole.mutate(
+          { users, role: bulkAction.role },
+          {
+            onSuccess: (result) => {
+              handleBulkSettled(result, 'admin.bulk.roleSuccess')
+            },
+          }
+        )
+      }
+    })
+  }
+
+  const handleExport = () => {
+    void withSelection((users) => {
+      downloadFile('users.csv', toCsv(users, CSV_COLUMNS))
+    })
   }
 
   const errorMessage = (() => {
     const error = createUser.error ?? updateUser.error ?? deleteUser.error
-    if (!error) return null
+    if (!error || hasFieldErrors(error)) return null
     if (error instanceof ApiError) return error.message
     return t('admin.feedback.createFailed')
   })()
@@ -101,24 +258,123 @@ function AdminUsersPage() {
           </Button>
         </div>
 
-        {successMessage && (
-          <div className="mt-4 rounded-md border border-green-200 bg-green-50 p-3 text-sm text-green-800">
-            {successMessage}
-          </div>
-        )}
-
         {errorMessage && (
           <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
             {errorMessage}
           </div>
         )}
 
-        <div className="mt-6">
-          <UserTable
-            users={users}
-            onEdit={setEditingUser}
-            onDelete={setDeletingUser}
+        <div className="mt-6 space-y-4">
+          <UserTableToolbar
+            q={search.q}
+            role={search.role}
+            onSearchChange={handleSearchChange}
+            onRoleChange={handleRoleChange}
           />
+          {bulkLoadFailed && (
+            <div
+              role="alert"
+              className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+            >
+              {t('admin.bulk.loadFailed')}
+            </div>
+          )}
+          {selectedCount > 0 && (
+            <>
+              <BulkActionBar
+                count={selectedCount}
+                onChangeRole={(role) => {
+                  setBulkAction({ type: 'role', role })
+                }}
+                onExport={handleExport}
+                onDelete={() => {
+                  setBulkAction({ type: 'delete' })
+                }}
+                onClear={selection.clear}
+                disabled={isResolvingSelection}
+              />
+              {selection.allMatching ? (
+                <p className="text-center text-sm">
+                  {t('admin.bulk.allMatchingSelected', { total })}{' '}
+                  <Button
+                    variant="link"
+                    className="h-auto p-0"
+                    onClick={selection.clear}
+                  >
+                    {t('admin.bulk.clear')}
+                  </Button>
+                </p>
+              ) : (
+                isPageSelected &&
+                total > pageUsers.length && (
+                  <p className="text-center text-sm">
+                    {t('admin.bulk.pageSelected', {
+                      count: pageUsers.length,
+                    })}{' '}
+                    <Button
+                      variant="link"
+                      className="h-auto p-0"
+                      onClick={selection.selectAllMatching}
+                    >
+                      {t('admin.bulk.selectAllMatching', { total })}
+                    </Button>
+                  </p>
+                )
+              )}
+            </>
+          )}
+          {usersQuery.isError ? (
+            <div
+              role="alert"
+              className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800"
+            >
+              {t('admin.feedback.loadFailed')}
+            </div>
+          ) : usersQuery.data ? (
+            <UserTable
+              users={pageUsers}
+              onEdit={setEditingUser}
+              onDelete={setDeletingUser}
+              isFetching={usersQuery.isPlaceholderData}
+              selection={{
+                selectedIds: selection.selectedIds,
+                allMatching: selection.allMatching,
+                onToggle: (user, checked) => {
+                  // Unchecking one row out of "all matching" keeps the rest of
+                  // the visible page selected
+                  if (selection.allMatching) {
+                    selection.togglePage(pageUsers, true)
+                  }
+                  selection.toggle(user, checked)
+                },
+                onTogglePage: selection.togglePage,
+              }}
+              sorting={{
+                sort: search.sort,
+                order: search.order,
+                onSortChange: (sort, order) => {
+                  updateSearch({ sort, order, page: 1 })
+                },
+              }}
+              pagination={{
+                page: search.page,
+                pageSize: search.pageSize,
+                total: usersQuery.data.total,
+                onPageChange: (page) => {
+                  updateSearch({ page })
+                },
+                onPageSizeChange: (pageSize) => {
+                  updateSearch({ pageSize, page: 1 })
+                },
+              }}
+            />
+          ) : (
+            <div className="space-y-2" aria-busy>
+              {Array.from({ length: 5 }, (_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          )}
         </div>
 
         <CreateUserDialog
@@ -145,7 +401,27 @@ function AdminUsersPage() {
           }}
           user={deletingUser}
           onConfirm={handleDelete}
-          isLoading={deleteUser.isPending}
+        />
+
+        <BulkConfirmDialog
+          action={bulkAction}
+          count={selectedCount}
+          onOpenChange={(open) => {
+            if (!open) setBulkAction(null)
+          }}
+          onConfirm={handleBulkConfirm}
+          isLoading={
+            isResolvingSelection ||
+            bulkDelete.isPending ||
+            bulkUpdateRole.isPending
+          }
+        />
+
+        <BulkResultDialog
+          result={bulkResult}
+          onOpenChange={(open) => {
+            if (!open) setBulkResult(null)
+          }}
         />
       </div>
     </>
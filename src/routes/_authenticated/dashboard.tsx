@@ -1,18 +1,119 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
 import { useSuspenseQuery } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
-import { dashboardQueryOptions } from '@/api/queries/dashboard'
+import {
+  activityQueryOptions,
+  dashboardQueryOptions,
+  metricsQueryOptions,
+} from '@/api/queries/dashboard'
+import { ActivityFeed } from '@/components/features/dashboard/ActivityFeed'
+import { LayoutControls } from '@/components/features/dashboard/LayoutControls'
+import { MetricsSection } from '@/components/features/dashboard/MetricsSection'
+import { QuickLinks } from '@/components/features/dashboard/QuickLinks'
+import { StatCard } from '@/components/features/dashboard/StatCard'
+import { WidgetFrame } from '@/components/features/dashboard/WidgetFrame'
+import { useDashboardLayoutSync } from '@/hooks/use-dashboard-layout-sync'
+import { dashboardSearchSchema } from '@/lib/validators/dashboard'
+import { useAuthStore } from '@/stores/authStore'
+import {
+  WIDGET_TYPES,
+  selectLayout,
+  useDashboardStore,
+} from '@/stores/dashboardStore'
+import type { WidgetType } from '@/types'
 
 export const Route = createFileRoute('/_authenticated/dashboard')({
-  loader: ({ context }) =>
-    context.queryClient.ensureQueryData(dashboardQueryOptions),
+  validateSearch: dashboardSearchSchema,
+  loaderDeps: ({ search }) => ({
+    activityType: search.activityType,
+    range: search.range,
+    interval: search.interval,
+  }),
+  loader: ({ context, deps }) => {
+    // The feed and charts have their own loading states, so they don't hold
+    // up the page
+    void context.queryClient.prefetchInfiniteQuery(
+      activityQueryOptions(deps.activityType)
+    )
+    void context.queryClient.prefetchQuery(
+      metricsQueryOptions(deps.range, deps.interval)
+    )
+    return context.queryClient.ensureQueryData(dashboardQueryOptions)
+  },
   component: DashboardPage,
 })
 
 function DashboardPage() {
   const { t } = useTranslation('dashboard')
   const { data } = useSuspenseQuery(dashboardQueryOptions)
+  const { activityType, range, interval } = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const userId = useAuthStore((s) => s.user?.id)
+  const layout = useDashboardStore(selectLayout(userId))
+  const { addWidget, removeWidget, moveWidget, resizeWidget, resetLayout } =
+    useDashboardStore()
+  const [editing, setEditing] = useState(false)
+  useDashboardLayoutSync(userId)
+
+  const hiddenWidgets = WIDGET_TYPES.filter(
+    (type) => !layout.some((widget) => widget.type === type)
+  )
+
+  const renderWidget = (type: WidgetType) => {
+    switch (type) {
+      case 'totalUsers':
+        return (
+          <StatCard
+            label={t('stats.totalUsers')}
+            value={data.totalUsers}
+            to="/users"
+          />
+        )
+      case 'totalPosts':
+        return (
+          <StatCard
+            label={t('stats.totalPosts')}
+            value={data.totalPosts}
+            to="/posts"
+          />
+        )
+      case 'quickLinks':
+        return <QuickLinks />
+      case 'metrics':
+        return (
+          <MetricsSection
+            range={range}
+            interval={interval}
+            onRangeChange={(value) => {
+              void navigate({
+                search: (prev) => ({ ...prev, range: value }),
+                replace: true,
+              })
+            }}
+            onIntervalChange={(value) => {
+              void navigate({
+                search: (prev) => ({ ...prev, interval: value }),
+                replace: true,
+              })
+            }}
+          />
+        )
+      case 'activity':
+        return (
+          <ActivityFeed
+            type={activityType}
+            onTypeChange={(type) => {
+              void navigate({
+                search: (prev) => ({ ...prev, activityType: type }),
+                replace: true,
+              })
+            }}
+          />
+        )
+    }
+  }
 
   return (
     <>
@@ -20,17 +121,50 @@ function DashboardPage() {
         <title>{t('pageTitle')} | App Name</title>
       </Helmet>
       <div className="container py-8">
-        <h1 className="text-3xl font-bold">{t('welcome')}</h1>
-        <div className="mt-6 grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          <Link to="/users" className="hover:bg-muted rounded-lg border p-4">
-            <p className="text-muted-foreground text-sm">Total Users</p>
-            <p className="text-2xl font-bold">{data.totalUsers}</p>
-          </Link>
-          <Link to="/users" className="hover:bg-muted rounded-lg border p-4">
-            <p className="text-muted-foreground text-sm">Total Posts</p>
-            <p className="text-2xl font-bold">{data.totalPosts}</p>
-          </Link>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold">{t('welcome')}</h1>
+          {userId && (
+            <LayoutControls
+              editing={editing}
+              onEditingChange={setEditing}
+              hiddenWidgets={hiddenWidgets}
+              onAdd={(type) => {
+                addWidget(userId, type)
+              }}
+              onReset={() => {
+                resetLayout(userId)
+              }}
+            />
+          )}
         </div>
+        {layout.length === 0 ? (
+          <p className="text-muted-foreground mt-6 text-sm">
+            {t('widgets.empty')}
+          </p>
+        ) : (
+          <div className="mt-6 grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {layout.map((widget, i) => (
+              <WidgetFrame
+                key={widget.type}
+                widget={widget}
+                editing={editing && !!userId}
+                isFirst={i === 0}
+                isLast={i === layout.length - 1}
+                onMove={(offset) => {
+                  if (userId) moveWidget(userId, widget.type, offset)
+                }}
+                onResize={(size) => {
+                  if (userId) resizeWidget(userId, widget.type, size)
+                }}
+                onRemove={() => {
+                  if (userId) removeWidget(userId, widget.type)
+                }}
+              >
+                {renderWidget(widget.type)}
+              </WidgetFrame>
+            ))}
+          </div>
+        )}
       </div>
     </>
   )
@@ -0,0 +1,34 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import { ShieldAlert } from 'lucide-react'
+
+export const Route = createFileRoute('/_authenticated/forbidden')({
+  component: ForbiddenPage,
+})
+
+function ForbiddenPage() {
+  const { t } = useTranslation('common')
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('errors.forbiddenTitle')} | App Name</title>
+      </Helmet>
+      <div className="container flex min-h-[calc(100vh-8rem)] flex-col items-center justify-center text-center">
+        <ShieldAlert className="text-muted-foreground h-12 w-12" />
+        <p className="text-muted-foreground mt-4 text-sm font-medium">403</p>
+        <h1 className="mt-1 text-3xl font-bold">
+          {t('errors.forbiddenTitle')}
+        </h1>
+        <p className="text-muted-foreground mt-2">{t('errors.unauthorized')}</p>
+        <Link
+          to="/dashboard"
+          className="bg-primary text-primary-foreground mt-6 rounded px-4 py-2"
+        >
+          {t('errors.backToDashboard')}
+        </Link>
+      </div>
+    </>
+  )
+}
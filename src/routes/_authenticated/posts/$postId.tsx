@@ -0,0 +1,114 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useSuspenseQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import { Pencil, Trash2 } from 'lucide-react'
+import { postQueryOptions } from '@/api/queries/posts'
+import { userQueryOptions } from '@/api/queries/users'
+import { Button } from '@/components/ui/button'
+import { PostEditorDialog } from '@/components/features/posts/PostEditorDialog'
+import { DeletePostDialog } from '@/components/features/posts/DeletePostDialog'
+import { Markdown } from '@/components/features/posts/Markdown'
+import { usePostEditor } from '@/hooks/use-post-editor'
+import { canManagePost } from '@/lib/permissions'
+import { useAuthStore } from '@/stores/authStore'
+
+export const Route = createFileRoute('/_authenticated/posts/$postId')({
+  loader: async ({ params, context }) => {
+    const post = await context.queryClient.ensureQueryData(
+      postQueryOptions(params.postId)
+    )
+    await context.queryClient.ensureQueryData(userQueryOptions(post.authorId))
+  },
+  component: PostPage,
+})
+
+function PostPage() {
+  const { postId } = Route.useParams()
+  const { t } = useTranslation('users')
+  const navigate = useNavigate()
+  const { data: post } = useSuspenseQuery(postQueryOptions(postId))
+  const { data: author } = useSuspenseQuery(userQueryOptions(post.authorId))
+  const currentUser = useAuthStore((s) => s.user)
+  const editor = usePostEditor({
+    onDeleted: (deleted) => {
+      void navigate({
+        to: '/users/$userId',
+        params: { userId: deleted.authorId },
+      })
+    },
+  })
+
+  return (
+    <>
+      <Helmet>
+        <title>{post.title} | App Name</title>
+      </Helmet>
+      <article className="container max-w-3xl py-8">
+        <header className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{post.title}</h1>
+            <p className="text-muted-foreground mt-2 text-sm">
+              {t('posts.byline', {
+                date: new Date(post.createdAt).toLocaleDateString(),
+              })}{' '}
+              <Link
+                to="/users/$userId"
+                params={{ userId: author.id }}
+                className="hover:text-foreground underline"
+              >
+                {author.name}
+              </Link>
+            </p>
+          </div>
+          {canManagePost(currentUser, post) && (
+            <div className="flex shrink-0 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  editor.openEdit(post)
+                }}
+              >
+                <Pencil className="h-4 w-4" />
+                {t('posts.edit')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  editor.openDelete(post)
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+                {t('posts.delete.confirm')}
+              </Button>
+            </div>
+          )}
+        </header>
+
+        <Markdown className="mt-6">{post.content}</Markdown>
+
+        <PostEditorDialog
+          open={editor.editorOpen}
+          onOpenChange={(open) => {
+            if (!open) editor.closeEditor()
+          }}
+          post={editor.editingPost}
+          onSubmit={editor.submit}
+          isLoading={editor.isSaving}
+        />
+
+        <DeletePostDialog
+          open={!!editor.deletingPost}
+          onOpenChange={(open) => {
+            if (!open) editor.closeDelete()
+          }}
+          post={editor.deletingPost}
+          onConfirm={editor.confirmDelete}
+          isLoading={editor.isDeleting}
+        />
+      </article>
+    </>
+  )
+}
@@ -0,0 +1,67 @@
+import { useCallback } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import {
+  postAuthorsQueryOptions,
+  postFeedQueryOptions,
+} from '@/api/queries/posts'
+import { PostFeed } from '@/components/features/posts/PostFeed'
+import { PostFeedToolbar } from '@/components/features/posts/PostFeedToolbar'
+import {
+  postFeedSearchSchema,
+  type PostFeedSearch,
+} from '@/lib/validators/post'
+
+export const Route = createFileRoute('/_authenticated/posts/')({
+  validateSearch: postFeedSearchSchema,
+  loaderDeps: ({ search }) => search,
+  // Prefetch without blocking so changing a filter keeps the toolbar usable
+  loader: ({ context, deps }) => {
+    void context.queryClient.prefetchInfiniteQuery(postFeedQueryOptions(deps))
+    void context.queryClient.prefetchQuery(postAuthorsQueryOptions)
+  },
+  component: PostsPage,
+})
+
+function PostsPage() {
+  const { t } = useTranslation('users')
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const hasFilters =
+    search.q !== '' ||
+    search.author !== undefined ||
+    search.from !== undefined ||
+    search.to !== undefined
+
+  const updateSearch = useCallback(
+    (changes: Partial<PostFeedSearch>) => {
+      void navigate({
+        search: (prev) => ({ ...prev, ...changes }),
+      })
+    },
+    [navigate]
+  )
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('posts.feed.pageTitle')} | App Name</title>
+      </Helmet>
+      <div className="container py-8">
+        <h1 className="text-3xl font-bold">{t('posts.feed.pageTitle')}</h1>
+        <div className="mt-6 space-y-6">
+          <PostFeedToolbar
+            search={search}
+            hasFilters={hasFilters}
+            onSearchChange={updateSearch}
+            onClear={() => {
+              void navigate({ search: { q: '' } })
+            }}
+          />
+          <PostFeed params={search} hasFilters={hasFilters} />
+        </div>
+      </div>
+    </>
+  )
+}
@@ -7,7 +7,7 @@ export const Route = createFileRoute('/_authenticated/settings/')({
 })
 
 function SettingsPage() {
-  const { t } = useTranslation('common')
+  const { t } = useTranslation(['common', 'settings'])
 
   return (
     <>
@@ -16,11 +16,24 @@ function SettingsPage() {
       </Helmet>
       <div className="container py-8">
         <h1 className="text-3xl font-bold">{t('navigation.settings')}</h1>
-        <div className="mt-6">
-          <Link to="/settings/profile" className="text-primary hover:underline">
-            Profile Settings
-          </Link>
-        </div>
+        <ul className="mt-6 space-y-2">
+          <li>
+            <Link
+              to="/settings/profile"
+              className="text-primary hover:underline"
+            >
+              {t('settings:profile.pageTitle')}
+            </Link>
+          </li>
+          <li>
+            <Link
+              to="/settings/security"
+              className="text-primary hover:underline"
+            >
+              {t('settings:security.pageTitle')}
+            </Link>
+          </li>
+        </ul>
       </div>
     </>
   )
@@ -1,5 +1,4 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
 import {
@@ -13,6 +12,8 @@ import { ProfileForm } from '@/components/forms/ProfileForm'
 import { useUpdateUser } from '@/api/mutations/users'
 import { useAuthStore } from '@/stores/authStore'
 import { ApiError } from '@/api/client'
+import { hasFieldErrors } from '@/lib/form-errors'
+import { toast } from '@/lib/toast'
 import type { ProfileFormData } from '@/lib/validators/user'
 
 export const Route = createFileRoute('/_authenticated/settings/profile')({
@@ -24,20 +25,12 @@ function ProfileSettingsPage() {
   const user = useAuthStore((s) => s.user)
   const updateAuthUser = useAuthStore((s) => s.updateUser)
   const updateUser = useUpdateUser()
-  const [successMessage, setSuccessMessage] = useState<string | null>(null)
 
-  const handleSubmit = (data: ProfileFormData) => {
+  const handleSubmit = async (data: ProfileFormData) => {
     if (!user) return
-    setSuccessMessage(null)
-    updateUser.mutate(
-      { id: user.id, ...data },
-      {
-        onSuccess: () => {
-          updateAuthUser(data)
-          setSuccessMessage(t('profile.updateSuccess'))
-        },
-      }
-    )
+    await updateUser.mutateAsync({ id: user.id, ...data })
+    updateAuthUser(data)
+    toast.success(t('profile.updateSuccess'))
   }
 
   function getErrorMessage(error: Error): string {
@@ -64,7 +57,7 @@ function ProfileSettingsPage() {
             <CardDescription>{t('profile.pageDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
-            {updateUser.error && (
+            {updateUser.error && !hasFieldErrors(updateUser.error) && (
               <div
                 role="alert"
                 className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
@@ -72,14 +65,6 @@ function ProfileSettingsPage() {
                 {getErrorMessage(updateUser.error)}
               </div>
             )}
-            {successMessage && (
-              <div
-                role="status"
-                className="mb-4 rounded-md border border-green-200 bg-green-50 px-4 py-3 text-sm text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200"
-              >
-                {successMessage}
-              </div>
-            )}
             <ProfileForm
               onSubmit={handleSubmit}
               isLoading={updateUser.isPending}
@@ -0,0 +1,91 @@
+import { useId } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import { ChangePasswordForm } from '@/components/forms/ChangePasswordForm'
+import { SessionList } from '@/components/features/security/SessionList'
+import { TwoFactorSection } from '@/components/features/security/TwoFactorSection'
+import { LoginHistoryTable } from '@/components/features/security/LoginHistoryTable'
+import { useChangePassword } from '@/api/mutations/security'
+import {
+  loginHistoryQueryOptions,
+  mfaStatusQueryOptions,
+  sessionsQueryOptions,
+} from '@/api/queries/security'
+import { hasFieldErrors } from '@/lib/form-errors'
+import { requireVerifiedEmail } from '@/lib/permissions'
+import { toast } from '@/lib/toast'
+import type { ChangePasswordFormData } from '@/lib/validators/auth'
+
+export const Route = createFileRoute('/_authenticated/settings/security')({
+  beforeLoad: requireVerifiedEmail(),
+  // Prefetch without blocking; each section has its own loading state
+  loader: ({ context }) => {
+    void context.queryClient.prefetchQuery(mfaStatusQueryOptions)
+    void context.queryClient.prefetchQuery(sessionsQueryOptions)
+    void context.queryClient.prefetchQuery(loginHistoryQueryOptions)
+  },
+  component: SecuritySettingsPage,
+})
+
+function SecuritySettingsPage() {
+  const { t } = useTranslation('settings')
+  const passwordHeadingId = useId()
+  const changePassword = useChangePassword()
+
+  const handleChangePassword = async (data: ChangePasswordFormData) => {
+    await changePassword.mutateAsync({
+      currentPassword: data.currentPassword,
+      newPassword: data.newPassword,
+    })
+    toast.success(t('security.changePassword.success'))
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('security.pageTitle')} | My Application</title>
+      </Helmet>
+      <div className="container max-w-3xl space-y-6 py-8">
+        <div>
+          <h1 className="text-3xl font-bold">{t('security.pageTitle')}</h1>
+          <p className="text-muted-foreground mt-1">
+            {t('security.pageDescription')}
+          </p>
+        </div>
+
+        <section
+          aria-labelledby={passwordHeadingId}
+          className="rounded-lg border"
+        >
+          <div className="border-b p-4">
+            <h2 id={passwordHeadingId} className="text-lg font-semibold">
+              {t('security.changePassword.title')}
+            </h2>
+            <p className="text-muted-foreground text-sm">
+              {t('security.changePassword.description')}
+            </p>
+          </div>
+          <div className="p-4">
+            {changePassword.error && !hasFieldErrors(changePassword.error) && (
+              <div
+                role="alert"
+                className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+              >
+                {t('security.changePassword.failed')}
+              </div>
+            )}
+            <ChangePasswordForm
+              onSubmit={handleChangePassword}
+              isLoading={changePassword.isPending}
+            />
+          </div>
+        </section>
+
+        <TwoFactorSection />
+        <SessionList />
+        <LoginHistoryTable />
+      </div>
+    </>
+  )
+}
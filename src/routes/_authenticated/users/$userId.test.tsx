@@ -1,11 +1,13 @@
 import { Suspense } from 'react'
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { screen, render } from '@testing-library/react'
 import { I18nextProvider } from 'react-i18next'
 import i18n from 'i18next'
 import { initReactI18next } from 'react-i18next'
 import { axe } from 'vitest-axe'
 import { HelmetProvider } from 'react-helmet-async'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useAuthStore } from '@/stores/authStore'
 import type { User, Post } from '@/types'
 
 // Create a test-specific i18n instance
@@ -28,6 +30,11 @@ void testI18n.use(initReactI18next).init({
         postsHeading: 'Posts ({{count}})',
         noPosts: 'No posts yet.',
         publishedOn: 'Published on {{date}}',
+        posts: {
+          newPost: 'New post',
+          editNamed: 'Edit "{{title}}"',
+          deleteNamed: 'Delete "{{title}}"',
+        },
       },
     },
   },
@@ -115,17 +122,23 @@ await LazyUserPage.preload()
 
 function renderPage() {
   return render(
-    <I18nextProvider i18n={testI18n}>
-      <HelmetProvider>
-        <Suspense fallback={<div>Loading...</div>}>
-          <LazyUserPage />
-        </Suspense>
-      </HelmetProvider>
-    </I18nextProvider>
+    <QueryClientProvider client={new QueryClient()}>
+      <I18nextProvider i18n={testI18n}>
+        <HelmetProvider>
+          <Suspense fallback={<div>Loading...</div>}>
+            <LazyUserPage />
+          </Suspense>
+        </HelmetProvider>
+      </I18nextProvider>
+    </QueryClientProvider>
   )
 }
 
 describe('UserPage', () => {
+  beforeEach(() => {
+    useAuthStore.setState({ user: null })
+  })
+
   it('renders user info and posts', () => {
     currentPosts = mockPosts
     renderPage()
@@ -152,6 +165,39 @@ describe('UserPage', () => {
     expect(screen.getByText('No posts yet.')).toBeInTheDocument()
   })
 
+  it('lets the author write and manage posts', () => {
+    currentPosts = mockPosts
+    useAuthStore.setState({
+      user: { ...mockUser, role: 'user', verified: true },
+    })
+    renderPage()
+
+    expect(screen.getByRole('button', { name: 'New post' })).toBeInTheDocument()
+    expect(
+      screen.getByRole('button', { name: 'Edit "First Post"' })
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('button', { name: 'Delete "Second Post"' })
+    ).toBeInTheDocument()
+  })
+
+  it('hides post actions from other users', () => {
+    currentPosts = mockPosts
+    useAuthStore.setState({
+      user: {
+        id: '2',
+        name: 'Jane',
+        email: 'jane@example.com',
+        role: 'user',
+        verified: true,
+      },
+    })
+    renderPage()
+
+    expect(screen.getByText('First Post')).toBeInTheDocument()
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+
   it('should have no accessibility violations', async () => {
     currentPosts = mockPosts
     const { container } = renderPage()
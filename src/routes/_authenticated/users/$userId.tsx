@@ -3,7 +3,14 @@ import { useSuspenseQuery } from '@tanstack/react-query'
 import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
 import { userQueryOptions, userPostsQueryOptions } from '@/api/queries/users'
-import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { PostCard } from '@/components/features/posts/PostCard'
+import { PostEditorDialog } from '@/components/features/posts/PostEditorDialog'
+import { DeletePostDialog } from '@/components/features/posts/DeletePostDialog'
+import { usePostEditor } from '@/hooks/use-post-editor'
+import { canManagePost } from '@/lib/permissions'
+import { useAuthStore } from '@/stores/authStore'
 
 export const Route = createFileRoute('/_authenticated/users/$userId')({
   loader: ({ params, context }) =>
@@ -19,6 +26,9 @@ function UserPage() {
   const { t } = useTranslation('users')
   const { data: user } = useSuspenseQuery(userQueryOptions(userId))
   const { data: posts } = useSuspenseQuery(userPostsQueryOptions(userId))
+  const currentUser = useAuthStore((s) => s.user)
+  const editor = usePostEditor()
+  const isOwnPage = currentUser?.id === user.id
 
   return (
     <>
@@ -30,32 +40,56 @@ function UserPage() {
         <p className="text-muted-foreground mt-2">{user.email}</p>
 
         <section className="mt-8">
-          <h2 className="text-2xl font-semibold">
-            {t('postsHeading', { count: posts.length })}
-          </h2>
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-2xl font-semibold">
+              {t('postsHeading', { count: posts.length })}
+            </h2>
+            {isOwnPage && (
+              <Button onClick={editor.openCreate}>
+                <Plus className="h-4 w-4" />
+                {t('posts.newPost')}
+              </Button>
+            )}
+          </div>
 
           {posts.length === 0 ? (
             <p className="text-muted-foreground mt-4">{t('noPosts')}</p>
           ) : (
             <div className="mt-4 grid gap-4">
-              {posts.map((post) => (
-                <Card key={post.id}>
-                  <CardHeader>
-                    <CardTitle>{post.title}</CardTitle>
-                    <p className="text-muted-foreground text-sm">
-                      {t('publishedOn', {
-                        date: new Date(post.createdAt).toLocaleDateString(),
-                      })}
-                    </p>
-                  </CardHeader>
-                  <CardContent>
-                    <p>{post.content}</p>
-                  </CardContent>
-                </Card>
-              ))}
+              {posts.map((post) => {
+                const canManage = canManagePost(currentUser, post)
+                return (
+                  <PostCard
+                    key={post.id}
+                    post={post}
+                    onEdit={canManage ? editor.openEdit : undefined}
+                    onDelete={canManage ? editor.openDelete : undefined}
+                  />
+                )
+              })}
             </div>
           )}
         </section>
+
+        <PostEditorDialog
+          open={editor.editorOpen}
+          onOpenChange={(open) => {
+            if (!open) editor.closeEditor()
+          }}
+          post={editor.editingPost}
+          onSubmit={editor.submit}
+          isLoading={editor.isSaving}
+        />
+
+        <DeletePostDialog
+          open={!!editor.deletingPost}
+          onOpenChange={(open) => {
+            if (!open) editor.closeDelete()
+          }}
+          post={editor.deletingPost}
+          onConfirm={editor.confirmDelete}
+          isLoading={editor.isDeleting}
+        />
       </div>
     </>
   )
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { HelmetProvider } from 'react-helmet-async'
+import { render, screen, waitFor } from '@/test/test-utils'
+import {
+  approveAuthorization,
+  denyAuthorization,
+  mockIdpProvider,
+  parseAuthorizationRequest,
+} from '@/test/mocks/idp'
+import { createAuthorizationUrl, readPendingSsoRequest } from '@/lib/sso'
+import { db } from '@/test/mocks/db'
+import { useAuthStore } from '@/stores/authStore'
+
+let currentSearch: { code?: string; state?: string; error?: string } = {}
+const navigate = vi.fn()
+
+vi.mock('@tanstack/react-router', async (importOriginal) => {
+  const actual = await importOriginal()
+  return {
+    ...(actual as Record<string, unknown>),
+    createFileRoute: () => (options: Record<string, unknown>) => ({
+      ...options,
+      useSearch: () => currentSearch,
+    }),
+    useNavigate: () => navigate,
+    Link: ({ children, to }: { children: React.ReactNode; to: string }) => (
+      <a href={to}>{children}</a>
+    ),
+  }
+})
+
+const { Route } = await import('./callback')
+
+// The component is wrapped by lazyRouteComponent — preload it
+const LazySsoCallbackPage = (
+  Route as unknown as {
+    component: React.ComponentType & { preload: () => Promise<void> }
+  }
+).component
+await LazySsoCallbackPage.preload()
+
+// Sends the user to the mock provider from the login page and returns the
+// URL it redirects back to once they answer
+async function visitProvider(answer: 'approve' | 'deny') {
+  const request = parseAuthorizationRequest(
+    await createAuthorizationUrl(mockIdpProvider, '/posts')
+  )
+  return new URL(
+    answer === 'approve'
+      ? approveAuthorization(request, '2')
+      : denyAuthorization(request)
+  )
+}
+
+function renderCallback(callback: URL) {
+  currentSearch = Object.fromEntries(callback.searchParams)
+  return render(
+    <HelmetProvider>
+      <LazySsoCallbackPage />
+    </HelmetProvider>
+  )
+}
+
+describe('SsoCallbackPage', () => {
+  afterEach(() => {
+    useAuthStore.getState().logout()
+    navigate.mockClear()
+  })
+
+  it('exchanges the code, signs in and continues to the original page', async () => {
+    renderCallback(await visitProvider('approve'))
+
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Finishing sign-in with your identity provider...'
+    )
+    await waitFor(() => {
+      expect(navigate).toHaveBeenCalledWith({ href: '/posts', replace: true })
+    })
+    expect(useAuthStore.getState().user).toMatchObject({
+      id: '2',
+      verified: true,
+    })
+    // The same callback URL can't be used again
+    expect(readPendingSsoRequest()).toBeNull()
+  })
+
+  it('explains a refused consent without signing in', async () => {
+    renderCallback(await visitProvider('deny'))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Sign-in was cancelled at your identity provider'
+    )
+    expect(
+      screen.getByRole('link', { name: 'Back to sign in' })
+    ).toHaveAttribute('href', '/login')
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+  })
+
+  it('rejects a response whose state this tab never sent', async () => {
+    const callback = await visitProvider('approve')
+    callback.searchParams.set('state', 'forged-state')
+    renderCallback(callback)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      "This sign-in response doesn't match a request from this browser."
+    )
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(navigate).not.toHaveBeenCalled()
+  })
+
+  it('signs out of the session an ID token for another sign-in opened', async () => {
+    const callback = await visitProvider('approve')
+    const request = readPendingSsoRequest()
+    sessionStorage.setItem(
+      'sso-request',
+      JSON.stringify({ ...request, nonce: 'another-nonce' })
+    )
+    renderCallback(callback)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      "This sign-in response doesn't match a request from this browser."
+    )
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(db.sessions.where((session) => session.userId === '2')).toEqual([])
+  })
+})
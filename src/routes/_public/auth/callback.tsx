@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react'
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { useSsoSignIn } from '@/api/mutations/auth'
+import {
+  clearPendingSsoRequest,
+  readPendingSsoRequest,
+  SsoError,
+} from '@/lib/sso'
+import { isSafeRedirect, ssoCallbackSearchSchema } from '@/lib/validators/auth'
+
+export const Route = createFileRoute('/_public/auth/callback')({
+  validateSearch: ssoCallbackSearchSchema,
+  component: SsoCallbackPage,
+})
+
+type CallbackProblem = 'denied' | 'invalid' | 'failed'
+
+function SsoCallbackPage() {
+  const { t } = useTranslation('auth')
+  const navigate = useNavigate()
+  const { code, state, error } = Route.useSearch()
+  const ssoSignIn = useSsoSignIn()
+  const { mutateAsync: signIn } = ssoSignIn
+  // Read once and then forgotten, so this URL can't be replayed. The ref
+  // stops Strict Mode's second effect run from exchanging the code twice.
+  const [request] = useState(readPendingSsoRequest)
+  const started = useRef(false)
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+    clearPendingSsoRequest()
+    if (error || !code) return
+
+    const redirect = request?.redirect
+    signIn({ request, code, state }).then(
+      () =>
+        redirect && isSafeRedirect(redirect)
+          ? navigate({ href: redirect, replace: true })
+          : navigate({ to: '/dashboard', replace: true }),
+      // Shown from the mutation's error state
+      () => undefined
+    )
+  }, [code, state, error, request, signIn, navigate])
+
+  let problem: CallbackProblem | null = null
+  if (error) {
+    problem = error === 'access_denied' ? 'denied' : 'failed'
+  } else if (!code) {
+    problem = 'invalid'
+  } else if (ssoSignIn.isError) {
+    problem = ssoSignIn.error instanceof SsoError ? 'invalid' : 'failed'
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('signIn')} | My Application</title>
+      </Helmet>
+      <div className="container flex min-h-[calc(100vh-4rem)] items-center justify-center">
+        <Card className="w-full max-w-md">
+          {problem ? (
+            <>
+              <CardHeader>
+                <CardTitle>{t('sso.failedTitle')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div
+                  role="alert"
+                  className="bg-destructive/10 text-destructive border-destructive/20 rounded-md border px-4 py-3 text-sm"
+                >
+                  {t(`sso.${problem}`)}
+                </div>
+                <Button asChild className="w-full">
+                  <Link to="/login" search={{ redirect: request?.redirect }}>
+                    {t('sso.backToSignIn')}
+                  </Link>
+                </Button>
+              </CardContent>
+            </>
+          ) : (
+            <CardHeader>
+              <CardTitle>{t('sso.signingInTitle')}</CardTitle>
+              <CardDescription role="status">
+                {t('sso.signingIn')}
+              </CardDescription>
+            </CardHeader>
+          )}
+        </Card>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,132 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { useRequestPasswordReset } from '@/api/mutations/auth'
+import { hasFieldErrors, setServerErrors } from '@/lib/form-errors'
+import {
+  forgotPasswordSchema,
+  type ForgotPasswordFormData,
+} from '@/lib/validators/auth'
+
+export const Route = createFileRoute('/_public/forgot-password')({
+  component: ForgotPasswordPage,
+})
+
+function ForgotPasswordPage() {
+  const { t } = useTranslation('auth')
+  const requestReset = useRequestPasswordReset()
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: '' },
+  })
+
+  const handleSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await requestReset.mutateAsync(data)
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('passwordReset.requestTitle')} | My Application</title>
+      </Helmet>
+      <div className="container flex min-h-[calc(100vh-4rem)] items-center justify-center">
+        <Card className="w-full max-w-md">
+          {requestReset.isSuccess ? (
+            <CardHeader>
+              <CardTitle>{t('passwordReset.sentTitle')}</CardTitle>
+              <CardDescription role="status">
+                {t('passwordReset.sentDescription', {
+                  email: requestReset.variables.email,
+                })}
+              </CardDescription>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>{t('passwordReset.requestTitle')}</CardTitle>
+                <CardDescription>
+                  {t('passwordReset.requestDescription')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {requestReset.error && !hasFieldErrors(requestReset.error) && (
+                  <div
+                    role="alert"
+                    className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+                  >
+                    {t('passwordReset.requestFailed')}
+                  </div>
+                )}
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit(handleSubmit)}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t('email')}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="email"
+                              placeholder={t('emailPlaceholder')}
+                              autoComplete="email"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={requestReset.isPending}
+                    >
+                      {requestReset.isPending
+                        ? t('passwordReset.sending')
+                        : t('passwordReset.sendLink')}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+          <CardContent>
+            <p className="text-muted-foreground text-center text-sm">
+              <Link to="/login" className="text-primary hover:underline">
+                {t('passwordReset.backToSignIn')}
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
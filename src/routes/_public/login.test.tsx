@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { HelmetProvider } from 'react-helmet-async'
+import { render, screen, waitFor } from '@/test/test-utils'
+import { MFA_MAX_FAILED_ATTEMPTS, MFA_SEED_SECRET } from '@/test/mocks/db'
+import { generateTotp } from '@/test/mocks/totp'
+import { useAuthStore } from '@/stores/authStore'
+
+let currentSearch: { redirect?: string } = {}
+const navigate = vi.fn()
+
+vi.mock('@tanstack/react-router', async (importOriginal) => {
+  const actual = await importOriginal()
+  return {
+    ...(actual as Record<string, unknown>),
+    createFileRoute: () => (options: Record<string, unknown>) => ({
+      ...options,
+      useSearch: () => currentSearch,
+    }),
+    useNavigate: () => navigate,
+    Link: ({ children, to }: { children: React.ReactNode; to: string }) => (
+      <a href={to}>{children}</a>
+    ),
+  }
+})
+
+const { Route } = await import('./login')
+
+// The component is wrapped by lazyRouteComponent — preload it
+const LazyLoginPage = (
+  Route as unknown as {
+    component: React.ComponentType & { preload: () => Promise<void> }
+  }
+).component
+await LazyLoginPage.preload()
+
+// Signs in as the seeded account with two-factor on, up to its code prompt
+async function reachCodePrompt() {
+  currentSearch = {}
+  const view = render(
+    <HelmetProvider>
+      <LazyLoginPage />
+    </HelmetProvider>
+  )
+  await view.user.type(
+    screen.getByLabelText('Email'),
+    'alice.smith3@example.com'
+  )
+  await view.user.type(screen.getByLabelText('Password'), 'password123')
+  await view.user.click(screen.getByRole('button', { name: 'Sign In' }))
+  expect(
+    await screen.findByText('Two-factor authentication')
+  ).toBeInTheDocument()
+  return view
+}
+
+describe('LoginPage', () => {
+  afterEach(() => {
+    useAuthStore.getState().logout()
+    navigate.mockClear()
+  })
+
+  it('asks for the authenticator code and then signs in', async () => {
+    const { user } = await reachCodePrompt()
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+
+    await user.type(
+      screen.getByLabelText('Authentication code'),
+      await generateTotp(MFA_SEED_SECRET)
+    )
+    await user.click(screen.getByRole('button', { name: 'Verify' }))
+
+    await waitFor(() => {
+      expect(navigate).toHaveBeenCalledWith({ to: '/dashboard' })
+    })
+    expect(useAuthStore.getState().user).toMatchObject({ id: '3' })
+  })
+
+  it('sends the user back to their password after too many wrong codes', async () => {
+    const { user } = await reachCodePrompt()
+    const code = screen.getByLabelText('Authentication code')
+
+    for (let attempt = 0; attempt < MFA_MAX_FAILED_ATTEMPTS; attempt++) {
+      await user.clear(code)
+      await user.type(code, '000000')
+      await user.click(screen.getByRole('button', { name: 'Verify' }))
+      await waitFor(() => {
+        expect(screen.getByRole('button', { name: 'Verify' })).toBeEnabled()
+      })
+    }
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'This sign-in attempt has expired. Go back and enter your password again.'
+    )
+    expect(navigate).not.toHaveBeenCalled()
+  })
+})
@@ -1,3 +1,4 @@
+import { useState } from 'react'
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
 import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
@@ -8,25 +9,73 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
 import { LoginForm } from '@/components/forms/LoginForm'
-import { useLogin } from '@/api/mutations/auth'
+import { SsoProviderButtons } from '@/components/features/auth/SsoProviderButtons'
+import {
+  MfaChallengeForm,
+  type MfaChallengeFormData,
+} from '@/components/forms/MfaChallengeForm'
+import { useLogin, useVerifyMfa } from '@/api/mutations/auth'
 import { ApiError } from '@/api/client'
+import { hasFieldErrors, isApiErrorResponse } from '@/lib/form-errors'
+import { authSearchSchema, type LoginFormData } from '@/lib/validators/auth'
 
 export const Route = createFileRoute('/_public/login')({
+  validateSearch: authSearchSchema,
   component: LoginPage,
 })
 
+// The password was accepted and the account wants a second factor
+interface PendingChallenge {
+  challengeToken: string
+  rememberMe: boolean
+}
+
+function isChallengeExpired(error: unknown) {
+  return (
+    error instanceof ApiError &&
+    isApiErrorResponse(error.data) &&
+    error.data.code === 'mfa_challenge_expired'
+  )
+}
+
 function LoginPage() {
   const { t } = useTranslation('auth')
   const navigate = useNavigate()
+  const { redirect } = Route.useSearch()
   const login = useLogin()
+  const verifyMfa = useVerifyMfa()
+  const [challenge, setChallenge] = useState<PendingChallenge | null>(null)
+
+  const finishSignIn = () => {
+    void (redirect
+      ? navigate({ href: redirect })
+      : navigate({ to: '/dashboard' }))
+  }
+
+  const handleSubmit = async (data: LoginFormData) => {
+    const result = await login.mutateAsync(data)
+    if ('challengeToken' in result) {
+      setChallenge({
+        challengeToken: result.challengeToken,
+        rememberMe: data.rememberMe,
+      })
+      return
+    }
+    finishSignIn()
+  }
+
+  const handleVerify = async (data: MfaChallengeFormData) => {
+    if (!challenge) return
+    await verifyMfa.mutateAsync({ ...challenge, ...data })
+    finishSignIn()
+  }
 
-  const handleSubmit = (data: { email: string; password: string }) => {
-    login.mutate(data, {
-      onSuccess: () => {
-        void navigate({ to: '/dashboard' })
-      },
-    })
+  const handleStartOver = () => {
+    setChallenge(null)
+    login.reset()
+    verifyMfa.reset()
   }
 
   function getErrorMessage(error: Error): string {
@@ -48,27 +97,78 @@ function LoginPage() {
       </Helmet>
       <div className="container flex min-h-[calc(100vh-4rem)] items-center justify-center">
         <Card className="w-full max-w-md">
-          <CardHeader>
-            <CardTitle>{t('signIn')}</CardTitle>
-            <CardDescription>{t('emailPlaceholder')}</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {login.error && (
-              <div
-                role="alert"
-                className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
-              >
-                {getErrorMessage(login.error)}
-              </div>
-            )}
-            <LoginForm onSubmit={handleSubmit} isLoading={login.isPending} />
-            <p className="text-muted-foreground mt-4 text-center text-sm">
-              {t('noAccount')}{' '}
-              <Link to="/register" className="text-primary hover:underline">
-                {t('signUp')}
-              </Link>
-            </p>
-          </CardContent>
+          {challenge ? (
+            <>
+              <CardHeader>
+                <CardTitle>{t('mfa.title')}</CardTitle>
+                <CardDescription>{t('mfa.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {verifyMfa.error && !hasFieldErrors(verifyMfa.error) && (
+                  <div
+                    role="alert"
+                    className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+                  >
+                    {isChallengeExpired(verifyMfa.error)
+                      ? t('mfa.expired')
+                      : t('mfa.failed')}
+                  </div>
+                )}
+                <MfaChallengeForm
+                  onSubmit={handleVerify}
+                  isLoading={verifyMfa.isPending}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="mt-2 w-full"
+                  onClick={handleStartOver}
+                >
+                  {t('mfa.startOver')}
+                </Button>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>{t('signIn')}</CardTitle>
+                <CardDescription>{t('emailPlaceholder')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <SsoProviderButtons redirect={redirect} />
+                {login.error && !hasFieldErrors(login.error) && (
+                  <div
+                    role="alert"
+                    className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+                  >
+                    {getErrorMessage(login.error)}
+                  </div>
+                )}
+                <LoginForm
+                  onSubmit={handleSubmit}
+                  isLoading={login.isPending}
+                />
+                <p className="mt-4 text-center text-sm">
+                  <Link
+                    to="/forgot-password"
+                    className="text-primary hover:underline"
+                  >
+                    {t('forgotPassword')}
+                  </Link>
+                </p>
+                <p className="text-muted-foreground mt-4 text-center text-sm">
+                  {t('noAccount')}{' '}
+                  <Link
+                    to="/register"
+                    search={{ redirect }}
+                    className="text-primary hover:underline"
+                  >
+                    {t('signUp')}
+                  </Link>
+                </p>
+              </CardContent>
+            </>
+          )}
         </Card>
       </div>
     </>
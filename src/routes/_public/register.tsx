@@ -14,16 +14,28 @@ import {
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
-import { registerSchema, type RegisterFormData } from '@/lib/validators/auth'
+import { ApiError } from '@/api/client'
+import {
+  authSearchSchema,
+  registerSchema,
+  type RegisterFormData,
+} from '@/lib/validators/auth'
 import { useRegister } from '@/api/mutations/auth'
+import {
+  hasFieldErrors,
+  isApiErrorResponse,
+  setServerErrors,
+} from '@/lib/form-errors'
 
 export const Route = createFileRoute('/_public/register')({
+  validateSearch: authSearchSchema,
   component: RegisterPage,
 })
 
 function RegisterPage() {
   const { t } = useTranslation('auth')
   const navigate = useNavigate()
+  const { redirect } = Route.useSearch()
   const register = useRegister()
 
   const form = useForm<RegisterFormData>({
@@ -37,12 +49,26 @@ function RegisterPage() {
   })
 
   const handleSubmit = async (data: RegisterFormData) => {
-    await register.mutateAsync({
-      name: data.name,
-      email: data.email,
-      password: data.password,
-    })
-    void navigate({ to: '/dashboard' })
+    try {
+      await register.mutateAsync({
+        name: data.name,
+        email: data.email,
+        password: data.password,
+      })
+    } catch (error) {
+      setServerErrors(error, form)
+      return
+    }
+    // The new account can't do much until its email is confirmed, so land on
+    // the check-your-inbox page and carry the original destination along
+    void navigate({ to: '/verify-email', search: { redirect } })
+  }
+
+  function getErrorMessage(error: Error): string {
+    if (error instanceof ApiError && isApiErrorResponse(error.data)) {
+      return error.data.message
+    }
+    return t('registerFailed')
   }
 
   return (
@@ -56,6 +82,14 @@ function RegisterPage() {
             <CardTitle>{t('signUp')}</CardTitle>
           </CardHeader>
           <CardContent>
+            {register.error && !hasFieldErrors(register.error) && (
+              <div
+                role="alert"
+                className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+              >
+                {getErrorMessage(register.error)}
+              </div>
+            )}
             <Form {...form}>
               <form
                 onSubmit={form.handleSubmit(handleSubmit)}
@@ -139,7 +173,11 @@ function RegisterPage() {
             </Form>
             <p className="text-muted-foreground mt-4 text-center text-sm">
               {t('hasAccount')}{' '}
-              <Link to="/login" className="text-primary hover:underline">
+              <Link
+                to="/login"
+                search={{ redirect }}
+                className="text-primary hover:underline"
+              >
                 {t('signIn')}
               </Link>
             </p>
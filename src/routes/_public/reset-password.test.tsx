@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+import { HelmetProvider } from 'react-helmet-async'
+import { axe } from 'vitest-axe'
+import { render, screen } from '@/test/test-utils'
+import { EXPIRED_RESET_TOKEN, USED_RESET_TOKEN, db } from '@/test/mocks/db'
+
+let currentToken = ''
+
+vi.mock('@tanstack/react-router', async (importOriginal) => {
+  const actual = await importOriginal()
+  return {
+    ...(actual as Record<string, unknown>),
+    createFileRoute: () => (options: Record<string, unknown>) => ({
+      ...options,
+      useSearch: () => ({ token: currentToken }),
+    }),
+    Link: ({ children, to }: { children: React.ReactNode; to: string }) => (
+      <a href={to}>{children}</a>
+    ),
+  }
+})
+
+const { Route } = await import('./reset-password')
+
+// The component is wrapped by lazyRouteComponent — preload it
+const LazyResetPasswordPage = (
+  Route as unknown as {
+    component: React.ComponentType & { preload: () => Promise<void> }
+  }
+).component
+await LazyResetPasswordPage.preload()
+
+function renderPage(token: string) {
+  currentToken = token
+  return render(
+    <HelmetProvider>
+      <LazyResetPasswordPage />
+    </HelmetProvider>
+  )
+}
+
+function issueToken() {
+  db.passwordResets.set('fresh-token', {
+    userId: '1',
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    usedAt: null,
+  })
+  return 'fresh-token'
+}
+
+describe('ResetPasswordPage', () => {
+  it('sets the new password and points to sign in', async () => {
+    const { user } = renderPage(issueToken())
+
+    await user.type(screen.getByLabelText('New password'), 'Sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'Sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Reset password' }))
+
+    expect(await screen.findByText('Password updated')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Sign In' })).toHaveAttribute(
+      'href',
+      '/login'
+    )
+    expect(db.passwords.get('1')).toBe('Sunshine42')
+  })
+
+  it('applies the sign-up password rules', async () => {
+    const { user } = renderPage(issueToken())
+
+    await user.type(screen.getByLabelText('New password'), 'sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Reset password' }))
+
+    expect(
+      await screen.findByText('Password must contain an uppercase letter')
+    ).toBeInTheDocument()
+  })
+
+  it.each([
+    [EXPIRED_RESET_TOKEN, 'This reset link has expired.'],
+    [USED_RESET_TOKEN, 'This reset link has already been used.'],
+    ['not-a-token', 'This reset link is invalid.'],
+  ])('explains why %s no longer works', async (token, message) => {
+    const { user } = renderPage(token)
+
+    await user.type(screen.getByLabelText('New password'), 'Sunshine42')
+    await user.type(screen.getByLabelText('Confirm new password'), 'Sunshine42')
+    await user.click(screen.getByRole('button', { name: 'Reset password' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(message)
+    expect(
+      screen.getByRole('link', { name: 'Request a new link' })
+    ).toHaveAttribute('href', '/forgot-password')
+    expect(
+      screen.queryByRole('button', { name: 'Reset password' })
+    ).not.toBeInTheDocument()
+  })
+
+  it('skips the form when the link has no token', async () => {
+    const { container } = renderPage('')
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'This reset link is invalid.'
+    )
+    expect(await axe(container)).toHaveNoViolations()
+  })
+})
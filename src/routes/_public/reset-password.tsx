@@ -0,0 +1,194 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { ApiError } from '@/api/client'
+import { useResetPassword } from '@/api/mutations/auth'
+import {
+  hasFieldErrors,
+  isApiErrorResponse,
+  setServerErrors,
+} from '@/lib/form-errors'
+import {
+  resetPasswordSchema,
+  resetPasswordSearchSchema,
+  type ResetPasswordFormData,
+} from '@/lib/validators/auth'
+
+export const Route = createFileRoute('/_public/reset-password')({
+  validateSearch: resetPasswordSearchSchema,
+  component: ResetPasswordPage,
+})
+
+type TokenProblem = 'expired' | 'used' | 'invalid'
+
+const TOKEN_PROBLEMS: Record<string, TokenProblem> = {
+  reset_token_expired: 'expired',
+  reset_token_used: 'used',
+  reset_token_invalid: 'invalid',
+}
+
+// Errors that mean the link itself is dead, as opposed to ones the user can
+// fix by submitting again
+function getTokenProblem(error: unknown): TokenProblem | undefined {
+  if (!(error instanceof ApiError) || !isApiErrorResponse(error.data)) {
+    return undefined
+  }
+  return error.data.code ? TOKEN_PROBLEMS[error.data.code] : undefined
+}
+
+function ResetPasswordPage() {
+  const { t } = useTranslation('auth')
+  const { token } = Route.useSearch()
+  const resetPassword = useResetPassword()
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  })
+
+  const handleSubmit = async (data: ResetPasswordFormData) => {
+    try {
+      await resetPassword.mutateAsync({ token, password: data.password })
+    } catch (error) {
+      setServerErrors(error, form)
+    }
+  }
+
+  const tokenProblem = token ? getTokenProblem(resetPassword.error) : 'invalid'
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('passwordReset.title')} | My Application</title>
+      </Helmet>
+      <div className="container flex min-h-[calc(100vh-4rem)] items-center justify-center">
+        <Card className="w-full max-w-md">
+          {resetPassword.isSuccess ? (
+            <>
+              <CardHeader>
+                <CardTitle>{t('passwordReset.successTitle')}</CardTitle>
+                <CardDescription role="status">
+                  {t('passwordReset.successDescription')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Button asChild className="w-full">
+                  <Link to="/login">{t('signIn')}</Link>
+                </Button>
+              </CardContent>
+            </>
+          ) : tokenProblem ? (
+            <>
+              <CardHeader>
+                <CardTitle>{t('passwordReset.title')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div
+                  role="alert"
+                  className="bg-destructive/10 text-destructive border-destructive/20 rounded-md border px-4 py-3 text-sm"
+                >
+                  {t(`passwordReset.${tokenProblem}`)}
+                </div>
+                <Button asChild className="w-full">
+                  <Link to="/forgot-password">
+                    {t('passwordReset.requestNew')}
+                  </Link>
+                </Button>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>{t('passwordReset.title')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {resetPassword.error &&
+                  !hasFieldErrors(resetPassword.error) && (
+                    <div
+                      role="alert"
+                      className="bg-destructive/10 text-destructive border-destructive/20 mb-4 rounded-md border px-4 py-3 text-sm"
+                    >
+                      {t('passwordReset.failed')}
+                    </div>
+                  )}
+                <Form {...form}>
+                  <form
+                    onSubmit={form.handleSubmit(handleSubmit)}
+                    className="space-y-4"
+                  >
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {t('passwordReset.newPassword')}
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            {t('passwordReset.confirmPassword')}
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={resetPassword.isPending}
+                    >
+                      {resetPassword.isPending
+                        ? t('passwordReset.submitting')
+                        : t('passwordReset.submit')}
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </>
+  )
+}
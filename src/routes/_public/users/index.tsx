@@ -1,16 +1,37 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useSuspenseQuery } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
 import { Helmet } from 'react-helmet-async'
 import { usersQueryOptions } from '@/api/queries/users'
+import { userListSearchSchema } from '@/lib/validators/user'
+import type { UserListParams } from '@/types'
+
+const PAGE_SIZE = 20
+
+const directoryParams = (page: number): UserListParams => ({
+  page,
+  pageSize: PAGE_SIZE,
+  sort: 'name',
+  order: 'asc',
+})
 
 export const Route = createFileRoute('/_public/users/')({
-  loader: ({ context }) =>
-    context.queryClient.ensureQueryData(usersQueryOptions),
+  validateSearch: userListSearchSchema.pick({ page: true }),
+  loaderDeps: ({ search }) => ({ page: search.page }),
+  loader: ({ context, deps }) =>
+    context.queryClient.ensureQueryData(
+      usersQueryOptions(directoryParams(deps.page))
+    ),
   component: UsersPage,
 })
 
 function UsersPage() {
-  const { data: users } = useSuspenseQuery(usersQueryOptions)
+  const { t } = useTranslation('users')
+  const { page } = Route.useSearch()
+  const {
+    data: { data: users, total },
+  } = useSuspenseQuery(usersQueryOptions(directoryParams(page)))
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE))
 
   return (
     <>
@@ -33,6 +54,33 @@ function UsersPage() {
             </div>
           ))}
         </div>
+        <nav className="mt-6 flex items-center justify-between text-sm">
+          {page > 1 ? (
+            <Link
+              to="/users"
+              search={{ page: page - 1 }}
+              className="text-primary hover:underline"
+            >
+              {t('pagination.previous')}
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-muted-foreground">
+            {t('pagination.pageOf', { page, pageCount })}
+          </span>
+          {page < pageCount ? (
+            <Link
+              to="/users"
+              search={{ page: page + 1 }}
+              className="text-primary hover:underline"
+            >
+              {t('pagination.next')}
+            </Link>
+          ) : (
+            <span />
+          )}
+        </nav>
       </div>
     </>
   )
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { HelmetProvider } from 'react-helmet-async'
+import { axe } from 'vitest-axe'
+import { render, screen } from '@/test/test-utils'
+import { EXPIRED_VERIFICATION_TOKEN, db } from '@/test/mocks/db'
+import { useAuthStore } from '@/stores/authStore'
+
+let currentSearch: { token?: string; redirect?: string } = {}
+const navigate = vi.fn()
+
+vi.mock('@tanstack/react-router', async (importOriginal) => {
+  const actual = await importOriginal()
+  return {
+    ...(actual as Record<string, unknown>),
+    createFileRoute: () => (options: Record<string, unknown>) => ({
+      ...options,
+      useSearch: () => currentSearch,
+    }),
+    useNavigate: () => navigate,
+    Link: ({ children, to }: { children: React.ReactNode; to: string }) => (
+      <a href={to}>{children}</a>
+    ),
+  }
+})
+
+const { Route } = await import('./verify-email')
+
+// The component is wrapped by lazyRouteComponent — preload it
+const LazyVerifyEmailPage = (
+  Route as unknown as {
+    component: React.ComponentType & { preload: () => Promise<void> }
+  }
+).component
+await LazyVerifyEmailPage.preload()
+
+function renderPage(search: typeof currentSearch) {
+  currentSearch = search
+  return render(
+    <HelmetProvider>
+      <LazyVerifyEmailPage />
+    </HelmetProvider>
+  )
+}
+
+// A freshly registered account, signed in on this browser
+function signInUnverified() {
+  db.unverifiedUsers.add('2')
+  useAuthStore.getState().setAuth('mock-jwt-token.2', {
+    id: '2',
+    name: 'Jane Doe',
+    email: 'jane@example.com',
+    role: 'user',
+    verified: false,
+  })
+}
+
+describe('VerifyEmailPage', () => {
+  afterEach(() => {
+    useAuthStore.getState().logout()
+    navigate.mockClear()
+  })
+
+  it('verifies the link on arrival and marks the signed-in user verified', async () => {
+    signInUnverified()
+    db.emailVerifications.set('fresh-link', {
+      userId: '2',
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    })
+    const { user } = renderPage({ token: 'fresh-link', redirect: '/posts' })
+
+    expect(await screen.findByText('Email verified')).toBeInTheDocument()
+    expect(useAuthStore.getState().user?.verified).toBe(true)
+    expect(db.unverifiedUsers.has('2')).toBe(false)
+
+    await user.click(screen.getByRole('button', { name: 'Continue' }))
+    expect(navigate).toHaveBeenCalledWith({ href: '/posts' })
+  })
+
+  it('explains an expired link and offers a new one', async () => {
+    signInUnverified()
+    renderPage({ token: EXPIRED_VERIFICATION_TOKEN })
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'This verification link has expired.'
+    )
+    expect(
+      screen.getByRole('button', { name: 'Resend email' })
+    ).toBeInTheDocument()
+  })
+
+  it('asks a signed-out visitor without a token to sign in', async () => {
+    const { container } = renderPage({})
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'This verification link is invalid.'
+    )
+    expect(
+      screen.getByRole('link', { name: 'Sign in to get a new link' })
+    ).toHaveAttribute('href', '/login')
+    expect(await axe(container)).toHaveNoViolations()
+  })
+
+  it('tells users sent here by a guarded page why', () => {
+    signInUnverified()
+    renderPage({ redirect: '/settings/security' })
+
+    expect(screen.getByText('Check your inbox')).toBeInTheDocument()
+    expect(
+      screen.getByText(/Verify your email address to use this page\./)
+    ).toHaveTextContent('We sent a link to jane@example.com.')
+  })
+})
@@ -0,0 +1,156 @@
+import { useEffect, useRef } from 'react'
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useTranslation } from 'react-i18next'
+import { Helmet } from 'react-helmet-async'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ResendVerificationButton } from '@/components/features/auth/ResendVerificationButton'
+import { ApiError } from '@/api/client'
+import { useVerifyEmail } from '@/api/mutations/auth'
+import { isApiErrorResponse } from '@/lib/form-errors'
+import { verifyEmailSearchSchema } from '@/lib/validators/auth'
+import { useAuthStore } from '@/stores/authStore'
+
+export const Route = createFileRoute('/_public/verify-email')({
+  validateSearch: verifyEmailSearchSchema,
+  component: VerifyEmailPage,
+})
+
+type TokenProblem = 'expired' | 'invalid' | 'failed'
+
+const TOKEN_PROBLEMS: Record<string, TokenProblem> = {
+  verification_token_expired: 'expired',
+  verification_token_invalid: 'invalid',
+}
+
+function getTokenProblem(error: unknown): TokenProblem {
+  if (!(error instanceof ApiError) || !isApiErrorResponse(error.data)) {
+    return 'failed'
+  }
+  const problem = error.data.code ? TOKEN_PROBLEMS[error.data.code] : undefined
+  return problem ?? 'failed'
+}
+
+function VerifyEmailPage() {
+  const { t } = useTranslation('auth')
+  const navigate = useNavigate()
+  const { token, redirect } = Route.useSearch()
+  const user = useAuthStore((s) => s.user)
+  const verifyEmail = useVerifyEmail()
+  const { mutate: verify } = verifyEmail
+  // Opening the link is the confirmation, so it's sent straight away. The
+  // ref stops Strict Mode's second effect run from sending it twice.
+  const sentToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token || sentToken.current === token) return
+    sentToken.current = token
+    verify({ token })
+  }, [token, verify])
+
+  const handleContinue = () => {
+    void (redirect
+      ? navigate({ href: redirect })
+      : navigate({ to: '/dashboard' }))
+  }
+
+  const continueAction = user ? (
+    <Button className="w-full" onClick={handleContinue}>
+      {t('emailVerification.continue')}
+    </Button>
+  ) : (
+    <Button asChild className="w-full">
+      <Link to="/login">{t('signIn')}</Link>
+    </Button>
+  )
+
+  const renderContent = () => {
+    if (verifyEmail.isSuccess || (!token && user?.verified)) {
+      return (
+        <>
+          <CardHeader>
+            <CardTitle>{t('emailVerification.verifiedTitle')}</CardTitle>
+            <CardDescription role="status">
+              {t('emailVerification.verifiedDescription')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>{continueAction}</CardContent>
+        </>
+      )
+    }
+
+    if (token && !verifyEmail.isError) {
+      return (
+        <CardHeader>
+          <CardTitle>{t('emailVerification.verifyingTitle')}</CardTitle>
+          <CardDescription role="status">
+            {t('emailVerification.verifying')}
+          </CardDescription>
+        </CardHeader>
+      )
+    }
+
+    // No link to check, but a signed-in account still waiting on one
+    if (!token && user) {
+      return (
+        <>
+          <CardHeader>
+            <CardTitle>{t('emailVerification.pendingTitle')}</CardTitle>
+            <CardDescription>
+              {redirect && `${t('emailVerification.required')} `}
+              {t('emailVerification.pendingDescription', {
+                email: user.email,
+              })}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResendVerificationButton className="w-full" />
+          </CardContent>
+        </>
+      )
+    }
+
+    const problem = token ? getTokenProblem(verifyEmail.error) : 'invalid'
+    return (
+      <>
+        <CardHeader>
+          <CardTitle>{t('emailVerification.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div
+            role="alert"
+            className="bg-destructive/10 text-destructive border-destructive/20 rounded-md border px-4 py-3 text-sm"
+          >
+            {t(`emailVerification.${problem}`)}
+          </div>
+          {user && !user.verified ? (
+            <ResendVerificationButton className="w-full" />
+          ) : user ? (
+            continueAction
+          ) : (
+            <Button asChild className="w-full">
+              <Link to="/login">{t('emailVerification.signInForNewLink')}</Link>
+            </Button>
+          )}
+        </CardContent>
+      </>
+    )
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{t('emailVerification.title')} | My Application</title>
+      </Helmet>
+      <div className="container flex min-h-[calc(100vh-4rem)] items-center justify-center">
+        <Card className="w-full max-w-md">{renderContent()}</Card>
+      </div>
+    </>
+  )
+}
@@ -1,26 +1,60 @@
 import { create } from 'zustand'
-import { devtools, persist } from 'zustand/middleware'
+import {
+  devtools,
+  persist,
+  type PersistStorage,
+  type StorageValue,
+} from 'zustand/middleware'
+import type { Role } from '@/types'
 
 interface User {
   id: string
   name: string
   email: string
+  role: Role
+  verified: boolean
 }
 
 interface AuthState {
   token: string | null
   user: User | null
   isAuthenticated: boolean
+  rememberMe: boolean
 }
 
 interface AuthActions {
-  setAuth: (token: string, user: User) => void
+  setAuth: (token: string, user: User, rememberMe?: boolean) => void
+  setToken: (token: string) => void
   logout: () => void
   updateUser: (user: Partial<User>) => void
 }
 
 type AuthStore = AuthState & AuthActions
 
+type PersistedAuthState = Pick<AuthState, 'user' | 'rememberMe'>
+
+// Remembered sessions persist in localStorage; everything else is scoped to
+// the tab via sessionStorage and disappears when it closes
+const authStorage: PersistStorage<PersistedAuthState> = {
+  getItem: (name) => {
+    const value = localStorage.getItem(name) ?? sessionStorage.getItem(name)
+    return value
+      ? (JSON.parse(value) as StorageValue<PersistedAuthState>)
+      : null
+  },
+  setItem: (name, value) => {
+    const [target, other] = value.state.rememberMe
+      ? [localStorage, sessionStorage]
+      : [sessionStorage, localStorage]
+    target.setItem(name, JSON.stringify(value))
+    other.removeItem(name)
+  },
+  removeItem: (name) => {
+    localStorage.removeItem(name)
+    sessionStorage.removeItem(name)
+  },
+}
+
 // NOTE: Only store token in memory for security
 // The refresh token should be in an HttpOnly cookie
 export const useAuthStore = create<AuthStore>()(
@@ -30,13 +64,32 @@ export const useAuthStore = create<AuthStore>()(
         token: null,
         user: null,
         isAuthenticated: false,
+        rememberMe: false,
+
+        // rememberMe is omitted when restoring a session, keeping whatever
+        // the user chose at sign in
+        setAuth: (token, user, rememberMe) =>
+          set(
+            (state) => ({
+              token,
+              user,
+              isAuthenticated: true,
+              rememberMe: rememberMe ?? state.rememberMe,
+            }),
+            false,
+            'auth/setAuth'
+          ),
 
-        setAuth: (token, user) =>
-          set({ token, user, isAuthenticated: true }, false, 'auth/setAuth'),
+        setToken: (token) => set({ token }, false, 'auth/setToken'),
 
         logout: () =>
           set(
-            { token: null, user: null, isAuthenticated: false },
+            {
+              token: null,
+              user: null,
+              isAuthenticated: false,
+              rememberMe: false,
+            },
             false,
             'auth/logout'
           ),
@@ -52,8 +105,12 @@ export const useAuthStore = create<AuthStore>()(
       }),
       {
         name: 'auth-storage',
+        storage: authStorage,
         // Only persist user, not token (for security)
-        partialize: (state) => ({ user: state.user }),
+        partialize: (state) => ({
+          user: state.user,
+          rememberMe: state.rememberMe,
+        }),
       }
     ),
     { name: 'AuthStore' }
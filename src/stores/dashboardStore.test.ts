@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_LAYOUT,
+  selectLayout,
+  useDashboardStore,
+} from './dashboardStore'
+
+const layoutOf = (userId: string) =>
+  selectLayout(userId)(useDashboardStore.getState())
+
+describe('dashboardStore', () => {
+  beforeEach(() => {
+    useDashboardStore.setState({ layouts: {} })
+  })
+
+  it('starts from the default layout', () => {
+    expect(layoutOf('1')).toEqual(DEFAULT_LAYOUT)
+  })
+
+  it('keeps a separate layout per user', () => {
+    useDashboardStore.getState().removeWidget('1', 'activity')
+
+    expect(layoutOf('1').map((w) => w.type)).not.toContain('activity')
+    expect(layoutOf('2')).toEqual(DEFAULT_LAYOUT)
+  })
+
+  it('reorders within bounds', () => {
+    const { moveWidget } = useDashboardStore.getState()
+    moveWidget('1', 'totalPosts', -1)
+    moveWidget('1', 'totalPosts', -1)
+
+    expect(
+      layoutOf('1')
+        .map((w) => w.type)
+        .slice(0, 2)
+    ).toEqual(['totalPosts', 'totalUsers'])
+  })
+
+  it('adds each widget type once and resizes it', () => {
+    const { removeWidget, addWidget, resizeWidget } =
+      useDashboardStore.getState()
+    removeWidget('1', 'metrics')
+    addWidget('1', 'metrics')
+    addWidget('1', 'metrics')
+    resizeWidget('1', 'metrics', 'medium')
+
+    const metrics = layoutOf('1').filter((w) => w.type === 'metrics')
+    expect(metrics).toEqual([{ type: 'metrics', size: 'medium' }])
+    expect(layoutOf('1')[layoutOf('1').length - 1]?.type).toBe('metrics')
+  })
+
+  it('resets to the default layout', () => {
+    const { removeWidget, resetLayout } = useDashboardStore.getState()
+    removeWidget('1', 'quickLinks')
+    resetLayout('1')
+
+    expect(useDashboardStore.getState().layouts['1']).toBeUndefined()
+    expect(layoutOf('1')).toEqual(DEFAULT_LAYOUT)
+  })
+
+  it('ignores unknown widget types from the server', () => {
+    useDashboardStore.getState().setLayout('1', [
+      { type: 'activity', size: 'large' },
+      // @ts-expect-error a widget this build doesn't know about
+      { type: 'weather', size: 'small' },
+    ])
+
+    expect(layoutOf('1')).toEqual([{ type: 'activity', size: 'large' }])
+  })
+})
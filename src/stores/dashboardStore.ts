@@ -0,0 +1,145 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { DashboardWidget, WidgetSize, WidgetType } from '@/types'
+
+export const WIDGET_TYPES: readonly WidgetType[] = [
+  'totalUsers',
+  'totalPosts',
+  'quickLinks',
+  'metrics',
+  'activity',
+]
+
+export const DEFAULT_LAYOUT: readonly DashboardWidget[] = [
+  { type: 'totalUsers', size: 'small' },
+  { type: 'totalPosts', size: 'small' },
+  { type: 'quickLinks', size: 'small' },
+  { type: 'metrics', size: 'large' },
+  { type: 'activity', size: 'large' },
+]
+
+interface DashboardState {
+  // Keyed by user id so people sharing a browser keep their own layouts. A
+  // missing entry means the default layout.
+  layouts: Partial<Record<string, DashboardWidget[]>>
+}
+
+interface DashboardActions {
+  addWidget: (userId: string, type: WidgetType) => void
+  removeWidget: (userId: string, type: WidgetType) => void
+  moveWidget: (userId: string, type: WidgetType, offset: -1 | 1) => void
+  resizeWidget: (userId: string, type: WidgetType, size: WidgetSize) => void
+  setLayout: (userId: string, widgets: DashboardWidget[] | null) => void
+  resetLayout: (userId: string) => void
+}
+
+type DashboardStore = DashboardState & DashboardActions
+
+export function selectLayout(userId: string | undefined) {
+  return (state: DashboardState): readonly DashboardWidget[] =>
+    (userId ? state.layouts[userId] : undefined) ?? DEFAULT_LAYOUT
+}
+
+function withLayout(
+  state: DashboardState,
+  userId: string,
+  update: (widgets: DashboardWidget[]) => DashboardWidget[]
+): DashboardState {
+  const current = state.layouts[userId] ?? [...DEFAULT_LAYOUT]
+  return { layouts: { ...state.layouts, [userId]: update(current) } }
+}
+
+function withoutLayout(state: DashboardState, userId: string) {
+  const { [userId]: _removed, ...layouts } = state.layouts
+  return { layouts }
+}
+
+export const useDashboardStore = create<DashboardStore>()(
+  devtools(
+    persist(
+      (set) => ({
+        layouts: {},
+
+        addWidget: (userId, type) => {
+          set(
+            (state) =>
+              withLayout(state, userId, (widgets) =>
+                widgets.some((widget) => widget.type === type)
+                  ? widgets
+                  : [...widgets, { type, size: 'small' }]
+              ),
+            false,
+            'dashboard/addWidget'
+          )
+        },
+
+        removeWidget: (userId, type) => {
+          set(
+            (state) =>
+              withLayout(state, userId, (widgets) =>
+                widgets.filter((widget) => widget.type !== type)
+              ),
+            false,
+            'dashboard/removeWidget'
+          )
+        },
+
+        moveWidget: (userId, type, offset) => {
+          set(
+            (state) =>
+              withLayout(state, userId, (widgets) => {
+                const from = widgets.findIndex((widget) => widget.type === type)
+                const to = from + offset
+                const widget = widgets[from]
+                if (!widget || to < 0 || to >= widgets.length) return widgets
+                const next = widgets.filter((_, i) => i !== from)
+                next.splice(to, 0, widget)
+                return next
+              }),
+            false,
+            'dashboard/moveWidget'
+          )
+        },
+
+        resizeWidget: (userId, type, size) => {
+          set(
+            (state) =>
+              withLayout(state, userId, (widgets) =>
+                widgets.map((widget) =>
+                  widget.type === type ? { ...widget, size } : widget
+                )
+              ),
+            false,
+            'dashboard/resizeWidget'
+          )
+        },
+
+        // Layouts from the server; null means the user never customized
+        setLayout: (userId, widgets) => {
+          set(
+            (state) =>
+              widgets
+                ? withLayout(state, userId, () =>
+                    widgets.filter((widget) =>
+                      WIDGET_TYPES.includes(widget.type)
+                    )
+                  )
+                : withoutLayout(state, userId),
+            false,
+            'dashboard/setLayout'
+          )
+        },
+
+        resetLayout: (userId) => {
+          set(
+            (state) => withoutLayout(state, userId),
+            false,
+            'dashboard/resetLayout'
+          )
+        },
+      }),
+      { name: 'dashboard-layout' }
+    ),
+    { name: 'DashboardStore' }
+  )
+)
@@ -0,0 +1,68 @@
+import { create } from 'zustand'
+import { devtools } from 'zustand/middleware'
+
+export type ToastVariant = 'default' | 'success' | 'error'
+
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
+export interface Toast {
+  id: string
+  variant: ToastVariant
+  title: string
+  description?: string
+  // Time on screen in milliseconds; Infinity keeps it until dismissed
+  duration: number
+  action?: ToastAction
+}
+
+interface ToastState {
+  toasts: Toast[]
+}
+
+interface ToastActions {
+  addToast: (toast: Omit<Toast, 'id'>) => string
+  dismissToast: (id: string) => void
+  clearToasts: () => void
+}
+
+type ToastStore = ToastState & ToastActions
+
+let nextToastId = 0
+
+// Not persisted: notifications only make sense for the page that raised them
+export const useToastStore = create<ToastStore>()(
+  devtools(
+    (set) => ({
+      toasts: [],
+
+      addToast: (toast) => {
+        nextToastId += 1
+        const id = `toast-${String(nextToastId)}`
+        set(
+          (state) => ({ toasts: [...state.toasts, { ...toast, id }] }),
+          false,
+          'toast/addToast'
+        )
+        return id
+      },
+
+      dismissToast: (id) => {
+        set(
+          (state) => ({
+            toasts: state.toasts.filter((toast) => toast.id !== id),
+          }),
+          false,
+          'toast/dismissToast'
+        )
+      },
+
+      clearToasts: () => {
+        set({ toasts: [] }, false, 'toast/clearToasts')
+      },
+    }),
+    { name: 'ToastStore' }
+  )
+)
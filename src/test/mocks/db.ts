@@ -0,0 +1,632 @@
+import type {
+  ActiveSession,
+  Activity,
+  ActivityType,
+  LoginHistoryEntry,
+  Post,
+  User,
+  UserPreferences,
+} from '@/types'
+
+// The in-memory database behind the mock API. Handlers read and write these
+// tables so changes show up on the next request, the way a real backend
+// would behave. Every table is rebuilt from the same deterministic seed by
+// resetDb(), which the test setup calls after each test.
+
+export const SEED_PASSWORD = 'password123'
+
+const FIRST_NAMES = [
+  'Alice',
+  'Bob',
+  'Carmen',
+  'David',
+  'Elena',
+  'Farid',
+  'Grace',
+  'Hiro',
+  'Ines',
+  'Jamal',
+  'Kate',
+  'Luis',
+]
+const LAST_NAMES = [
+  'Smith',
+  'Garcia',
+  'Nguyen',
+  'Okafor',
+  'Rossi',
+  'Schmidt',
+  'Tanaka',
+  'Walsh',
+]
+
+const POST_TOPICS = [
+  'Notes on caching',
+  'Why we write tests first',
+  'A week with the new router',
+  'Designing for dark mode',
+  'Keyboard shortcuts I use daily',
+  'Lessons from a failed launch',
+]
+
+const ACTIVITY_DESCRIPTIONS: Record<ActivityType, string> = {
+  user_registered: 'New user registered',
+  user_updated: 'User profile updated',
+  user_deleted: 'User removed',
+  post_created: 'New post published',
+}
+const ACTIVITY_CYCLE: ActivityType[] = [
+  'user_registered',
+  'post_created',
+  'post_created',
+  'user_updated',
+  'user_registered',
+  'user_deleted',
+]
+
+// User 1 is the account the login form's hint points at. The default of 55
+// more is enough to span several pages of the admin table.
+export function createSeedUsers(count = 55): User[] {
+  return [
+    {
+      id: '1',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'admin',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    },
+    {
+      id: '2',
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      role: 'user',
+      createdAt: '2025-01-15T00:00:00.000Z',
+      updatedAt: '2025-01-15T00:00:00.000Z',
+    },
+    ...Array.from({ length: count }, (_, i): User => {
+      const first = FIRST_NAMES[i % FIRST_NAMES.length] ?? 'User'
+      const last = LAST_NAMES[(i * 5) % LAST_NAMES.length] ?? String(i)
+      // Signups spread over the 55 days from February 1st
+      const day = 1 + Math.floor((i * 55) / count)
+      const createdAt = new Date(Date.UTC(2025, 1, day)).toISOString()
+      return {
+        id: String(i + 3),
+        name: `${first} ${last}`,
+        email: `${first}.${last}${String(i + 3)}@example.com`.toLowerCase(),
+        role: i % 9 === 0 ? 'admin' : 'user',
+        createdAt,
+        updatedAt: createdAt,
+      }
+    }),
+  ]
+}
+
+// The first two accounts get a couple each; the rest, shared between
+// `authorCount` generated users, fill out a few pages of the global feed
+export function createSeedPosts(count = 24, authorCount = 12): Post[] {
+  return [
+    {
+      id: '1',
+      title: 'First Post',
+      content: 'This is the first post content.',
+      authorId: '1',
+      createdAt: '2025-02-01T00:00:00.000Z',
+      updatedAt: '2025-02-01T00:00:00.000Z',
+    },
+    {
+      id: '2',
+      title: 'Second Post',
+      content: 'This is the second post content.',
+      authorId: '1',
+      createdAt: '2025-02-10T00:00:00.000Z',
+      updatedAt: '2025-02-10T00:00:00.000Z',
+    },
+    {
+      id: '3',
+      title: 'Hello from Jane',
+      content: 'Just getting started here.',
+      authorId: '2',
+      createdAt: '2025-02-12T00:00:00.000Z',
+      updatedAt: '2025-02-12T00:00:00.000Z',
+    },
+    ...Array.from({ length: count }, (_, i): Post => {
+      const topic = POST_TOPICS[i % POST_TOPICS.length] ?? 'Untitled'
+      const part = Math.floor(i / POST_TOPICS.length) + 1
+      // Spread over the 96 days from March 1st
+      const day = 1 + Math.floor((i * 96) / count)
+      const createdAt = new Date(Date.UTC(2025, 2, day)).toISOString()
+      return {
+        id: String(i + 4),
+        title: `${topic} (part ${String(part)})`,
+        content: `Some thoughts on **${topic.toLowerCase()}**.`,
+        authorId: String((i % authorCount) + 3),
+        createdAt,
+        updatedAt: createdAt,
+      }
+    }),
+  ]
+}
+
+// A few weeks of history at a steady pace, newest first, so the feed shows
+// a spread of relative times and several pages of "load more"
+export function createSeedActivity(users: User[], count = 48): Activity[] {
+  return Array.from({ length: count }, (_, i) => {
+    const type = ACTIVITY_CYCLE[i % ACTIVITY_CYCLE.length] ?? 'user_registered'
+    const user = users[i % users.length]
+    return {
+      id: `activity-${String(i + 1)}`,
+      type,
+      description: ACTIVITY_DESCRIPTIONS[type],
+      createdAt: new Date(Date.now() - i * i * 11 * 60 * 1000).toISOString(),
+      userId: user?.id,
+      userName: user?.name,
+      ...(type === 'post_created'
+        ? { postTitle: `Post #${String(i + 1)}` }
+        : {}),
+    }
+  })
+}
+
+// Whether a session is the caller's depends on the request, so it isn't
+// stored
+export type StoredSession = Omit<ActiveSession, 'current'> & { userId: string }
+export type LoginRecord = LoginHistoryEntry & { userId: string }
+
+const HOUR_MS = 60 * 60 * 1000
+
+// User 1 is also signed in on a phone and an old laptop, so the security
+// page has other sessions to sign out
+function createSeedSessions(): StoredSession[] {
+  const now = Date.now()
+  return [
+    {
+      id: 'session-1',
+      userId: '1',
+      device: 'Safari on iOS',
+      ipAddress: '203.0.113.24',
+      location: 'Lisbon, Portugal',
+      createdAt: new Date(now - 72 * HOUR_MS).toISOString(),
+      lastActiveAt: new Date(now - 2 * HOUR_MS).toISOString(),
+    },
+    {
+      id: 'session-2',
+      userId: '1',
+      device: 'Firefox on Windows',
+      ipAddress: '198.51.100.7',
+      location: 'Madrid, Spain',
+      createdAt: new Date(now - 12 * 24 * HOUR_MS).toISOString(),
+      lastActiveAt: new Date(now - 30 * HOUR_MS).toISOString(),
+    },
+  ]
+}
+
+function createSeedLoginHistory(): LoginRecord[] {
+  const now = Date.now()
+  const attempts: [number, string, string, string, boolean][] = [
+    [2, 'Safari on iOS', '203.0.113.24', 'Lisbon, Portugal', true],
+    [26, 'Chrome on Linux', '192.0.2.140', 'Unknown', false],
+    [72, 'Safari on iOS', '203.0.113.24', 'Lisbon, Portugal', true],
+    [12 * 24, 'Firefox on Windows', '198.51.100.7', 'Madrid, Spain', true],
+    [20 * 24, 'Chrome on macOS', '198.51.100.52', 'Porto, Portugal', true],
+  ]
+  return attempts.map(
+    ([hoursAgo, device, ipAddress, location, success], i) => ({
+      id: `login-${String(i + 1)}`,
+      userId: '1',
+      createdAt: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+      device,
+      ipAddress,
+      location: location === 'Unknown' ? null : location,
+      success,
+    })
+  )
+}
+
+export const SESSIONS_STORAGE_KEY = 'mock-sessions'
+
+// A list of rows with just enough of a query API for the handlers. New rows
+// go to the front, so tables without their own sort read newest first.
+//
+// A table with a storage key keeps its rows in localStorage. `reset()` then
+// goes back to the stored rows rather than the seed, so they survive the
+// reseed on every `pnpm dev:mock` page load; `forget()` drops them.
+function createTable<T extends { id: string }>(
+  seed: () => T[],
+  formatId: (n: number) => string = String,
+  storageKey?: string
+) {
+  const load = () => {
+    const stored = storageKey ? localStorage.getItem(storageKey) : null
+    if (stored) return JSON.parse(stored) as { rows: T[]; lastId: number }
+    const seeded = seed()
+    return { rows: seeded, lastId: seeded.length }
+  }
+  const save = () => {
+    if (storageKey) {
+      localStorage.setItem(storageKey, JSON.stringify({ rows, lastId }))
+    }
+  }
+  let { rows, lastId } = load()
+
+  return {
+    all: () => rows,
+    find: (id: string) => rows.find((row) => row.id === id),
+    where: (predicate: (row: T) => boolean) => rows.filter(predicate),
+    count: () => rows.length,
+    nextId: () => {
+      lastId += 1
+      save()
+      return formatId(lastId)
+    },
+    insert: (row: T) => {
+      rows = [row, ...rows]
+      save()
+      return row
+    },
+    update: (id: string, changes: Partial<T>) => {
+      const existing = rows.find((row) => row.id === id)
+      if (!existing) return undefined
+      const updated = { ...existing, ...changes }
+      rows = rows.map((row) => (row.id === id ? updated : row))
+      save()
+      return updated
+    },
+    delete: (id: string) => {
+      const existing = rows.find((row) => row.id === id)
+      rows = rows.filter((row) => row.id !== id)
+      save()
+      return existing
+    },
+    deleteWhere: (predicate: (row: T) => boolean) => {
+      rows = rows.filter((row) => !predicate(row))
+      save()
+    },
+    replace: (next: T[]) => {
+      rows = next
+      lastId = next.length
+      save()
+    },
+    reset: () => {
+      ;({ rows, lastId } = load())
+    },
+    forget: () => {
+      if (storageKey) localStorage.removeItem(storageKey)
+      rows = seed()
+      lastId = rows.length
+    },
+  }
+}
+
+// A password reset link stays valid for an hour and works once
+export interface PasswordReset {
+  userId: string
+  expiresAt: string
+  usedAt: string | null
+}
+
+// What the backend would have emailed. Tests read the link from here.
+export interface MockEmail {
+  to: string
+  subject: string
+  link: string
+}
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000
+
+// Verification links last a day. Opening one again after it has worked is
+// harmless, so used links keep working until they expire.
+export interface EmailVerification {
+  userId: string
+  expiresAt: string
+}
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000
+// How long the resend button stays locked after each email
+export const VERIFICATION_RESEND_INTERVAL_MS = 60 * 1000
+
+// Fixed tokens for trying the error states by hand, e.g.
+// /reset-password?token=mock-reset-expired
+export const EXPIRED_RESET_TOKEN = 'mock-reset-expired'
+export const USED_RESET_TOKEN = 'mock-reset-used'
+export const EXPIRED_VERIFICATION_TOKEN = 'mock-verify-expired'
+
+// Two-factor settings for an account. Each recovery code works once, so used
+// ones are removed.
+export interface MfaSettings {
+  secret: string
+  recoveryCodes: string[]
+}
+
+// The half-finished sign-in between the password and the second factor
+export interface MfaChallenge {
+  userId: string
+  rememberMe: boolean
+  device: string
+  expiresAt: string
+  failedAttempts: number
+}
+
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000
+// Wrong codes allowed before the challenge is thrown away and the password
+// has to be entered again, so six digits can't simply be guessed
+export const MFA_MAX_FAILED_ATTEMPTS = 5
+
+// User 3 signs in with two-factor authentication. Add this secret to an
+// authenticator app, or use one of the recovery codes, to try the second
+// step by hand.
+export const MFA_SEED_USER_ID = '3'
+export const MFA_SEED_SECRET = 'JBSWY3DPEHPK3PXP'
+export const MFA_SEED_RECOVERY_CODES = [
+  'a1b2-c3d4',
+  'e5f6-a7b8',
+  'c9d0-e1f2',
+  'a3b4-c5d6',
+  'e7f8-a9b0',
+]
+
+export const db = {
+  users: createTable(() => createSeedUsers()),
+  posts: createTable(() => createSeedPosts()),
+  activity: createTable(
+    () => createSeedActivity(createSeedUsers()),
+    (n) => `activity-${String(n)}`
+  ),
+  // Kept across reloads: the session cookie outlives the page, so the
+  // session it names has to as well
+  sessions: createTable(
+    createSeedSessions,
+    (n) => `session-${String(n)}`,
+    SESSIONS_STORAGE_KEY
+  ),
+  loginHistory: createTable(
+    createSeedLoginHistory,
+    (n) => `login-${String(n)}`
+  ),
+  // Keyed by user id. Passwords are stored in plain text; this is a mock.
+  passwords: new Map<string, string>(),
+  preferences: new Map<string, UserPreferences>(),
+  // Keyed by token
+  passwordResets: new Map<string, PasswordReset>(),
+  outbox: [] as MockEmail[],
+  // Seeded accounts are all verified; new sign-ups are added here until they
+  // open their link
+  unverifiedUsers: new Set<string>(),
+  // Keyed by token
+  emailVerifications: new Map<string, EmailVerification>(),
+  // Keyed by user id, when the last verification email went out
+  verificationSentAt: new Map<string, number>(),
+  // Keyed by user id. Pending secrets have been shown but not yet confirmed
+  // with a code.
+  mfa: new Map<string, MfaSettings>(),
+  mfaPending: new Map<string, string>(),
+  // Keyed by challenge token
+  mfaChallenges: new Map<string, MfaChallenge>(),
+}
+
+function seedCredentials() {
+  db.passwords = new Map(db.users.all().map((user) => [user.id, SEED_PASSWORD]))
+  db.preferences = new Map()
+  db.outbox = []
+  db.mfa = new Map(
+    db.users.find(MFA_SEED_USER_ID)
+      ? [
+          [
+            MFA_SEED_USER_ID,
+            {
+              secret: MFA_SEED_SECRET,
+              recoveryCodes: [...MFA_SEED_RECOVERY_CODES],
+            },
+          ],
+        ]
+      : []
+  )
+  db.mfaPending = new Map()
+  db.mfaChallenges = new Map()
+  db.unverifiedUsers = new Set()
+  db.emailVerifications = new Map([
+    [
+      EXPIRED_VERIFICATION_TOKEN,
+      { userId: '1', expiresAt: '2025-01-02T00:00:00.000Z' },
+    ],
+  ])
+  db.verificationSentAt = new Map()
+  db.passwordResets = new Map([
+    [
+      EXPIRED_RESET_TOKEN,
+      { userId: '1', expiresAt: '2025-01-01T01:00:00.000Z', usedAt: null },
+    ],
+    [
+      USED_RESET_TOKEN,
+      {
+        userId: '1',
+        expiresAt: '2999-01-01T00:00:00.000Z',
+        usedAt: '2025-01-01T00:30:00.000Z',
+      },
+    ],
+  ])
+}
+seedCredentials()
+
+export function resetDb() {
+  db.users.reset()
+  db.posts.reset()
+  db.activity.reset()
+  db.sessions.reset()
+  db.loginHistory.reset()
+  seedCredentials()
+}
+
+// Swaps in a different data set, e.g. for a scenario. Every user gets the
+// seed password.
+export function loadDb(data: {
+  users: User[]
+  posts: Post[]
+  activity: Activity[]
+}) {
+  db.users.replace(data.users)
+  db.posts.replace(data.posts)
+  db.activity.replace(data.activity)
+  db.sessions.reset()
+  db.loginHistory.replace(createSeedLoginHistory())
+  seedCredentials()
+}
+
+export function findUserByEmail(email: string) {
+  const normalized = email.toLowerCase()
+  return db.users.all().find((user) => user.email === normalized)
+}
+
+// Sessions and sign-in attempts made through the mock carry no real address
+const LOCAL_IP = '127.0.0.1'
+
+export function createSession(userId: string, device: string) {
+  const now = new Date().toISOString()
+  return db.sessions.insert({
+    id: db.sessions.nextId(),
+    userId,
+    device,
+    ipAddress: LOCAL_IP,
+    location: null,
+    createdAt: now,
+    lastActiveAt: now,
+  })
+}
+
+export function recordLogin(userId: string, device: string, success: boolean) {
+  return db.loginHistory.insert({
+    id: db.loginHistory.nextId(),
+    userId,
+    createdAt: new Date().toISOString(),
+    device,
+    ipAddress: LOCAL_IP,
+    location: null,
+    success,
+  })
+}
+
+// Stands in for the token a real backend would put in the email
+let resetCount = 0
+
+export function createPasswordReset(userId: string) {
+  resetCount += 1
+  const token = `mock-reset-token.${String(resetCount)}`
+  db.passwordResets.set(token, {
+    userId,
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+    usedAt: null,
+  })
+  return token
+}
+
+let verificationCount = 0
+
+// Emails a fresh link. Earlier links keep working until they expire.
+export function sendVerificationEmail(user: Pick<User, 'id' | 'email'>) {
+  verificationCount += 1
+  const token = `mock-verify-token.${String(verificationCount)}`
+  db.emailVerifications.set(token, {
+    userId: user.id,
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS).toISOString(),
+  })
+  db.verificationSentAt.set(user.id, Date.now())
+  sendMockEmail({
+    to: user.email,
+    subject: 'Verify your email address',
+    link: `/verify-email?token=${encodeURIComponent(token)}`,
+  })
+}
+
+let challengeCount = 0
+
+export function createMfaChallenge(
+  userId: string,
+  rememberMe: boolean,
+  device: string
+) {
+  challengeCount += 1
+  const token = `mock-mfa-challenge.${String(challengeCount)}`
+  db.mfaChallenges.set(token, {
+    userId,
+    rememberMe,
+    device,
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS).toISOString(),
+    failedAttempts: 0,
+  })
+  return token
+}
+
+// Ten codes like "3f9a-07c2"
+export function createRecoveryCodes() {
+  return Array.from({ length: 10 }, () => {
+    const hex = Array.from(crypto.getRandomValues(new Uint8Array(4)), (byte) =>
+      byte.toString(16).padStart(2, '0')
+    ).join('')
+    return `${hex.slice(0, 4)}-${hex.slice(4)}`
+  })
+}
+
+const outboxListeners = new Set<() => void>()
+
+// dev:mock has no inbox, so the scenario panel listens here and shows the
+// link to whoever is trying the flow
+export function subscribeToOutbox(listener: () => void) {
+  outboxListeners.add(listener)
+  return () => {
+    outboxListeners.delete(listener)
+  }
+}
+
+export function sendMockEmail(email: MockEmail) {
+  db.outbox = [...db.outbox, email]
+  outboxListeners.forEach((listener) => {
+    listener()
+  })
+}
+
+// Puts a change at the top of the activity feed, as the backend does
+export function recordActivity(
+  type: ActivityType,
+  user: Pick<User, 'id' | 'name'>,
+  postTitle?: string
+) {
+  return db.activity.insert({
+    id: db.activity.nextId(),
+    type,
+    description: ACTIVITY_DESCRIPTIONS[type],
+    createdAt: new Date().toISOString(),
+    userId: user.id,
+    userName: user.name,
+    ...(postTitle ? { postTitle } : {}),
+  })
+}
+
+// Changes pushed by the dev:mock event stream. They are real writes, so the
+// pages the events invalidate show the new data when they refetch.
+const LIVE_ACTIVITY_TYPES: ActivityType[] = ['post_created', 'user_updated']
+let liveActivityCount = 0
+
+export function createLiveActivity(): Activity {
+  liveActivityCount += 1
+  const type =
+    LIVE_ACTIVITY_TYPES[liveActivityCount % LIVE_ACTIVITY_TYPES.length] ??
+    'post_created'
+  const users = db.users.all()
+  const user = users[Math.floor(Math.random() * users.length)] ?? users[0]
+  if (!user) throw new Error('The mock database has no users')
+  const now = new Date().toISOString()
+
+  if (type === 'post_created') {
+    const post = db.posts.insert({
+      id: db.posts.nextId(),
+      title: `Live post #${String(liveActivityCount)}`,
+      content: 'Published while you were watching.',
+      authorId: user.id,
+      createdAt: now,
+      updatedAt: now,
+    })
+    return recordActivity(type, user, post.title)
+  }
+  db.users.update(user.id, { updatedAt: now })
+  return recordActivity(type, user)
+}
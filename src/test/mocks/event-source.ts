@@ -0,0 +1,75 @@
+import type { EventSourceLike } from '@/api/realtime'
+import { createLiveActivity } from './db'
+
+type Listener = (event: Event) => void
+
+// An in-memory stand-in for EventSource. jsdom has none, and MSW's worker
+// can't hold a stream open across reloads, so tests and dev:mock drive this
+// one directly.
+export class MockEventSource implements EventSourceLike {
+  static instances: MockEventSource[] = []
+
+  closed = false
+  private listeners = new Map<string, Set<Listener>>()
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this)
+  }
+
+  static latest() {
+    return MockEventSource.instances[MockEventSource.instances.length - 1]
+  }
+
+  static reset() {
+    MockEventSource.instances = []
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    const listeners = this.listeners.get(type) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(type, listeners)
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  open() {
+    this.dispatch(new Event('open'))
+  }
+
+  emit(type: string, data: unknown) {
+    this.dispatch(new MessageEvent(type, { data: JSON.stringify(data) }))
+  }
+
+  fail() {
+    this.dispatch(new Event('error'))
+  }
+
+  private dispatch(event: Event) {
+    if (this.closed) return
+    this.listeners.get(event.type)?.forEach((listener) => {
+      listener(event)
+    })
+  }
+}
+
+const LIVE_ACTIVITY_INTERVAL = 1000 * 15
+
+// dev:mock: connects right away and pushes a new activity every few seconds
+export function createMockEventSource(url: string) {
+  const source = new MockEventSource(url)
+
+  setTimeout(() => {
+    source.open()
+  }, 300)
+  const timer = setInterval(() => {
+    if (source.closed) {
+      clearInterval(timer)
+      return
+    }
+    source.emit('activity', createLiveActivity())
+  }, LIVE_ACTIVITY_INTERVAL)
+
+  return source
+}
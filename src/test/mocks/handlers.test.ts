@@ -0,0 +1,415 @@
+import { describe, it, expect } from 'vitest'
+import { api, ApiError } from '@/api/client'
+import type {
+  AuthResponse,
+  DashboardData,
+  LoginResponse,
+  MfaSetup,
+  MfaStatus,
+  PaginatedResponse,
+  Post,
+  SsoResponse,
+  User,
+} from '@/types'
+import { createCodeChallenge, readIdTokenNonce } from '@/lib/sso'
+import {
+  db,
+  EXPIRED_VERIFICATION_TOKEN,
+  MFA_MAX_FAILED_ATTEMPTS,
+  MFA_SEED_RECOVERY_CODES,
+  MFA_SEED_SECRET,
+  resetDb,
+} from './db'
+import { approveAuthorization, MOCK_IDP_ID } from './idp'
+import { setMockOptions } from './options'
+import { generateTotp } from './totp'
+
+const newUser = {
+  name: 'Grace Hopper',
+  email: 'Grace@Example.com',
+  password: 'compilers1',
+  role: 'user' as const,
+}
+
+describe('mock API', () => {
+  it('persists created users so they can be read, listed and signed in', async () => {
+    const created = await api.post<User>('/users', newUser)
+
+    await expect(api.get<User>(`/users/${created.id}`)).resolves.toEqual(
+      created
+    )
+    const list = await api.get<PaginatedResponse<User>>('/users', {
+      params: { page: '1', pageSize: '10', sort: 'createdAt', order: 'desc' },
+    })
+    expect(list.data[0]).toEqual(created)
+    expect(created.email).toBe('grace@example.com')
+
+    const session = await api.post<AuthResponse>('/auth/login', {
+      email: 'grace@example.com',
+      password: 'compilers1',
+    })
+    expect(session.user.id).toBe(created.id)
+  })
+
+  it('applies updates on top of the stored record', async () => {
+    const updated = await api.put<User>('/users/2', { role: 'admin' })
+
+    expect(updated).toMatchObject({
+      id: '2',
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      role: 'admin',
+    })
+    await expect(api.get<User>('/users/2')).resolves.toEqual(updated)
+  })
+
+  it('answers 404 for records that do not exist', async () => {
+    await expect(api.get('/users/does-not-exist')).rejects.toMatchObject({
+      status: 404,
+    })
+    await expect(api.put('/posts/does-not-exist', {})).rejects.toMatchObject({
+      status: 404,
+    })
+  })
+
+  it('deletes a user together with their posts and records the activity', async () => {
+    const before = await api.get<DashboardData>('/dashboard')
+
+    await api.delete('/users/2')
+
+    await expect(api.get<Post[]>('/users/2/posts')).resolves.toEqual([])
+    const after = await api.get<DashboardData>('/dashboard')
+    expect(after.totalUsers).toBe(before.totalUsers - 1)
+    expect(after.totalPosts).toBe(before.totalPosts - 1)
+    expect(after.recentActivity[0]).toMatchObject({
+      type: 'user_deleted',
+      userName: 'Jane Doe',
+    })
+  })
+
+  it('restores the seed on reset', async () => {
+    await api.delete('/users/2')
+    resetDb()
+
+    expect(db.users.find('2')?.name).toBe('Jane Doe')
+    expect(db.posts.where((post) => post.authorId === '2')).toHaveLength(1)
+  })
+
+  it('fails requests when errors are injected', async () => {
+    setMockOptions({ errorRate: 1 })
+
+    const error: unknown = await api.get('/dashboard').catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error).toMatchObject({ status: 500 })
+  })
+
+  it('emails a single-use reset link that sets a new password', async () => {
+    await api.post('/auth/forgot-password', { email: 'jane@example.com' })
+
+    const email = db.outbox[0]
+    expect(email).toMatchObject({ to: 'jane@example.com' })
+    const token = new URL(
+      email?.link ?? '',
+      'http://localhost'
+    ).searchParams.get('token')
+    await api.post('/auth/reset-password', { token, password: 'NewPass123' })
+
+    await expect(
+      api.post<AuthResponse>('/auth/login', {
+        email: 'jane@example.com',
+        password: 'NewPass123',
+      })
+    ).resolves.toMatchObject({ user: { id: '2' } })
+    await expect(
+      api.post('/auth/reset-password', { token, password: 'Another123' })
+    ).rejects.toMatchObject({
+      status: 410,
+      data: { code: 'reset_token_used' },
+    })
+  })
+
+  it('does not reveal whether an email has an account', async () => {
+    await expect(
+      api.post('/auth/forgot-password', { email: 'nobody@example.com' })
+    ).resolves.toBeUndefined()
+    expect(db.outbox).toEqual([])
+  })
+
+  it('opens a session and logs every sign-in attempt', async () => {
+    await expect(
+      api.post('/auth/login', {
+        email: 'jane@example.com',
+        password: 'wrong-password',
+      })
+    ).rejects.toMatchObject({ status: 401 })
+    const { token } = await api.post<AuthResponse>('/auth/login', {
+      email: 'jane@example.com',
+      password: 'password123',
+    })
+
+    const sessionId = token.split('.')[2]
+    expect(db.sessions.find(sessionId ?? '')).toMatchObject({ userId: '2' })
+    expect(
+      db.loginHistory
+        .where((entry) => entry.userId === '2')
+        .map((entry) => entry.success)
+    ).toEqual([true, false])
+  })
+
+  it('restores a sign-in session after the mock data is reseeded', async () => {
+    const { token } = await api.post<AuthResponse>('/auth/login', {
+      email: 'jane@example.com',
+      password: 'password123',
+    })
+    const sessionId = token.split('.')[2] ?? ''
+
+    // What every `pnpm dev:mock` page load does before restoring the session
+    resetDb()
+
+    expect(db.sessions.find(sessionId)).toMatchObject({ userId: '2' })
+    await expect(api.get<AuthResponse>('/auth/session')).resolves.toMatchObject(
+      { user: { id: '2' } }
+    )
+    await expect(
+      api.post<{ token: string }>('/auth/refresh')
+    ).resolves.toMatchObject({
+      token: expect.stringContaining(sessionId) as string,
+    })
+  })
+
+  it('changes the password only with the current one', async () => {
+    await expect(
+      api.put('/me/password', {
+        currentPassword: 'not-it',
+        newPassword: 'Sunshine42',
+      })
+    ).rejects.toMatchObject({
+      status: 422,
+      data: { errors: { currentPassword: ['Current password is incorrect'] } },
+    })
+    await expect(
+      api.put('/me/password', {
+        currentPassword: 'password123',
+        newPassword: 'short',
+      })
+    ).rejects.toMatchObject({
+      status: 422,
+      data: { errors: { newPassword: [expect.any(String) as string] } },
+    })
+
+    await api.put('/me/password', {
+      currentPassword: 'password123',
+      newPassword: 'Sunshine42',
+    })
+    expect(db.passwords.get('1')).toBe('Sunshine42')
+  })
+
+  it('asks accounts with two-factor on for a code before signing in', async () => {
+    const challenge = await api.post<LoginResponse>('/auth/login', {
+      email: 'alice.smith3@example.com',
+      password: 'password123',
+    })
+    if (!('challengeToken' in challenge))
+      throw new Error('Expected a challenge')
+    expect(challenge.status).toBe('mfa_required')
+
+    await expect(
+      api.post('/auth/mfa/verify', {
+        challengeToken: challenge.challengeToken,
+        code: '000000',
+      })
+    ).rejects.toMatchObject({
+      status: 422,
+      data: { errors: { code: ['Invalid verification code'] } },
+    })
+
+    const session = await api.post<AuthResponse>('/auth/mfa/verify', {
+      challengeToken: challenge.challengeToken,
+      code: await generateTotp(MFA_SEED_SECRET),
+    })
+    expect(session.user.id).toBe('3')
+    // The challenge is spent once it has been exchanged
+    await expect(
+      api.post('/auth/mfa/verify', {
+        challengeToken: challenge.challengeToken,
+        code: await generateTotp(MFA_SEED_SECRET),
+      })
+    ).rejects.toMatchObject({
+      status: 410,
+      data: { code: 'mfa_challenge_expired' },
+    })
+  })
+
+  it('ends the challenge after too many wrong codes', async () => {
+    const challenge = await api.post<LoginResponse>('/auth/login', {
+      email: 'alice.smith3@example.com',
+      password: 'password123',
+    })
+    if (!('challengeToken' in challenge))
+      throw new Error('Expected a challenge')
+    const verify = (code: string) =>
+      api.post('/auth/mfa/verify', {
+        challengeToken: challenge.challengeToken,
+        code,
+      })
+
+    for (let attempt = 1; attempt < MFA_MAX_FAILED_ATTEMPTS; attempt++) {
+      await expect(verify('000000')).rejects.toMatchObject({ status: 422 })
+    }
+    await expect(verify('000000')).rejects.toMatchObject({
+      status: 410,
+      data: { code: 'mfa_challenge_expired' },
+    })
+    // Not even the right code gets through once it's gone
+    await expect(
+      verify(await generateTotp(MFA_SEED_SECRET))
+    ).rejects.toMatchObject({ status: 410 })
+  })
+
+  it('accepts each recovery code once', async () => {
+    const signIn = async () => {
+      const challenge = await api.post<LoginResponse>('/auth/login', {
+        email: 'alice.smith3@example.com',
+        password: 'password123',
+      })
+      if (!('challengeToken' in challenge)) {
+        throw new Error('Expected a challenge')
+      }
+      return api.post<AuthResponse>('/auth/mfa/verify', {
+        challengeToken: challenge.challengeToken,
+        recoveryCode: MFA_SEED_RECOVERY_CODES[0]?.toUpperCase(),
+      })
+    }
+
+    await expect(signIn()).resolves.toMatchObject({ user: { id: '3' } })
+    await expect(signIn()).rejects.toMatchObject({ status: 422 })
+    expect(db.mfa.get('3')?.recoveryCodes).toHaveLength(
+      MFA_SEED_RECOVERY_CODES.length - 1
+    )
+  })
+
+  it('turns two-factor on only after a code from the new secret', async () => {
+    const setup = await api.post<MfaSetup>('/me/mfa/setup')
+    expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`)
+    await expect(
+      api.post('/me/mfa/enable', { code: '123456' })
+    ).rejects.toMatchObject({ status: 422 })
+    await expect(api.get<MfaStatus>('/me/mfa')).resolves.toEqual({
+      enabled: false,
+      recoveryCodesRemaining: 0,
+    })
+
+    const { recoveryCodes } = await api.post<{ recoveryCodes: string[] }>(
+      '/me/mfa/enable',
+      { code: await generateTotp(setup.secret) }
+    )
+    expect(recoveryCodes).toHaveLength(10)
+    await expect(api.get<MfaStatus>('/me/mfa')).resolves.toEqual({
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    })
+    await expect(
+      api.post<LoginResponse>('/auth/login', {
+        email: 'test@example.com',
+        password: 'password123',
+      })
+    ).resolves.toMatchObject({ status: 'mfa_required' })
+
+    await api.post('/me/mfa/disable', { password: 'password123' })
+    await expect(api.get<MfaStatus>('/me/mfa')).resolves.toMatchObject({
+      enabled: false,
+    })
+  })
+
+  it('leaves new accounts unverified until the emailed link is opened', async () => {
+    const { token, user } = await api.post<AuthResponse>('/auth/register', {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      password: 'Engines1843',
+    })
+    expect(user.verified).toBe(false)
+    const link = db.outbox[db.outbox.length - 1]?.link ?? ''
+    expect(link).toMatch(/^\/verify-email\?token=/)
+
+    const verifyToken = new URL(link, 'http://localhost').searchParams.get(
+      'token'
+    )
+    await expect(
+      api.post('/auth/verify-email', { token: verifyToken })
+    ).resolves.toMatchObject({ id: user.id, verified: true })
+    // Opening the link again is harmless
+    await expect(
+      api.post('/auth/verify-email', { token: verifyToken })
+    ).resolves.toMatchObject({ verified: true })
+    await expect(
+      api.post('/auth/verify-email/resend', undefined, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    ).rejects.toMatchObject({
+      status: 409,
+      data: { code: 'email_already_verified' },
+    })
+  })
+
+  it('rejects expired verification links and rate-limits resends', async () => {
+    const { token, user } = await api.post<AuthResponse>('/auth/register', {
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      password: 'Engines1843',
+    })
+    await expect(
+      api.post('/auth/verify-email', { token: EXPIRED_VERIFICATION_TOKEN })
+    ).rejects.toMatchObject({
+      status: 410,
+      data: { code: 'verification_token_expired' },
+    })
+
+    const resend = () =>
+      api.post('/auth/verify-email/resend', undefined, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    // The sign-up email counts towards the limit
+    await expect(resend()).rejects.toMatchObject({
+      status: 429,
+      data: { code: 'verification_rate_limited', retryAfter: 60 },
+    })
+    db.verificationSentAt.set(user.id, Date.now() - 61_000)
+    await expect(resend()).resolves.toBeUndefined()
+    expect(
+      db.outbox.filter((email) => email.to === 'ada@example.com')
+    ).toHaveLength(2)
+  })
+
+  it('signs in with a code from the mock identity provider', async () => {
+    const codeVerifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+    const redirectUri = 'http://localhost:3000/auth/callback'
+    const callback = new URL(
+      approveAuthorization(
+        {
+          redirectUri,
+          state: 'state-1',
+          nonce: 'nonce-1',
+          codeChallenge: await createCodeChallenge(codeVerifier),
+        },
+        '2'
+      )
+    )
+    const code = callback.searchParams.get('code') ?? ''
+    const exchange = (verifier: string) =>
+      api.post<SsoResponse>('/auth/sso/token', {
+        provider: MOCK_IDP_ID,
+        code,
+        codeVerifier: verifier,
+        redirectUri,
+      })
+
+    // Someone who intercepted the code doesn't have the verifier
+    await expect(exchange('not-the-verifier')).rejects.toMatchObject({
+      status: 400,
+      data: { code: 'sso_code_invalid' },
+    })
+    const session = await exchange(codeVerifier)
+    expect(session.user).toMatchObject({ id: '2', verified: true })
+    expect(readIdTokenNonce(session.idToken)).toBe('nonce-1')
+  })
+})
@@ -1,26 +1,322 @@
 import { http, HttpResponse } from 'msw'
+import type {
+  ChangePasswordInput,
+  CreatePostInput,
+  CreateUserInput,
+  FeedPost,
+  MetricsInterval,
+  MetricsPoint,
+  Post,
+  SsoTokenInput,
+  UpdatePostInput,
+  UpdateUserInput,
+  User,
+  UserListParams,
+  UserPreferences,
+  VerifyMfaInput,
+} from '@/types'
+import {
+  createMfaChallenge,
+  createPasswordReset,
+  createRecoveryCodes,
+  createSession,
+  db,
+  findUserByEmail,
+  MFA_MAX_FAILED_ATTEMPTS,
+  recordActivity,
+  recordLogin,
+  sendMockEmail,
+  sendVerificationEmail,
+  VERIFICATION_RESEND_INTERVAL_MS,
+} from './db'
+import { createIdToken, MOCK_IDP_ID, redeemAuthorizationCode } from './idp'
+import { applyMockOptions } from './options'
+import { createOtpauthUrl, createTotpSecret, verifyTotp } from './totp'
 
 const API_URL = '/api'
 
+type UserSortField = UserListParams['sort']
+
+// Mock tokens and session cookies end in the user's id and, when they came
+// from a sign-in, the session's id, so handlers can tell who is calling
+// without any real signing
+const TOKEN_PATTERN =
+  /^mock-(?:jwt|refreshed-jwt|refresh)-token\.([^.]+)(?:\.(.+))?$/
+
+function withSession(prefix: string, userId: string, sessionId?: string) {
+  return sessionId ? `${prefix}.${userId}.${sessionId}` : `${prefix}.${userId}`
+}
+
+function accessToken(userId: string, sessionId?: string) {
+  return withSession('mock-jwt-token', userId, sessionId)
+}
+
+// MSW writes mocked cookies to document.cookie, which can't hold HttpOnly
+// cookies, so the mock session cookie is a plain one. Remembered sessions
+// outlive the browser; others end with it.
+function sessionCookie(userId: string, sessionId: string, remember = false) {
+  const token = withSession('mock-refresh-token', userId, sessionId)
+  const cookie = `refresh_token=${token}; Path=/`
+  return remember ? `${cookie}; Max-Age=2592000` : cookie
+}
+const CLEAR_SESSION_COOKIE = 'refresh_token=; Path=/; Max-Age=0'
+
+function parseToken(token: string | undefined) {
+  const match = token ? TOKEN_PATTERN.exec(token) : null
+  return match?.[1] ? { userId: match[1], sessionId: match[2] } : undefined
+}
+
+function bearerToken(request: Request) {
+  return request.headers.get('Authorization')?.replace(/^Bearer /, '')
+}
+
+// A cookie stops working once its session has been signed out
+function sessionFromCookie(cookie: string | undefined) {
+  const parsed = parseToken(cookie)
+  if (!parsed) return undefined
+  const session = parsed.sessionId
+    ? db.sessions.find(parsed.sessionId)
+    : undefined
+  if (parsed.sessionId && !session) return undefined
+  const user = db.users.find(parsed.userId)
+  return user ? { user, session } : undefined
+}
+
+// Requests without a token act as user 1, so component tests can hit the
+// mock API without signing in first
+function currentUser(request: Request) {
+  const userId = parseToken(bearerToken(request))?.userId
+  const user =
+    (userId ? db.users.find(userId) : undefined) ?? db.users.find('1')
+  if (!user) throw new Error('The mock database has no user 1')
+  return user
+}
+
+function currentSessionId(request: Request) {
+  return parseToken(bearerToken(request))?.sessionId
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/i, 'Linux'],
+]
+
+// "Chrome on macOS", from the User-Agent the way a backend would label it
+function describeDevice(request: Request) {
+  const userAgent = request.headers.get('User-Agent') ?? ''
+  const browser =
+    BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ??
+    'Unknown browser'
+  const system =
+    SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ??
+    'unknown device'
+  return `${browser} on ${system}`
+}
+
+function toAuthUser({ id, name, email, role }: User) {
+  return { id, name, email, role, verified: !db.unverifiedUsers.has(id) }
+}
+
+function isEmailTaken(email: string, exceptId?: string) {
+  const user = findUserByEmail(email)
+  return !!user && user.id !== exceptId
+}
+
+function validationError(errors: Record<string, string[]>) {
+  return HttpResponse.json(
+    { message: 'Validation failed', errors },
+    { status: 422 }
+  )
+}
+
+function resetTokenError(status: number, code: string, message: string) {
+  return HttpResponse.json({ message, code }, { status })
+}
+
+// The last step of every successful sign-in
+function signedIn(
+  user: User,
+  device: string,
+  remember = false,
+  extra: Record<string, string> = {}
+) {
+  recordLogin(user.id, device, true)
+  const session = createSession(user.id, device)
+  return HttpResponse.json(
+    {
+      token: accessToken(user.id, session.id),
+      user: toAuthUser(user),
+      ...extra,
+    },
+    { headers: { 'Set-Cookie': sessionCookie(user.id, session.id, remember) } }
+  )
+}
+
+function notFound(message: string) {
+  return HttpResponse.json({ message }, { status: 404 })
+}
+
+// The cursor is the id of the last item already returned
+function cursorPage<T extends { id: string }>(rows: T[], url: URL) {
+  const limit = Math.max(1, Number(url.searchParams.get('limit') ?? 10))
+  const cursor = url.searchParams.get('cursor')
+  const start = cursor ? rows.findIndex((row) => row.id === cursor) + 1 : 0
+  const data = rows.slice(start, start + limit)
+  const last = data[data.length - 1]
+  return {
+    data,
+    nextCursor: last && start + limit < rows.length ? last.id : null,
+  }
+}
+
+function newestFirst<T extends { createdAt: string }>(a: T, b: T) {
+  return b.createdAt.localeCompare(a.createdAt)
+}
+
+function withAuthorName(post: Post): FeedPost {
+  const author = db.users.find(post.authorId)
+  return { ...post, authorName: author?.name ?? 'Unknown author' }
+}
+
+const METRICS_RANGE_DAYS: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+}
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// Deterministic daily counts with a weekly rhythm and slow growth, so charts
+// look plausible and don't jump around between requests
+function dailyCount(day: number, base: number) {
+  const weekly = Math.sin((day / 7) * Math.PI * 2) * base * 0.4
+  const noise = Math.abs(Math.sin(day * 12.9898)) * base * 0.6
+  return Math.max(0, Math.round(base + weekly + noise + day / 120))
+}
+
+// Buckets the last `days` UTC days by day, ISO week (from Monday) or month
+function buildMetrics(days: number, interval: MetricsInterval) {
+  const today = Math.floor(Date.now() / DAY_MS)
+  const buckets = new Map<string, MetricsPoint>()
+
+  for (let day = today - days + 1; day <= today; day++) {
+    const date = new Date(day * DAY_MS)
+    if (interval === 'week') {
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+    } else if (interval === 'month') {
+      date.setUTCDate(1)
+    }
+    const key = date.toISOString().slice(0, 10)
+    const point = buckets.get(key) ?? { date: key, signups: 0, posts: 0 }
+    point.signups += dailyCount(day, 2)
+    point.posts += dailyCount(day + 3, 5)
+    buckets.set(key, point)
+  }
+
+  return [...buckets.values()]
+}
+
 export const handlers = [
+  // Latency and error injection, see ./options
+  http.all(`${API_URL}/*`, applyMockOptions),
+
   // Auth handlers
   http.post(`${API_URL}/auth/login`, async ({ request }) => {
     const body = (await request.json()) as {
       email: string
       password: string
+      rememberMe?: boolean
+    }
+    const user = findUserByEmail(body.email)
+    const device = describeDevice(request)
+
+    if (!user || db.passwords.get(user.id) !== body.password) {
+      if (user) recordLogin(user.id, device, false)
+      return HttpResponse.json(
+        { message: 'Invalid credentials' },
+        { status: 401 }
+      )
     }
 
-    if (body.email === 'test@example.com' && body.password === 'password123') {
+    // The password was right, but the session waits for the second factor
+    if (db.mfa.has(user.id)) {
       return HttpResponse.json({
-        token: 'mock-jwt-token',
-        user: { id: '1', name: 'Test User', email: body.email },
+        status: 'mfa_required',
+        challengeToken: createMfaChallenge(
+          user.id,
+          body.rememberMe ?? false,
+          device
+        ),
       })
     }
 
-    return HttpResponse.json(
-      { message: 'Invalid credentials' },
-      { status: 401 }
-    )
+    return signedIn(user, device, body.rememberMe)
+  }),
+
+  // Finishes a sign-in with a code from the authenticator app or one of the
+  // recovery codes, which is used up
+  http.post(`${API_URL}/auth/mfa/verify`, async ({ request }) => {
+    const body = (await request.json()) as VerifyMfaInput
+    const challenge = db.mfaChallenges.get(body.challengeToken)
+    const user = challenge ? db.users.find(challenge.userId) : undefined
+    const settings = user ? db.mfa.get(user.id) : undefined
+
+    const expired = () => {
+      db.mfaChallenges.delete(body.challengeToken)
+      return HttpResponse.json(
+        {
+          message: 'This sign-in attempt has expired',
+          code: 'mfa_challenge_expired',
+        },
+        { status: 410 }
+      )
+    }
+
+    if (
+      !challenge ||
+      !user ||
+      !settings ||
+      new Date(challenge.expiresAt).getTime() <= Date.now()
+    ) {
+      return expired()
+    }
+
+    // Each wrong code counts against the challenge; the last one allowed
+    // ends it
+    const failed = (errors: Record<string, string[]>) => {
+      recordLogin(user.id, challenge.device, false)
+      challenge.failedAttempts += 1
+      return challenge.failedAttempts >= MFA_MAX_FAILED_ATTEMPTS
+        ? expired()
+        : validationError(errors)
+    }
+
+    if (body.recoveryCode !== undefined) {
+      const recoveryCode = body.recoveryCode.trim().toLowerCase()
+      if (!settings.recoveryCodes.includes(recoveryCode)) {
+        return failed({ recoveryCode: ['Invalid recovery code'] })
+      }
+      db.mfa.set(user.id, {
+        ...settings,
+        recoveryCodes: settings.recoveryCodes.filter(
+          (code) => code !== recoveryCode
+        ),
+      })
+    } else if (!(await verifyTotp(settings.secret, body.code ?? ''))) {
+      return failed({ code: ['Invalid verification code'] })
+    }
+
+    db.mfaChallenges.delete(body.challengeToken)
+    return signedIn(user, challenge.device, challenge.rememberMe)
   }),
 
   http.post(`${API_URL}/auth/register`, async ({ request }) => {
@@ -37,127 +333,564 @@ export const handlers = [
       )
     }
 
+    if (isEmailTaken(body.email)) {
+      return validationError({
+        email: ['An account with this email already exists'],
+      })
+    }
+
+    const now = new Date().toISOString()
+    const user = db.users.insert({
+      id: db.users.nextId(),
+      name: body.name,
+      email: body.email.toLowerCase(),
+      role: 'user',
+      createdAt: now,
+      updatedAt: now,
+    })
+    db.passwords.set(user.id, body.password)
+    db.unverifiedUsers.add(user.id)
+    sendVerificationEmail(user)
+    recordActivity('user_registered', user)
+    const session = createSession(user.id, describeDevice(request))
+
+    return HttpResponse.json(
+      { token: accessToken(user.id, session.id), user: toAuthUser(user) },
+      { headers: { 'Set-Cookie': sessionCookie(user.id, session.id) } }
+    )
+  }),
+
+  http.get(`${API_URL}/auth/session`, ({ cookies }) => {
+    const current = sessionFromCookie(cookies.refresh_token)
+    if (!current) {
+      return HttpResponse.json(
+        { message: 'No active session' },
+        { status: 401 }
+      )
+    }
+
+    const { user, session } = current
+    if (session) {
+      db.sessions.update(session.id, { lastActiveAt: new Date().toISOString() })
+    }
     return HttpResponse.json({
-      token: 'mock-jwt-token',
-      user: { id: '1', name: body.name, email: body.email },
+      token: accessToken(user.id, session?.id),
+      user: toAuthUser(user),
     })
   }),
 
-  // Dashboard handlers
-  http.get(`${API_URL}/dashboard`, () => {
+  http.post(`${API_URL}/auth/logout`, ({ cookies }) => {
+    const sessionId = parseToken(cookies.refresh_token)?.sessionId
+    if (sessionId) db.sessions.delete(sessionId)
+    return new HttpResponse(null, {
+      status: 204,
+      headers: { 'Set-Cookie': CLEAR_SESSION_COOKIE },
+    })
+  }),
+
+  // Stands in for the HttpOnly refresh-token cookie exchange
+  http.post(`${API_URL}/auth/refresh`, ({ cookies }) => {
+    const current = sessionFromCookie(cookies.refresh_token)
+    if (!current) {
+      return HttpResponse.json(
+        { message: 'No active session' },
+        { status: 401 }
+      )
+    }
+
+    const { user, session } = current
+    if (session) {
+      db.sessions.update(session.id, { lastActiveAt: new Date().toISOString() })
+    }
     return HttpResponse.json({
-      totalUsers: 42,
-      totalPosts: 128,
-      recentActivity: [
+      token: withSession('mock-refreshed-jwt-token', user.id, session?.id),
+    })
+  }),
+
+  // Answers the same whether or not the account exists, so the form can't be
+  // used to find out who has signed up
+  http.post(`${API_URL}/auth/forgot-password`, async ({ request }) => {
+    const body = (await request.json()) as { email?: string }
+    if (!body.email) {
+      return validationError({ email: ['Email is required'] })
+    }
+
+    const user = findUserByEmail(body.email)
+    if (user) {
+      const token = createPasswordReset(user.id)
+      sendMockEmail({
+        to: user.email,
+        subject: 'Reset your password',
+        link: `/reset-password?token=${encodeURIComponent(token)}`,
+      })
+    }
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  http.post(`${API_URL}/auth/reset-password`, async ({ request }) => {
+    const body = (await request.json()) as { token?: string; password?: string }
+    const reset = body.token ? db.passwordResets.get(body.token) : undefined
+    const user = reset ? db.users.find(reset.userId) : undefined
+
+    if (!body.token || !reset || !user) {
+      return resetTokenError(
+        400,
+        'reset_token_invalid',
+        'This reset link is invalid'
+      )
+    }
+    if (reset.usedAt) {
+      return resetTokenError(
+        410,
+        'reset_token_used',
+        'This reset link has already been used'
+      )
+    }
+    if (new Date(reset.expiresAt).getTime() <= Date.now()) {
+      return resetTokenError(
+        410,
+        'reset_token_expired',
+        'This reset link has expired'
+      )
+    }
+    if (!body.password || body.password.length < 8) {
+      return validationError({
+        password: ['Password must be at least 8 characters'],
+      })
+    }
+
+    db.passwords.set(user.id, body.password)
+    db.passwordResets.set(body.token, {
+      ...reset,
+      usedAt: new Date().toISOString(),
+    })
+
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  // Answers with the account the link belongs to, which may not be the one
+  // signed in on this browser
+  http.post(`${API_URL}/auth/verify-email`, async ({ request }) => {
+    const body = (await request.json()) as { token?: string }
+    const verification = body.token
+      ? db.emailVerifications.get(body.token)
+      : undefined
+    const user = verification ? db.users.find(verification.userId) : undefined
+
+    if (!verification || !user) {
+      return HttpResponse.json(
         {
-          id: '1',
-          type: 'user_registered',
-          description: 'New user registered',
-          createdAt: new Date().toISOString(),
+          message: 'This verification link is invalid',
+          code: 'verification_token_invalid',
         },
+        { status: 400 }
+      )
+    }
+    if (new Date(verification.expiresAt).getTime() <= Date.now()) {
+      return HttpResponse.json(
         {
-          id: '2',
-          type: 'post_created',
-          description: 'New post published',
-          createdAt: new Date().toISOString(),
+          message: 'This verification link has expired',
+          code: 'verification_token_expired',
         },
-      ],
+        { status: 410 }
+      )
+    }
+
+    db.unverifiedUsers.delete(user.id)
+    return HttpResponse.json(toAuthUser(user))
+  }),
+
+  // One email a minute per account
+  http.post(`${API_URL}/auth/verify-email/resend`, ({ request }) => {
+    const user = currentUser(request)
+    if (!db.unverifiedUsers.has(user.id)) {
+      return HttpResponse.json(
+        {
+          message: 'This email address is already verified',
+          code: 'email_already_verified',
+        },
+        { status: 409 }
+      )
+    }
+
+    const wait =
+      (db.verificationSentAt.get(user.id) ?? 0) +
+      VERIFICATION_RESEND_INTERVAL_MS -
+      Date.now()
+    if (wait > 0) {
+      const retryAfter = Math.ceil(wait / 1000)
+      return HttpResponse.json(
+        {
+          message: 'Please wait before requesting another email',
+          code: 'verification_rate_limited',
+          retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    sendVerificationEmail(user)
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  // Redeems a single sign-on authorization code. Only the mock provider is
+  // known here; a real backend looks the provider up in its own settings
+  // and calls that provider's token endpoint.
+  http.post(`${API_URL}/auth/sso/token`, async ({ request }) => {
+    const body = (await request.json()) as SsoTokenInput
+    if (body.provider !== MOCK_IDP_ID) {
+      return HttpResponse.json(
+        { message: 'Unknown identity provider', code: 'sso_provider_unknown' },
+        { status: 400 }
+      )
+    }
+
+    const grant = await redeemAuthorizationCode(body)
+    const user = grant ? db.users.find(grant.sub) : undefined
+    if (!grant || !user) {
+      return HttpResponse.json(
+        { message: 'Invalid authorization code', code: 'sso_code_invalid' },
+        { status: 400 }
+      )
+    }
+
+    // The provider vouches for the address
+    db.unverifiedUsers.delete(user.id)
+    return signedIn(user, describeDevice(request), false, {
+      idToken: createIdToken(grant),
     })
   }),
 
-  // User handlers
-  http.get(`${API_URL}/users`, () => {
-    return HttpResponse.json([
-      {
-        id: '1',
-        name: 'John Doe',
-        email: 'john@example.com',
-        role: 'admin',
-        createdAt: '2025-01-01T00:00:00.000Z',
-        updatedAt: '2025-01-01T00:00:00.000Z',
-      },
-      {
-        id: '2',
-        name: 'Jane Doe',
-        email: 'jane@example.com',
-        role: 'user',
-        createdAt: '2025-01-15T00:00:00.000Z',
-        updatedAt: '2025-01-15T00:00:00.000Z',
-      },
-    ])
+  // Dashboard handlers
+  http.get(`${API_URL}/dashboard`, () => {
+    return HttpResponse.json({
+      totalUsers: db.users.count(),
+      totalPosts: db.posts.count(),
+      recentActivity: db.activity.all().slice(0, 5),
+    })
   }),
 
-  http.get(`${API_URL}/users/:id`, ({ params }) => {
+  http.get(`${API_URL}/dashboard/metrics`, ({ request }) => {
+    const url = new URL(request.url)
+    const range = url.searchParams.get('range') ?? '30d'
+    const interval = (url.searchParams.get('interval') ??
+      'day') as MetricsInterval
+
+    return HttpResponse.json({
+      range,
+      interval,
+      points: buildMetrics(METRICS_RANGE_DAYS[range] ?? 30, interval),
+    })
+  }),
+
+  http.get(`${API_URL}/dashboard/activity`, ({ request }) => {
+    const url = new URL(request.url)
+    const type = url.searchParams.get('type')
+    const matching = type
+      ? db.activity.where((activity) => activity.type === type)
+      : db.activity.all()
+
+    return HttpResponse.json(cursorPage(matching, url))
+  }),
+
+  // User handlers
+  http.get(`${API_URL}/users`, ({ request }) => {
+    const url = new URL(request.url)
+    const page = Math.max(1, Number(url.searchParams.get('page') ?? 1))
+    const pageSize = Math.max(1, Number(url.searchParams.get('pageSize') ?? 10))
+    const sort = (url.searchParams.get('sort') ?? 'createdAt') as UserSortField
+    const order = url.searchParams.get('order') === 'asc' ? 1 : -1
+    const q = url.searchParams.get('q')?.toLowerCase() ?? ''
+    const role = url.searchParams.get('role')
+
+    const matching = db.users
+      .where(
+        (user) =>
+          (!q ||
+            user.name.toLowerCase().includes(q) ||
+            user.email.toLowerCase().includes(q)) &&
+          (!role || user.role === role)
+      )
+      .sort((a, b) => a[sort].localeCompare(b[sort]) * order)
+
     return HttpResponse.json({
-      id: params.id,
-      name: 'John Doe',
-      email: 'john@example.com',
-      role: 'admin',
-      createdAt: '2025-01-01T00:00:00.000Z',
-      updatedAt: '2025-01-01T00:00:00.000Z',
+      data: matching.slice((page - 1) * pageSize, page * pageSize),
+      total: matching.length,
+      page,
+      pageSize,
     })
   }),
 
+  http.get(`${API_URL}/users/:id`, ({ params }) => {
+    const user = db.users.find(String(params.id))
+    return user ? HttpResponse.json(user) : notFound('User not found')
+  }),
+
   http.get(`${API_URL}/users/:userId/posts`, ({ params }) => {
-    return HttpResponse.json([
-      {
-        id: '1',
-        title: 'First Post',
-        content: 'This is the first post content.',
-        authorId: params.userId as string,
-        createdAt: '2025-02-01T00:00:00.000Z',
-        updatedAt: '2025-02-01T00:00:00.000Z',
-      },
-      {
-        id: '2',
-        title: 'Second Post',
-        content: 'This is the second post content.',
-        authorId: params.userId as string,
-        createdAt: '2025-02-10T00:00:00.000Z',
-        updatedAt: '2025-02-10T00:00:00.000Z',
-      },
-    ])
+    return HttpResponse.json(
+      db.posts
+        .where((post) => post.authorId === params.userId)
+        .sort(newestFirst)
+    )
   }),
 
   http.post(`${API_URL}/users`, async ({ request }) => {
-    const body = (await request.json()) as {
-      name: string
-      email: string
-      password: string
-      role?: 'admin' | 'user'
+    const body = (await request.json()) as CreateUserInput
+
+    if (isEmailTaken(body.email)) {
+      return validationError({ email: ['This email is already in use'] })
     }
 
-    return HttpResponse.json(
-      {
-        id: '3',
-        name: body.name,
-        email: body.email,
-        role: body.role ?? 'user',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      { status: 201 }
-    )
+    const now = new Date().toISOString()
+    const user = db.users.insert({
+      id: db.users.nextId(),
+      name: body.name,
+      email: body.email.toLowerCase(),
+      role: body.role ?? 'user',
+      createdAt: now,
+      updatedAt: now,
+    })
+    db.passwords.set(user.id, body.password)
+    recordActivity('user_registered', user)
+
+    return HttpResponse.json(user, { status: 201 })
   }),
 
   http.put(`${API_URL}/users/:id`, async ({ params, request }) => {
-    const body = (await request.json()) as {
-      name?: string
-      email?: string
-      role?: 'admin' | 'user'
+    const id = String(params.id)
+    if (!db.users.find(id)) return notFound('User not found')
+
+    const body = (await request.json()) as UpdateUserInput
+    if (body.email && isEmailTaken(body.email, id)) {
+      return validationError({ email: ['This email is already in use'] })
     }
 
+    const user = db.users.update(id, {
+      ...body,
+      ...(body.email ? { email: body.email.toLowerCase() } : {}),
+      updatedAt: new Date().toISOString(),
+    })
+    if (user) recordActivity('user_updated', user)
+    return HttpResponse.json(user)
+  }),
+
+  // Removing an account takes its posts and settings with it
+  http.delete(`${API_URL}/users/:id`, ({ params }) => {
+    const user = db.users.delete(String(params.id))
+    if (!user) return notFound('User not found')
+
+    db.posts.deleteWhere((post) => post.authorId === user.id)
+    db.passwords.delete(user.id)
+    db.preferences.delete(user.id)
+    recordActivity('user_deleted', user)
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  // Post handlers
+  http.get(`${API_URL}/posts`, ({ request }) => {
+    const url = new URL(request.url)
+    const q = url.searchParams.get('q')?.toLowerCase() ?? ''
+    const author = url.searchParams.get('author')
+    const from = url.searchParams.get('from')
+    const to = url.searchParams.get('to')
+
+    const matching = db.posts
+      .where(
+        (post) =>
+          (!q ||
+            post.title.toLowerCase().includes(q) ||
+            post.content.toLowerCase().includes(q)) &&
+          (!author || post.authorId === author) &&
+          (!from || post.createdAt.slice(0, 10) >= from) &&
+          (!to || post.createdAt.slice(0, 10) <= to)
+      )
+      .sort(newestFirst)
+    const page = cursorPage(matching, url)
+
     return HttpResponse.json({
-      id: params.id,
-      name: body.name ?? 'John Doe',
-      email: body.email ?? 'john@example.com',
-      role: body.role ?? 'admin',
-      createdAt: '2025-01-01T00:00:00.000Z',
+      ...page,
+      data: page.data.map(withAuthorName),
+    })
+  }),
+
+  http.get(`${API_URL}/posts/authors`, () => {
+    const authorIds = new Set(db.posts.all().map((post) => post.authorId))
+    return HttpResponse.json(
+      db.users
+        .where((user) => authorIds.has(user.id))
+        .map(({ id, name }) => ({ id, name }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    )
+  }),
+
+  http.get(`${API_URL}/posts/:id`, ({ params }) => {
+    const post = db.posts.find(String(params.id))
+    return post ? HttpResponse.json(post) : notFound('Post not found')
+  }),
+
+  // Posts belong to whoever is signed in
+  http.post(`${API_URL}/posts`, async ({ request }) => {
+    const body = (await request.json()) as CreatePostInput
+    const author = currentUser(request)
+    const now = new Date().toISOString()
+    const post = db.posts.insert({
+      id: db.posts.nextId(),
+      title: body.title,
+      content: body.content,
+      authorId: author.id,
+      createdAt: now,
+      updatedAt: now,
+    })
+    recordActivity('post_created', author, post.title)
+    return HttpResponse.json(post, { status: 201 })
+  }),
+
+  http.put(`${API_URL}/posts/:id`, async ({ params, request }) => {
+    const id = String(params.id)
+    if (!db.posts.find(id)) return notFound('Post not found')
+
+    const body = (await request.json()) as UpdatePostInput
+    const post = db.posts.update(id, {
+      ...body,
       updatedAt: new Date().toISOString(),
     })
+    return HttpResponse.json(post)
   }),
 
-  http.delete(`${API_URL}/users/:id`, () => {
+  http.delete(`${API_URL}/posts/:id`, ({ params }) => {
+    if (!db.posts.delete(String(params.id))) return notFound('Post not found')
     return new HttpResponse(null, { status: 204 })
   }),
+
+  // Preferences handlers
+  http.get(`${API_URL}/me/preferences`, ({ request }) => {
+    const user = currentUser(request)
+    return HttpResponse.json(
+      db.preferences.get(user.id) ?? { dashboardLayout: null }
+    )
+  }),
+
+  http.put(`${API_URL}/me/preferences`, async ({ request }) => {
+    const user = currentUser(request)
+    const body = (await request.json()) as Partial<UserPreferences>
+    const preferences: UserPreferences = {
+      dashboardLayout: null,
+      ...db.preferences.get(user.id),
+      ...body,
+    }
+    db.preferences.set(user.id, preferences)
+    return HttpResponse.json(preferences)
+  }),
+
+  // Account security handlers
+  http.put(`${API_URL}/me/password`, async ({ request }) => {
+    const user = currentUser(request)
+    const body = (await request.json()) as ChangePasswordInput
+
+    if (db.passwords.get(user.id) !== body.currentPassword) {
+      return validationError({
+        currentPassword: ['Current password is incorrect'],
+      })
+    }
+    if (body.newPassword.length < 8) {
+      return validationError({
+        newPassword: ['Password must be at least 8 characters'],
+      })
+    }
+
+    db.passwords.set(user.id, body.newPassword)
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  http.get(`${API_URL}/me/sessions`, ({ request }) => {
+    const user = currentUser(request)
+    const currentId = currentSessionId(request)
+    const sessions = db.sessions
+      .where((session) => session.userId === user.id)
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+      .map(({ userId: _userId, ...session }) => ({
+        ...session,
+        current: session.id === currentId,
+      }))
+    return HttpResponse.json(sessions)
+  }),
+
+  http.post(`${API_URL}/me/sessions/revoke-others`, ({ request }) => {
+    const user = currentUser(request)
+    const currentId = currentSessionId(request)
+    db.sessions.deleteWhere(
+      (session) => session.userId === user.id && session.id !== currentId
+    )
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  // Two-factor authentication handlers
+  http.get(`${API_URL}/me/mfa`, ({ request }) => {
+    const settings = db.mfa.get(currentUser(request).id)
+    return HttpResponse.json({
+      enabled: !!settings,
+      recoveryCodesRemaining: settings?.recoveryCodes.length ?? 0,
+    })
+  }),
+
+  // Starting again replaces any secret that was never confirmed
+  http.post(`${API_URL}/me/mfa/setup`, ({ request }) => {
+    const user = currentUser(request)
+    if (db.mfa.has(user.id)) {
+      return HttpResponse.json(
+        { message: 'Two-factor authentication is already on' },
+        { status: 409 }
+      )
+    }
+
+    const secret = createTotpSecret()
+    db.mfaPending.set(user.id, secret)
+    return HttpResponse.json({
+      secret,
+      otpauthUrl: createOtpauthUrl(secret, user.email),
+    })
+  }),
+
+  http.post(`${API_URL}/me/mfa/enable`, async ({ request }) => {
+    const user = currentUser(request)
+    const body = (await request.json()) as { code?: string }
+    const secret = db.mfaPending.get(user.id)
+
+    if (!secret) {
+      return HttpResponse.json(
+        { message: 'Start two-factor setup first' },
+        { status: 400 }
+      )
+    }
+    if (!(await verifyTotp(secret, body.code ?? ''))) {
+      return validationError({ code: ['Invalid verification code'] })
+    }
+
+    const recoveryCodes = createRecoveryCodes()
+    db.mfa.set(user.id, { secret, recoveryCodes })
+    db.mfaPending.delete(user.id)
+    return HttpResponse.json({ recoveryCodes })
+  }),
+
+  http.post(`${API_URL}/me/mfa/disable`, async ({ request }) => {
+    const user = currentUser(request)
+    const body = (await request.json()) as { password?: string }
+
+    if (db.passwords.get(user.id) !== body.password) {
+      return validationError({ password: ['Password is incorrect'] })
+    }
+
+    db.mfa.delete(user.id)
+    return new HttpResponse(null, { status: 204 })
+  }),
+
+  http.get(`${API_URL}/me/login-history`, ({ request }) => {
+    const user = currentUser(request)
+    const entries = db.loginHistory
+      .where((entry) => entry.userId === user.id)
+      .slice(0, 20)
+      .map(({ userId: _userId, ...entry }) => entry)
+    return HttpResponse.json(entries)
+  }),
 ]
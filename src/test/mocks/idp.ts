@@ -0,0 +1,162 @@
+import {
+  createCodeChallenge,
+  decodeBase64Url,
+  encodeBase64Url,
+  type SsoProvider,
+} from '@/lib/sso'
+
+// A stand-in OpenID Connect provider for `pnpm dev:mock` and tests. Its
+// authorize page is rendered by the app itself (see main.tsx) and the token
+// exchange is answered by the mock API. Coming back from the provider is a
+// full page load, which empties the in-memory database, so an authorization
+// code carries its own grant instead of pointing at a stored one. Nothing is
+// signed; the code is only as trustworthy as the rest of the mock.
+
+export const MOCK_IDP_ID = 'mock-idp'
+export const MOCK_IDP_AUTHORIZE_PATH = '/mock-idp/authorize'
+const MOCK_IDP_ISSUER = 'https://idp.example.com'
+const MOCK_IDP_CLIENT_ID = 'my-app'
+const CODE_TTL_MS = 60 * 1000
+
+export const mockIdpProvider: SsoProvider = {
+  id: MOCK_IDP_ID,
+  name: 'Mock IdP',
+  authorizeUrl: MOCK_IDP_AUTHORIZE_PATH,
+  clientId: MOCK_IDP_CLIENT_ID,
+  scope: 'openid profile email',
+}
+
+export interface AuthorizationRequest {
+  redirectUri: string
+  state: string
+  nonce: string
+  codeChallenge: string
+}
+
+interface AuthorizationGrant {
+  sub: string
+  nonce: string
+  redirectUri: string
+  codeChallenge: string
+  expiresAt: number
+}
+
+function encodeJson(value: unknown) {
+  return encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)))
+}
+
+function decodeJson(value: string) {
+  return JSON.parse(new TextDecoder().decode(decodeBase64Url(value))) as unknown
+}
+
+// Checks the query string the app sent, the way a provider would before
+// showing its sign-in page. Throws for anything it wouldn't accept.
+export function parseAuthorizationRequest(href: string): AuthorizationRequest {
+  const params = new URL(href).searchParams
+  const get = (name: string) => {
+    const value = params.get(name)
+    if (!value) throw new Error(`Missing ${name}`)
+    return value
+  }
+
+  if (get('response_type') !== 'code') {
+    throw new Error('Unsupported response_type')
+  }
+  if (get('client_id') !== MOCK_IDP_CLIENT_ID) {
+    throw new Error('Unknown client_id')
+  }
+  if (!get('scope').split(' ').includes('openid')) {
+    throw new Error('The openid scope is required')
+  }
+  if (get('code_challenge_method') !== 'S256') {
+    throw new Error('Only S256 code challenges are accepted')
+  }
+  const redirectUri = get('redirect_uri')
+  if (new URL(redirectUri).origin !== new URL(href).origin) {
+    throw new Error('redirect_uri is not registered for this client')
+  }
+  return {
+    redirectUri,
+    state: get('state'),
+    nonce: get('nonce'),
+    codeChallenge: get('code_challenge'),
+  }
+}
+
+// Where the provider sends the browser once the user picks an account
+export function approveAuthorization(
+  request: AuthorizationRequest,
+  userId: string,
+  now = Date.now()
+) {
+  const grant: AuthorizationGrant = {
+    sub: userId,
+    nonce: request.nonce,
+    redirectUri: request.redirectUri,
+    codeChallenge: request.codeChallenge,
+    expiresAt: now + CODE_TTL_MS,
+  }
+  const url = new URL(request.redirectUri)
+  url.search = new URLSearchParams({
+    code: encodeJson(grant),
+    state: request.state,
+  }).toString()
+  return url.toString()
+}
+
+// Where the provider sends the browser when the user refuses consent
+export function denyAuthorization(request: AuthorizationRequest) {
+  const url = new URL(request.redirectUri)
+  url.search = new URLSearchParams({
+    error: 'access_denied',
+    error_description: 'The user denied the request',
+    state: request.state,
+  }).toString()
+  return url.toString()
+}
+
+// The token endpoint's checks: the code hasn't expired, it was issued for
+// the same redirect URI, and the verifier hashes to the original challenge
+export async function redeemAuthorizationCode(
+  {
+    code,
+    codeVerifier,
+    redirectUri,
+  }: { code: string; codeVerifier: string; redirectUri: string },
+  now = Date.now()
+) {
+  let grant: AuthorizationGrant
+  try {
+    grant = decodeJson(code) as AuthorizationGrant
+  } catch {
+    return null
+  }
+  if (
+    grant.expiresAt < now ||
+    grant.redirectUri !== redirectUri ||
+    grant.codeChallenge !== (await createCodeChallenge(codeVerifier))
+  ) {
+    return null
+  }
+  return { sub: grant.sub, nonce: grant.nonce }
+}
+
+// An unsigned ID token with the claims the app reads
+export function createIdToken(
+  { sub, nonce }: { sub: string; nonce: string },
+  now = Date.now()
+) {
+  const issuedAt = Math.floor(now / 1000)
+  return [
+    encodeJson({ alg: 'none', typ: 'JWT' }),
+    encodeJson({
+      iss: MOCK_IDP_ISSUER,
+      aud: MOCK_IDP_CLIENT_ID,
+      sub,
+      nonce,
+      iat: issuedAt,
+      exp: issuedAt + 5 * 60,
+    }),
+    '',
+  ].join('.')
+}
@@ -0,0 +1,61 @@
+import { delay, HttpResponse } from 'msw'
+
+export interface MockOptions {
+  // Milliseconds added before every response, or 'real' for MSW's random
+  // 100-400ms. Tests default to none so fake timers never stall a request.
+  latency: number | 'real'
+  // Chance between 0 and 1 that a request fails with a 500
+  errorRate: number
+  // Rejects the current session and any token until the next sign-in
+  sessionExpired: boolean
+}
+
+const DEFAULT_OPTIONS: MockOptions = {
+  latency: 0,
+  errorRate: 0,
+  sessionExpired: false,
+}
+
+let options: MockOptions = { ...DEFAULT_OPTIONS }
+
+export function getMockOptions(): MockOptions {
+  return options
+}
+
+export function setMockOptions(changes: Partial<MockOptions>) {
+  options = { ...options, ...changes }
+}
+
+export function resetMockOptions() {
+  options = { ...DEFAULT_OPTIONS }
+}
+
+function isSessionRequest(request: Request) {
+  const { pathname } = new URL(request.url)
+  return (
+    pathname.endsWith('/auth/session') ||
+    pathname.endsWith('/auth/refresh') ||
+    request.headers.has('Authorization')
+  )
+}
+
+// Runs ahead of every handler. Returning nothing lets the request fall
+// through to the handler that owns the route.
+export async function applyMockOptions({ request }: { request: Request }) {
+  if (options.latency !== 0) await delay(options.latency)
+  if (options.sessionExpired) {
+    // Signing in again starts a session that stays valid
+    if (new URL(request.url).pathname.endsWith('/auth/login')) {
+      options = { ...options, sessionExpired: false }
+    } else if (isSessionRequest(request)) {
+      return HttpResponse.json({ message: 'Session expired' }, { status: 401 })
+    }
+  }
+  if (options.errorRate > 0 && Math.random() < options.errorRate) {
+    return HttpResponse.json(
+      { message: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+  return undefined
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { api } from '@/api/client'
+import type { AuthResponse, CursorPage, DashboardData, FeedPost } from '@/types'
+import { getMockOptions } from './options'
+import {
+  SCENARIO_STORAGE_KEY,
+  applyScenario,
+  resolveScenario,
+  withScenario,
+} from './scenarios'
+
+describe('applyScenario', () => {
+  it('empties the tenant down to the signed-in account', async () => {
+    applyScenario('empty')
+
+    const dashboard = await api.get<DashboardData>('/dashboard')
+    expect(dashboard).toEqual({
+      totalUsers: 1,
+      totalPosts: 0,
+      recentActivity: [],
+    })
+    await expect(
+      api.post<AuthResponse>('/auth/login', {
+        email: 'test@example.com',
+        password: 'password123',
+      })
+    ).resolves.toMatchObject({ user: { id: '1' } })
+  })
+
+  it('fills a large tenant that still pages', async () => {
+    applyScenario('large')
+
+    const dashboard = await api.get<DashboardData>('/dashboard')
+    expect(dashboard.totalUsers).toBe(5002)
+    const feed = await api.get<CursorPage<FeedPost>>('/posts', {
+      params: { limit: '10' },
+    })
+    expect(feed.data).toHaveLength(10)
+    expect(feed.nextCursor).not.toBeNull()
+  })
+
+  it('rejects the session until the user signs in again', async () => {
+    applyScenario('expired-session')
+
+    await expect(api.get('/auth/session')).rejects.toMatchObject({
+      status: 401,
+    })
+    await api.post('/auth/login', {
+      email: 'test@example.com',
+      password: 'password123',
+    })
+    expect(getMockOptions().sessionExpired).toBe(false)
+  })
+
+  it('starts from a clean slate instead of stacking', () => {
+    applyScenario('flaky')
+    applyScenario('slow', { latency: 'real' })
+
+    expect(getMockOptions()).toEqual({
+      latency: 3000,
+      errorRate: 0,
+      sessionExpired: false,
+    })
+  })
+})
+
+describe('resolveScenario', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('remembers a scenario picked with the query param', () => {
+    expect(resolveScenario('?scenario=flaky', localStorage)).toBe('flaky')
+    expect(resolveScenario('', localStorage)).toBe('flaky')
+  })
+
+  it('clears the remembered scenario with ?scenario=default', () => {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, 'slow')
+
+    expect(resolveScenario('?scenario=default', localStorage)).toBe('default')
+    expect(localStorage.getItem(SCENARIO_STORAGE_KEY)).toBeNull()
+  })
+
+  it("doesn't remember the expired session, so a reload can sign in", () => {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, 'slow')
+
+    expect(resolveScenario('?scenario=expired-session', localStorage)).toBe(
+      'expired-session'
+    )
+    expect(resolveScenario('', localStorage)).toBe('slow')
+  })
+
+  it('ignores unknown names', () => {
+    localStorage.setItem(SCENARIO_STORAGE_KEY, 'slow')
+
+    expect(resolveScenario('?scenario=nope', localStorage)).toBe('slow')
+  })
+})
+
+describe('withScenario', () => {
+  it('adds the param alongside an existing query', () => {
+    expect(withScenario('/posts?q=react', 'empty')).toBe(
+      '/posts?q=react&scenario=empty'
+    )
+  })
+})
@@ -0,0 +1,128 @@
+import {
+  createSeedActivity,
+  createSeedPosts,
+  createSeedUsers,
+  loadDb,
+  resetDb,
+} from './db'
+import { resetMockOptions, setMockOptions, type MockOptions } from './options'
+
+// Named states of the mock backend for reproducing edge cases. The same
+// presets run under `pnpm dev:mock` (chosen with ?scenario= or the dev
+// panel), in Vitest via applyScenario() and in Playwright via withScenario().
+
+export const SCENARIOS = [
+  'default',
+  'empty',
+  'large',
+  'slow',
+  'flaky',
+  'expired-session',
+] as const
+
+export type ScenarioName = (typeof SCENARIOS)[number]
+
+export const SCENARIO_PARAM = 'scenario'
+export const SCENARIO_STORAGE_KEY = 'mock-scenario'
+
+interface Scenario {
+  label: string
+  description: string
+  apply: () => void
+  // Applies to the page that's already open instead of reloading, and isn't
+  // remembered, so signing in again gets a working session
+  once?: boolean
+}
+
+export const scenarios: Record<ScenarioName, Scenario> = {
+  default: {
+    label: 'Default',
+    description: 'Seeded data on a fast, reliable network.',
+    apply: () => undefined,
+  },
+  empty: {
+    label: 'Empty tenant',
+    description: 'Only your own account: no other users, posts or activity.',
+    apply: () => {
+      loadDb({
+        users: createSeedUsers(0).slice(0, 1),
+        posts: [],
+        activity: [],
+      })
+    },
+  },
+  large: {
+    label: 'Large tenant',
+    description: '5,000 users, 2,000 posts and a long activity history.',
+    apply: () => {
+      const users = createSeedUsers(5000)
+      loadDb({
+        users,
+        posts: createSeedPosts(2000, 400),
+        activity: createSeedActivity(users, 500),
+      })
+    },
+  },
+  slow: {
+    label: 'Slow network',
+    description: 'Every response takes three seconds.',
+    apply: () => {
+      setMockOptions({ latency: 3000 })
+    },
+  },
+  flaky: {
+    label: 'Flaky server',
+    description: 'About one request in four fails with a 500.',
+    apply: () => {
+      setMockOptions({ errorRate: 0.25 })
+    },
+  },
+  'expired-session': {
+    label: 'Expired session',
+    description: 'The session is rejected until you sign in again.',
+    apply: () => {
+      setMockOptions({ sessionExpired: true })
+    },
+    once: true,
+  },
+}
+
+export function isScenarioName(value: unknown): value is ScenarioName {
+  return (SCENARIOS as readonly unknown[]).includes(value)
+}
+
+// Starts from the seed and default options every time, so scenarios never
+// stack on top of each other. `base` is applied first, so a scenario can
+// still override it (dev:mock passes realistic latency this way).
+export function applyScenario(
+  name: ScenarioName,
+  base: Partial<MockOptions> = {}
+) {
+  resetDb()
+  resetMockOptions()
+  setMockOptions(base)
+  scenarios[name].apply()
+}
+
+// The query param wins and is remembered, so a shared link sets up the
+// scenario and later reloads keep it. ?scenario=default clears it, and
+// one-off scenarios leave the remembered one alone.
+export function resolveScenario(search: string, storage: Storage) {
+  const fromQuery = new URLSearchParams(search).get(SCENARIO_PARAM)
+  if (isScenarioName(fromQuery)) {
+    if (fromQuery === 'default') storage.removeItem(SCENARIO_STORAGE_KEY)
+    else if (!scenarios[fromQuery].once) {
+      storage.setItem(SCENARIO_STORAGE_KEY, fromQuery)
+    }
+    return fromQuery
+  }
+  const stored = storage.getItem(SCENARIO_STORAGE_KEY)
+  return isScenarioName(stored) ? stored : 'default'
+}
+
+export function withScenario(path: string, name: ScenarioName) {
+  const [pathname = '', query = ''] = path.split('?')
+  const params = new URLSearchParams(query)
+  params.set(SCENARIO_PARAM, name)
+  return `${pathname}?${params.toString()}`
+}
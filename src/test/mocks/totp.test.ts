@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createOtpauthUrl,
+  createTotpSecret,
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  verifyTotp,
+} from './totp'
+
+// The SHA-1 test secret from RFC 6238 appendix B, "12345678901234567890"
+const RFC_SECRET = encodeBase32(
+  new TextEncoder().encode('12345678901234567890')
+)
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255])
+    expect(decodeBase32(encodeBase32(bytes))).toEqual(bytes)
+  })
+
+  it('ignores case, spaces and padding', () => {
+    expect(decodeBase32('jbsw y3dp ehpk 3pxp==')).toEqual(
+      decodeBase32('JBSWY3DPEHPK3PXP')
+    )
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => decodeBase32('JBSW1')).toThrow()
+  })
+})
+
+describe('generateTotp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %is', async (seconds, code) => {
+    expect(await generateTotp(RFC_SECRET, seconds * 1000)).toBe(code)
+  })
+})
+
+describe('verifyTotp', () => {
+  const time = 1_700_000_000_000
+
+  it('accepts the current code and its neighbours', async () => {
+    const secret = createTotpSecret()
+    const previous = await generateTotp(secret, time - 30_000)
+    expect(
+      await verifyTotp(secret, await generateTotp(secret, time), time)
+    ).toBe(true)
+    expect(await verifyTotp(secret, previous, time)).toBe(true)
+  })
+
+  it('rejects codes from further away and malformed input', async () => {
+    const secret = createTotpSecret()
+    const stale = await generateTotp(secret, time - 120_000)
+    expect(await verifyTotp(secret, stale, time)).toBe(false)
+    expect(await verifyTotp(secret, 'abcdef', time)).toBe(false)
+  })
+})
+
+describe('createOtpauthUrl', () => {
+  it('labels the account with the issuer', () => {
+    const url = new URL(createOtpauthUrl('JBSWY3DPEHPK3PXP', 'a@example.com'))
+    expect(url.protocol).toBe('otpauth:')
+    expect(url.host).toBe('totp')
+    expect(decodeURIComponent(url.pathname)).toBe(
+      '/My Application:a@example.com'
+    )
+    expect(url.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP')
+    expect(url.searchParams.get('issuer')).toBe('My Application')
+  })
+})
@@ -6,16 +6,22 @@ import * as matchers from 'vitest-axe/matchers'
 // Register vitest-axe matchers
 expect.extend(matchers)
 import { server } from './mocks/server'
+import { db, resetDb } from './mocks/db'
+import { resetMockOptions } from './mocks/options'
 
 // Start MSW server before all tests
 beforeAll(() => {
   server.listen({ onUnhandledRequest: 'error' })
 })
 
-// Reset handlers after each test
+// Reset handlers, mock data and injected faults after each test
 afterEach(() => {
   cleanup()
   server.resetHandlers()
+  // resetDb() keeps sign-in sessions, as a dev:mock reload does
+  db.sessions.forget()
+  resetDb()
+  resetMockOptions()
 })
 
 // Close MSW server after all tests
@@ -33,6 +33,16 @@ void testI18n.use(initReactI18next).init({
           delete: 'Delete',
           edit: 'Edit',
           loading: 'Loading...',
+          close: 'Close',
+        },
+        toast: {
+          region: 'Notifications',
+          dismiss: 'Dismiss notification',
+        },
+        realtime: {
+          connecting: 'Connecting...',
+          connected: 'Live',
+          reconnecting: 'Reconnecting...',
         },
         errors: {
           generic: 'Something went wrong. Please try again.',
@@ -52,10 +62,128 @@ void testI18n.use(initReactI18next).init({
         forgotPassword: 'Forgot password?',
         noAccount: "Don't have an account?",
         hasAccount: 'Already have an account?',
+        passwordReset: {
+          title: 'Choose a new password',
+          newPassword: 'New password',
+          confirmPassword: 'Confirm new password',
+          submit: 'Reset password',
+          submitting: 'Resetting...',
+          failed: 'Unable to reset your password. Please try again.',
+          successTitle: 'Password updated',
+          successDescription: 'You can now sign in with your new password.',
+          expired: 'This reset link has expired. Links are valid for one hour.',
+          used: 'This reset link has already been used.',
+          invalid:
+            'This reset link is invalid. Make sure you copied the whole link from the email.',
+          requestNew: 'Request a new link',
+        },
+        mfa: {
+          title: 'Two-factor authentication',
+          description:
+            'Enter the code from your authenticator app to finish signing in.',
+          code: 'Authentication code',
+          codeHint: 'The 6-digit code shown in your app.',
+          recoveryCode: 'Recovery code',
+          recoveryCodeHint:
+            'One of the codes you saved when you turned on two-factor authentication. Each works once.',
+          verify: 'Verify',
+          verifying: 'Verifying...',
+          useRecoveryCode: 'Use a recovery code instead',
+          useAuthenticator: 'Use your authenticator app instead',
+          startOver: 'Back to sign in',
+          expired:
+            'This sign-in attempt has expired. Go back and enter your password again.',
+          failed: 'Unable to verify the code. Please try again.',
+        },
+        emailVerification: {
+          title: 'Verify your email',
+          bannerLabel: 'Email verification',
+          banner:
+            'Please verify your email address. We sent a link to {{email}}.',
+          resend: 'Resend email',
+          resending: 'Sending...',
+          resendIn_one: 'Resend in {{count}} second',
+          resendIn_other: 'Resend in {{count}} seconds',
+          resent: 'We sent a new link to {{email}}.',
+          rateLimited:
+            'An email was sent recently. Please wait a moment before asking again.',
+          resendFailed: 'Unable to send the email. Please try again.',
+          verifyingTitle: 'Verifying your email',
+          verifying: 'One moment...',
+          verifiedTitle: 'Email verified',
+          verifiedDescription: 'Thanks for confirming your email address.',
+          continue: 'Continue',
+          pendingTitle: 'Check your inbox',
+          pendingDescription:
+            'We sent a link to {{email}}. Open it to verify your account. The link is valid for 24 hours.',
+          required: 'Verify your email address to use this page.',
+          expired:
+            'This verification link has expired. Links are valid for 24 hours.',
+          invalid:
+            'This verification link is invalid. Make sure you copied the whole link from the email.',
+          failed: 'Unable to verify your email. Please try again.',
+          signInForNewLink: 'Sign in to get a new link',
+        },
+        sso: {
+          continueWith: 'Continue with {{provider}}',
+          redirecting: 'Redirecting...',
+          or: 'or',
+          startFailed:
+            "Couldn't reach your identity provider. Please try again.",
+          signingInTitle: 'Signing you in',
+          signingIn: 'Finishing sign-in with your identity provider...',
+          failedTitle: "Sign-in didn't finish",
+          denied:
+            'Sign-in was cancelled at your identity provider, so nothing was shared with this app.',
+          invalid:
+            "This sign-in response doesn't match a request from this browser. Start again from the sign-in page.",
+          failed:
+            "We couldn't sign you in with your identity provider. Please try again.",
+          backToSignIn: 'Back to sign in',
+        },
       },
       dashboard: {
         pageTitle: 'Dashboard',
         welcome: 'Welcome to your dashboard',
+        activity: {
+          title: 'Recent activity',
+          filter: 'Filter by activity type',
+          allTypes: 'All activity',
+          types: {
+            user_registered: 'Registrations',
+            user_updated: 'Profile updates',
+            user_deleted: 'Removed users',
+            post_created: 'New posts',
+          },
+          descriptions: {
+            user_registered: '{{name}} joined',
+            user_updated: '{{name}} updated their profile',
+            user_deleted: '{{name}} was removed',
+            post_created: '{{name}} published "{{title}}"',
+          },
+          empty: 'No activity yet.',
+          loadMore: 'Load more',
+          loadingMore: 'Loading...',
+        },
+        metrics: {
+          title: 'Growth',
+          range: 'Date range',
+          interval: 'Group by',
+          ranges: {
+            '7d': 'Last 7 days',
+            '30d': 'Last 30 days',
+            '90d': 'Last 90 days',
+            '365d': 'Last 12 months',
+          },
+          intervals: { day: 'Daily', week: 'Weekly', month: 'Monthly' },
+          signups: 'Signups',
+          posts: 'Posts',
+          date: 'Date',
+          summary: '{{total}} in total, peaking at {{peak}} on {{date}}',
+          empty: 'No data for this range.',
+          showTable: 'Show as table',
+          tableCaption: 'Signups and posts per period',
+        },
       },
       settings: {
         profile: {
@@ -70,12 +198,152 @@ void testI18n.use(initReactI18next).init({
           updateSuccess: 'Your profile has been updated.',
           updateFailed: 'Unable to update profile. Please try again.',
         },
+        security: {
+          pageTitle: 'Security',
+          pageDescription:
+            'Manage your password and the devices signed in to your account',
+          unknownLocation: 'Unknown location',
+          changePassword: {
+            title: 'Change password',
+            description:
+              "Choose a strong password you don't use anywhere else.",
+            currentPassword: 'Current password',
+            newPassword: 'New password',
+            confirmPassword: 'Confirm new password',
+            submit: 'Update password',
+            submitting: 'Updating...',
+            success: 'Your password has been changed.',
+            failed: 'Unable to change your password. Please try again.',
+          },
+          twoFactor: {
+            title: 'Two-factor authentication',
+            description:
+              'Ask for a code from an authenticator app as well as your password when you sign in.',
+            off: 'Two-factor authentication is off.',
+            on: 'Two-factor authentication is on.',
+            recoveryCodesRemaining_one: '{{count}} recovery code left.',
+            recoveryCodesRemaining_other: '{{count}} recovery codes left.',
+            enabled: 'Two-factor authentication has been turned on.',
+            disabled: 'Two-factor authentication has been turned off.',
+            loadFailed:
+              'Unable to load your two-factor settings. Please try again.',
+            setup: {
+              start: 'Set up two-factor authentication',
+              starting: 'Starting...',
+              startFailed:
+                'Unable to start two-factor setup. Please try again.',
+              scan: 'Scan the QR code with an authenticator app, or enter the key by hand.',
+              enterCode: 'Enter the 6-digit code the app shows to finish.',
+              qrLabel: 'QR code for your authenticator app',
+              manualEntry: 'Setup key',
+              code: 'Verification code',
+              verify: 'Turn on',
+              verifying: 'Verifying...',
+              cancel: 'Cancel',
+              failed:
+                'Unable to turn on two-factor authentication. Please try again.',
+            },
+            recoveryCodes: {
+              title: 'Save your recovery codes',
+              description:
+                "Each code signs you in once if you lose access to your authenticator app. They won't be shown again.",
+              download: 'Download codes',
+              done: "I've saved my codes",
+            },
+            disable: {
+              start: 'Turn off',
+              password: 'Confirm your password',
+              submit: 'Turn off two-factor authentication',
+              submitting: 'Turning off...',
+              cancel: 'Cancel',
+              failed:
+                'Unable to turn off two-factor authentication. Please try again.',
+            },
+          },
+          strength: {
+            label: 'Password strength: {{level}}',
+            levels: {
+              weak: 'Weak',
+              fair: 'Fair',
+              good: 'Good',
+              strong: 'Strong',
+            },
+            rules: {
+              minLength: 'At least 8 characters',
+              uppercase: 'An uppercase letter',
+              number: 'A number',
+            },
+            met: '(done)',
+            notMet: '(missing)',
+          },
+          sessions: {
+            title: 'Active sessions',
+            description:
+              'Browsers and devices that are signed in to your account.',
+            current: 'This device',
+            lastActive: 'Last active {{time}}',
+            signOutOthers: 'Sign out other sessions',
+            signingOut: 'Signing out...',
+            signedOut: 'Signed out of all other sessions.',
+            signOutFailed:
+              'Unable to sign out other sessions. Please try again.',
+            empty: 'No active sessions.',
+            loadFailed: 'Unable to load your sessions. Please try again.',
+          },
+          history: {
+            title: 'Recent sign-ins',
+            description:
+              "The latest attempts to sign in to your account. If you don't recognize one, change your password.",
+            date: 'Date',
+            device: 'Device',
+            location: 'Location',
+            result: 'Result',
+            succeeded: 'Succeeded',
+            failed: 'Failed',
+            empty: 'No sign-ins yet.',
+            loadFailed:
+              'Unable to load your sign-in history. Please try again.',
+          },
+        },
       },
       users: {
         pageTitle: "{{name}}'s Profile",
         postsHeading: 'Posts ({{count}})',
         noPosts: 'No posts yet.',
         publishedOn: 'Published on {{date}}',
+        posts: {
+          byline: 'Published on {{date}} by',
+          feed: {
+            noMatches: 'No posts match your filters.',
+            loadMore: 'Load more',
+            loadingMore: 'Loading...',
+            end: "You've reached the end.",
+            loadFailed: 'Failed to load posts. Please try again.',
+          },
+          form: {
+            title: 'Title',
+            titlePlaceholder: 'Give your post a title',
+            content: 'Content',
+            contentPlaceholder: "What's on your mind?",
+            publish: 'Publish',
+            save: 'Save changes',
+            saving: 'Saving...',
+          },
+          editor: {
+            label: 'Content editor',
+            write: 'Write',
+            preview: 'Preview',
+            hint: 'Markdown is supported.',
+            empty: 'Nothing to preview yet.',
+          },
+        },
+        pagination: {
+          showing: 'Showing {{from}}–{{to}} of {{total}}',
+          pageOf: 'Page {{page}} of {{pageCount}}',
+          rowsPerPage: 'Rows per page',
+          previous: 'Previous page',
+          next: 'Next page',
+        },
         admin: {
           pageTitle: 'User Management',
           createUser: 'Create User',
@@ -87,6 +355,7 @@ void testI18n.use(initReactI18next).init({
             role: 'Role',
             createdAt: 'Created',
             actions: 'Actions',
+            empty: 'No users match your filters.',
           },
           form: {
             name: 'Name',
@@ -117,6 +386,12 @@ void testI18n.use(initReactI18next).init({
             updateFailed: 'Failed to update user. Please try again.',
             deleteFailed: 'Failed to delete user. Please try again.',
           },
+          bulk: {
+            selectPage: 'Select all users on this page',
+            selectRow: 'Select {{name}}',
+            resultTitle: 'Some actions failed',
+            resultSummary: '{{succeeded}} succeeded, {{failed}} failed.',
+          },
         },
       },
       validation: {
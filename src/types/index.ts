@@ -1,43 +1,148 @@
-export interface User {
-  id: string
-  name: string
-  email: string
-  role: 'admin' | 'user'
-  createdAt: string
-  updatedAt: string
-}
+import type { z } from 'zod'
+import type {
+  activeSessionSchema,
+  activitySchema,
+  activityTypeSchema,
+  authResponseSchema,
+  cursorPageSchema,
+  dashboardDataSchema,
+  dashboardMetricsSchema,
+  dashboardWidgetSchema,
+  feedPostSchema,
+  loginHistoryEntrySchema,
+  loginResponseSchema,
+  metricsIntervalSchema,
+  metricsPointSchema,
+  metricsRangeSchema,
+  mfaChallengeSchema,
+  mfaSetupSchema,
+  mfaStatusSchema,
+  paginatedResponseSchema,
+  postAuthorSchema,
+  postSchema,
+  roleSchema,
+  ssoResponseSchema,
+  userPreferencesSchema,
+  userSchema,
+  widgetSizeSchema,
+  widgetTypeSchema,
+} from '@/api/schemas'
+
+// Response shapes are inferred from the schemas in src/api/schemas.ts, which
+// the client validates against; request inputs are plain interfaces.
 
-export interface Post {
-  id: string
+export type Role = z.infer<typeof roleSchema>
+
+export type User = z.infer<typeof userSchema>
+
+export type Post = z.infer<typeof postSchema>
+
+export interface CreatePostInput {
   title: string
   content: string
-  authorId: string
-  createdAt: string
-  updatedAt: string
+}
+
+export type UpdatePostInput = Partial<CreatePostInput>
+
+export type FeedPost = z.infer<typeof feedPostSchema>
+
+export type PostAuthor = z.infer<typeof postAuthorSchema>
+
+export interface PostFeedParams {
+  q: string
+  author?: string
+  // Inclusive YYYY-MM-DD bounds on the publish date
+  from?: string
+  to?: string
 }
 
 export interface CreateUserInput {
   name: string
   email: string
   password: string
-  role?: 'admin' | 'user'
+  role?: Role
 }
 
 export interface UpdateUserInput {
   name?: string
   email?: string
-  role?: 'admin' | 'user'
+  role?: Role
 }
 
-// API response wrappers
-export interface PaginatedResponse<T> {
-  data: T[]
-  total: number
+export type SortOrder = 'asc' | 'desc'
+
+export interface UserListParams {
   page: number
   pageSize: number
+  sort: 'name' | 'email' | 'role' | 'createdAt'
+  order: SortOrder
+  q?: string
+  role?: Role
+}
+
+export type ActivityType = z.infer<typeof activityTypeSchema>
+
+export type Activity = z.infer<typeof activitySchema>
+
+export type DashboardData = z.infer<typeof dashboardDataSchema>
+
+export type MetricsRange = z.infer<typeof metricsRangeSchema>
+export type MetricsInterval = z.infer<typeof metricsIntervalSchema>
+export type MetricsPoint = z.infer<typeof metricsPointSchema>
+export type DashboardMetrics = z.infer<typeof dashboardMetricsSchema>
+
+export type WidgetType = z.infer<typeof widgetTypeSchema>
+export type WidgetSize = z.infer<typeof widgetSizeSchema>
+export type DashboardWidget = z.infer<typeof dashboardWidgetSchema>
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>
+
+export type ActiveSession = z.infer<typeof activeSessionSchema>
+export type LoginHistoryEntry = z.infer<typeof loginHistoryEntrySchema>
+
+export interface ChangePasswordInput {
+  currentPassword: string
+  newPassword: string
+}
+
+export type MfaStatus = z.infer<typeof mfaStatusSchema>
+export type MfaSetup = z.infer<typeof mfaSetupSchema>
+
+// Exactly one of the two is sent
+export interface VerifyMfaInput {
+  challengeToken: string
+  code?: string
+  recoveryCode?: string
+}
+
+// The authorization code from the identity provider, with the PKCE verifier
+// that proves this browser asked for it
+export interface SsoTokenInput {
+  provider: string
+  code: string
+  codeVerifier: string
+  redirectUri: string
 }
 
+// API response wrappers
+export type AuthResponse = z.infer<typeof authResponseSchema>
+export type MfaChallenge = z.infer<typeof mfaChallengeSchema>
+export type LoginResponse = z.infer<typeof loginResponseSchema>
+export type SsoResponse = z.infer<typeof ssoResponseSchema>
+
+export type PaginatedResponse<T> = z.infer<
+  ReturnType<typeof paginatedResponseSchema<z.ZodType<T>>>
+>
+
+export type CursorPage<T> = z.infer<
+  ReturnType<typeof cursorPageSchema<z.ZodType<T>>>
+>
+
 export interface ApiErrorResponse {
   message: string
+  // Machine-readable reason, for errors the UI handles specially
+  code?: string
   errors?: Record<string, string[]>
+  // Seconds to wait, sent with 429 responses
+  retryAfter?: number
 }
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Company identity provider for single sign-on; the button only shows
+  // when both the URL and client ID are set
+  readonly VITE_SSO_AUTHORIZE_URL?: string
+  readonly VITE_SSO_CLIENT_ID?: string
+  readonly VITE_SSO_PROVIDER_NAME?: string
+}